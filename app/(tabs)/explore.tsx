@@ -504,6 +504,8 @@ import {
   ScrollView,
   Alert,
   ActivityIndicator,
+  TouchableOpacity,
+  Share,
 } from 'react-native';
 import { useState, useEffect } from 'react';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -512,7 +514,19 @@ import { SensorCard } from '@/src/components/SensorCard';
 import { useSensorProof } from '@/src/hooks/useSensorProof';
 import { useMWA } from '@/src/context/MWAContext';
 import { proofStorage } from '@/src/sdk/storage/ProofStorage';
-import { SensorType } from '@/src/types';
+import { isStepCountConsistent } from '@/src/sdk/sensors/PedometerProof';
+import { SnapshotProofGenerator } from '@/src/sdk/sensors/SnapshotProof';
+import { RecordedTrajectory, TrajectoryRecorder } from '@/src/sdk/sensors/TrajectoryProof';
+import { trajectoryToGPX } from '@/src/sdk/location/Trajectory';
+import {
+  GeofenceMonitor,
+  GeofenceMonitorMode,
+  loadGeofences,
+  removeGeofence,
+  saveGeofence,
+} from '@/src/sdk/location/GeofenceMonitor';
+import { seedVaultSigner } from '@/src/sdk/crypto/SeedVaultSigner';
+import { GeofenceRegion, SensorType, SensorTypeId } from '@/src/types';
 
 export default function SensorsScreen() {
   const { isConnected } = useMWA();
@@ -524,6 +538,8 @@ export default function SensorsScreen() {
   const [magnetoActive, setMagnetoActive] = useState(false);
   const [baroActive,    setBaroActive]    = useState(false);
   const [netActive,     setNetActive]     = useState(false);
+  const [lightActive,   setLightActive]   = useState(false);
+  const [stepsActive,   setStepsActive]   = useState(false);
 
   // Last readings
   const [lastGps,     setLastGps]     = useState<any>(null);
@@ -532,21 +548,46 @@ export default function SensorsScreen() {
   const [lastMagneto, setLastMagneto] = useState<any>(null);
   const [lastBaro,    setLastBaro]    = useState<any>(null);
   const [lastNet,     setLastNet]     = useState<any>(null);
+  const [lastLight,   setLastLight]   = useState<any>(null);
+  const [lastSteps,   setLastSteps]   = useState<any>(null);
 
   // Proof counts
   const [counts, setCounts] = useState({
     gps: 0, accelerometer: 0, gyroscope: 0,
-    magnetometer: 0, barometer: 0, network_speed: 0,
+    magnetometer: 0, barometer: 0, network_speed: 0, light: 0, pedometer: 0, snapshot: 0,
+    trajectory: 0,
   });
 
+  // Snapshot of every active sensor in one proof
+  const [snapshotGenerator] = useState(() => new SnapshotProofGenerator(seedVaultSigner));
+  const [snapshotting, setSnapshotting] = useState(false);
+
+  // Recorded GPS track, signed once when recording stops
+  const [trajectoryRecorder] = useState(() => new TrajectoryRecorder(seedVaultSigner));
+  const [recording, setRecording] = useState(false);
+  const [trackPoints, setTrackPoints] = useState(0);
+  const [lastTrack, setLastTrack] = useState<RecordedTrajectory | null>(null);
+
+  // Geofences that generate proofs on enter, exit and dwell
+  const [geofenceMonitor] = useState(() => new GeofenceMonitor(seedVaultSigner));
+  const [geofences, setGeofences] = useState<GeofenceRegion[]>([]);
+  const [geofenceMode, setGeofenceMode] = useState<GeofenceMonitorMode | null>(null);
+
   const gpsProof     = useSensorProof(SensorType.GPS);
   const accelProof   = useSensorProof(SensorType.ACCELEROMETER);
   const gyroProof    = useSensorProof(SensorType.GYROSCOPE);
   const magnetoProof = useSensorProof(SensorType.MAGNETOMETER);
   const baroProof    = useSensorProof(SensorType.BAROMETER);
   const netProof     = useSensorProof(SensorType.NETWORK_SPEED);
+  const lightProof   = useSensorProof(SensorType.LIGHT);
+  const stepsProof   = useSensorProof(SensorType.PEDOMETER);
 
   useEffect(() => { loadCounts(); }, []);
+  useEffect(() => () => trajectoryRecorder.discard(), [trajectoryRecorder]);
+  useEffect(() => {
+    loadGeofences().then(setGeofences).catch(() => {});
+    return () => { geofenceMonitor.stop().catch(() => {}); };
+  }, [geofenceMonitor]);
 
   const loadCounts = async () => {
     const all = await proofStorage.getAllProofs();
@@ -557,6 +598,10 @@ export default function SensorsScreen() {
       magnetometer:  all.filter(p => p.proof.sensorData.type === 'magnetometer').length,
       barometer:     all.filter(p => p.proof.sensorData.type === 'barometer').length,
       network_speed: all.filter(p => p.proof.sensorData.type === 'network_speed').length,
+      light:         all.filter(p => p.proof.sensorData.type === 'light').length,
+      pedometer:     all.filter(p => p.proof.sensorData.type === 'pedometer').length,
+      snapshot:      all.filter(p => p.proof.sensorData.type === 'snapshot').length,
+      trajectory:    all.filter(p => p.proof.sensorData.type === 'trajectory').length,
     });
   };
 
@@ -586,7 +631,7 @@ export default function SensorsScreen() {
   // ── Accelerometer ─────────────────────────────────────────────────────────
   const handleActivateAccel = async () => {
     if (!isConnected) return notConnectedAlert();
-    const ok = await accelProof.accelGenerator.isAvailable();
+    const ok = await accelProof.requestPermissions();
     if (!ok) { Alert.alert('Not Available', 'Accelerometer not available on this device.'); return; }
     setAccelActive(true);
   };
@@ -607,7 +652,7 @@ export default function SensorsScreen() {
   // ── Gyroscope ─────────────────────────────────────────────────────────────
   const handleActivateGyro = async () => {
     if (!isConnected) return notConnectedAlert();
-    const ok = await gyroProof.gyroGenerator.isAvailable();
+    const ok = await gyroProof.requestPermissions();
     if (!ok) { Alert.alert('Not Available', 'Gyroscope not available on this device.'); return; }
     setGyroActive(true);
   };
@@ -628,7 +673,7 @@ export default function SensorsScreen() {
   // ── Magnetometer ──────────────────────────────────────────────────────────
   const handleActivateMagneto = async () => {
     if (!isConnected) return notConnectedAlert();
-    const ok = await magnetoProof.magnetoGenerator.isAvailable();
+    const ok = await magnetoProof.requestPermissions();
     if (!ok) { Alert.alert('Not Available', 'Magnetometer not available on this device.'); return; }
     setMagnetoActive(true);
   };
@@ -648,7 +693,7 @@ export default function SensorsScreen() {
   // ── Barometer ─────────────────────────────────────────────────────────────
   const handleActivateBaro = async () => {
     if (!isConnected) return notConnectedAlert();
-    const ok = await baroProof.barometerGenerator.isAvailable();
+    const ok = await baroProof.requestPermissions();
     if (!ok) { Alert.alert('Not Available', 'Barometer not available on this device.'); return; }
     setBaroActive(true);
   };
@@ -668,7 +713,7 @@ export default function SensorsScreen() {
   // ── Network Speed ─────────────────────────────────────────────────────────
   const handleActivateNet = async () => {
     if (!isConnected) return notConnectedAlert();
-    const ok = await netProof.networkGenerator.isAvailable();
+    const ok = await netProof.requestPermissions();
     if (!ok) { Alert.alert('No Internet', 'Device has no internet connection.'); return; }
     setNetActive(true);
   };
@@ -686,9 +731,158 @@ export default function SensorsScreen() {
     } catch (e: any) { Alert.alert('Network Error', e?.message || 'Failed to generate coverage proof.'); }
   };
 
-  const anyGenerating =
+  // ── Ambient Light ─────────────────────────────────────────────────────────
+  const handleActivateLight = async () => {
+    if (!isConnected) return notConnectedAlert();
+    const ok = await lightProof.requestPermissions();
+    if (!ok) { Alert.alert('Not Available', 'Light sensor not available on this device (Android only).'); return; }
+    setLightActive(true);
+  };
+  const handleGenerateLightProof = async () => {
+    if (!isConnected) return notConnectedAlert();
+    try {
+      const proof = await lightProof.generateLightProof({ duration: 2000, samples: 10 });
+      if (!proof) return;
+      setLastLight(proof.sensorData.data);
+      await loadCounts();
+      const d = proof.sensorData.data as any;
+      Alert.alert('Light Proof ✓',
+        `Illuminance: ${d.illuminance?.toFixed(0)} lux\nConditions: ${d.lightCondition}\n\nHash: ${proof.proofHash.slice(0, 20)}...`);
+    } catch (e: any) { Alert.alert('Light Sensor Error', e?.message || 'Failed to generate light proof.'); }
+  };
+
+  // ── Pedometer ─────────────────────────────────────────────────────────────
+  const handleActivateSteps = async () => {
+    if (!isConnected) return notConnectedAlert();
+    const ok = await stepsProof.requestPermissions();
+    if (!ok) { Alert.alert('Not Available', 'Step counter not available, or activity permission was denied.'); return; }
+    setStepsActive(true);
+  };
+  const handleGenerateStepProof = async () => {
+    if (!isConnected) return notConnectedAlert();
+    try {
+      const proof = await stepsProof.generateStepProof({ duration: 30000 });
+      if (!proof) return;
+      setLastSteps(proof.sensorData.data);
+      await loadCounts();
+      const d = proof.sensorData.data as any;
+      Alert.alert(isStepCountConsistent(d) ? 'Step Proof ✓' : 'Step Proof ⚠',
+        `Pedometer: ${d.steps} steps\nAccelerometer: ${d.accelerometerSteps} steps\nDisagreement: ${(d.disagreement * 100).toFixed(0)}%\n\nHash: ${proof.proofHash.slice(0, 20)}...`);
+    } catch (e: any) { Alert.alert('Pedometer Error', e?.message || 'Failed to generate step proof.'); }
+  };
+
+  // ── Snapshot ──────────────────────────────────────────────────────────────
+  // The pedometer is left out: its 30s count would not fit the window
+  const activeTypes: SensorTypeId[] = [
+    gpsActive && SensorType.GPS,
+    accelActive && SensorType.ACCELEROMETER,
+    gyroActive && SensorType.GYROSCOPE,
+    magnetoActive && SensorType.MAGNETOMETER,
+    baroActive && SensorType.BAROMETER,
+    netActive && SensorType.NETWORK_SPEED,
+    lightActive && SensorType.LIGHT,
+  ].filter((t): t is SensorType => !!t);
+
+  const handleGenerateSnapshot = async () => {
+    if (!isConnected) return notConnectedAlert();
+    if (activeTypes.length < 2) {
+      Alert.alert('Activate Sensors', 'Activate at least two sensors to capture them together.');
+      return;
+    }
+    try {
+      setSnapshotting(true);
+      const proof = await snapshotGenerator.generateSnapshotProof(activeTypes, {
+        windowMs: 15000,
+        sensorOptions: { [SensorType.GPS]: { minAccuracy: 200 } },
+      });
+      await proofStorage.saveProof(proof);
+      await loadCounts();
+      const d = proof.sensorData.data as any;
+      Alert.alert('Snapshot Proof ✓',
+        `${d.readings.length} sensors in one proof\nCapture skew: ${d.skewMs}ms\n\nHash: ${proof.proofHash.slice(0, 20)}...`);
+    } catch (e: any) {
+      Alert.alert('Snapshot Error', e?.message || 'Failed to generate snapshot proof.');
+    } finally {
+      setSnapshotting(false);
+    }
+  };
+
+  // ── Trajectory ────────────────────────────────────────────────────────────
+  const handleStartTrack = async () => {
+    if (!isConnected) return notConnectedAlert();
+    const ok = await trajectoryRecorder.requestPermissions();
+    if (!ok) { Alert.alert('Permission Denied', 'GPS access required to record a track.'); return; }
+    try {
+      setTrackPoints(0);
+      await trajectoryRecorder.start({ onPoint: (_point, count) => setTrackPoints(count) });
+      setRecording(true);
+    } catch (e: any) { Alert.alert('Track Error', e?.message || 'Failed to start recording.'); }
+  };
+  const handleStopTrack = async () => {
+    setRecording(false);
+    try {
+      const track = await trajectoryRecorder.stop();
+      await proofStorage.saveProof(track.proof);
+      setLastTrack(track);
+      await loadCounts();
+      const d = track.proof.sensorData.data as any;
+      Alert.alert('Trajectory Proof ✓',
+        `${d.pointCount} points · ${(d.distanceMeters / 1000).toFixed(2)} km · ${Math.round(d.durationMs / 60000)} min\n\nHash: ${track.proof.proofHash.slice(0, 20)}...`);
+    } catch (e: any) { Alert.alert('Track Error', e?.message || 'Failed to sign the track.'); }
+  };
+  const handleShareTrack = async () => {
+    if (!lastTrack) return;
+    try {
+      await Share.share({
+        title: 'DePIN-Go track (GPX)',
+        message: trajectoryToGPX(lastTrack.points, { trajectory: lastTrack.proof.sensorData.data as any }),
+      });
+    } catch (e: any) { Alert.alert('Share Error', e?.message || 'Failed to export the track.'); }
+  };
+
+  // ── Geofences ─────────────────────────────────────────────────────────────
+  const handleAddGeofence = async () => {
+    if (!isConnected) return notConnectedAlert();
+    try {
+      const { latitude, longitude } = (await gpsProof.source?.read({ minAccuracy: 200 }))?.data ?? {};
+      if (typeof latitude !== 'number' || typeof longitude !== 'number') return;
+      const number = geofences.length + 1;
+      await saveGeofence({
+        id: `place-${Date.now()}`,
+        name: `Place ${number}`,
+        shape: { kind: 'circle', center: { latitude, longitude }, radiusMeters: 100 },
+        dwellMs: 5 * 60 * 1000,
+      });
+      setGeofences(await loadGeofences());
+    } catch (e: any) { Alert.alert('Geofence Error', e?.message || 'Failed to add a geofence.'); }
+  };
+  const handleRemoveGeofence = async (id: string) => {
+    try {
+      await removeGeofence(id);
+      setGeofences(await loadGeofences());
+      setGeofenceMode(geofenceMonitor.getMode());
+    } catch (e: any) { Alert.alert('Geofence Error', e?.message || 'Failed to remove the geofence.'); }
+  };
+  const handleToggleGeofences = async () => {
+    if (!isConnected) return notConnectedAlert();
+    try {
+      if (geofenceMode) {
+        await geofenceMonitor.stop();
+        setGeofenceMode(null);
+        return;
+      }
+      const mode = await geofenceMonitor.start({
+        locationOptions: { minAccuracy: 200 },
+        onEvent: () => { loadCounts(); },
+      });
+      setGeofenceMode(mode);
+    } catch (e: any) { Alert.alert('Geofence Error', e?.message || 'Failed to start geofences.'); }
+  };
+
+  const anyGenerating = snapshotting || recording ||
     gpsProof.isGenerating || accelProof.isGenerating || gyroProof.isGenerating ||
-    magnetoProof.isGenerating || baroProof.isGenerating || netProof.isGenerating;
+    magnetoProof.isGenerating || baroProof.isGenerating || netProof.isGenerating ||
+    lightProof.isGenerating || stepsProof.isGenerating;
 
   const totalProofs = Object.values(counts).reduce((a, b) => a + b, 0);
 
@@ -746,6 +940,93 @@ export default function SensorsScreen() {
         onDeactivate={() => setNetActive(false)} onGenerateProof={handleGenerateNetProof} />
       {netProof.isGenerating && <LoadingCard label="Running speed test…" />}
 
+      <SensorCard sensorType={SensorType.LIGHT} isActive={lightActive} lastReading={lastLight}
+        proofCount={counts.light} onActivate={handleActivateLight}
+        onDeactivate={() => setLightActive(false)} onGenerateProof={handleGenerateLightProof} />
+      {lightProof.isGenerating && <LoadingCard label="Measuring light…" />}
+
+      <SensorCard sensorType={SensorType.PEDOMETER} isActive={stepsActive} lastReading={lastSteps}
+        proofCount={counts.pedometer} onActivate={handleActivateSteps}
+        onDeactivate={() => setStepsActive(false)} onGenerateProof={handleGenerateStepProof} />
+      {stepsProof.isGenerating && <LoadingCard label="Counting steps for 30s — keep walking…" />}
+
+      {/* Snapshot */}
+      <Text style={styles.sectionLabel}>SNAPSHOT</Text>
+      <View style={styles.actionCard}>
+        <Text style={styles.actionText}>
+          Capture every active sensor at once and sign them as one proof, so the readings provably belong together.
+        </Text>
+        <TouchableOpacity
+          style={[styles.actionButton, (activeTypes.length < 2 || snapshotting) && styles.actionButtonDisabled]}
+          onPress={handleGenerateSnapshot}
+          disabled={snapshotting}
+          activeOpacity={0.85}
+        >
+          <Ionicons name="aperture" size={16} color="#fff" />
+          <Text style={styles.actionButtonText}>
+            Snapshot {activeTypes.length} active sensor{activeTypes.length === 1 ? '' : 's'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+      {snapshotting && <LoadingCard label="Capturing sensors together…" />}
+
+      {/* Trajectory */}
+      <Text style={styles.sectionLabel}>TRAJECTORY</Text>
+      <View style={styles.actionCard}>
+        <Text style={styles.actionText}>
+          Record a GPS track and sign the whole route with one signature instead of one per fix.
+        </Text>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={recording ? handleStopTrack : handleStartTrack}
+          activeOpacity={0.85}
+        >
+          <Ionicons name={recording ? 'stop-circle' : 'navigate'} size={16} color="#fff" />
+          <Text style={styles.actionButtonText}>
+            {recording ? `Stop & sign ${trackPoints} point${trackPoints === 1 ? '' : 's'}` : 'Start recording'}
+          </Text>
+        </TouchableOpacity>
+        {lastTrack && !recording && (
+          <TouchableOpacity style={[styles.actionButton, styles.actionButtonSecondary]} onPress={handleShareTrack} activeOpacity={0.85}>
+            <Ionicons name="share-outline" size={16} color="#fff" />
+            <Text style={styles.actionButtonText}>Export last track as GPX</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {recording && <LoadingCard label={`Recording track… ${trackPoints} points`} />}
+
+      {/* Geofences */}
+      <Text style={styles.sectionLabel}>GEOFENCES</Text>
+      <View style={styles.actionCard}>
+        <Text style={styles.actionText}>
+          {geofenceMode
+            ? `Watching ${geofences.length} place${geofences.length === 1 ? '' : 's'} (${geofenceMode === 'native' ? 'region monitoring' : 'polling'}). A GPS proof is signed on every enter, exit and 5-minute stay.`
+            : 'Save places and get a GPS proof automatically when you enter, leave or stay at one.'}
+        </Text>
+        {geofences.map((region) => (
+          <View key={region.id} style={styles.geofenceRow}>
+            <Ionicons name="radio-button-on" size={14} color="#14F195" />
+            <Text style={styles.geofenceName}>{region.name}</Text>
+            <TouchableOpacity onPress={() => handleRemoveGeofence(region.id)} hitSlop={8}>
+              <Ionicons name="close" size={16} color="#555" />
+            </TouchableOpacity>
+          </View>
+        ))}
+        <TouchableOpacity style={[styles.actionButton, styles.actionButtonSecondary]} onPress={handleAddGeofence} activeOpacity={0.85}>
+          <Ionicons name="add-circle-outline" size={16} color="#fff" />
+          <Text style={styles.actionButtonText}>Add a 100 m geofence here</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionButton, geofences.length === 0 && !geofenceMode && styles.actionButtonDisabled]}
+          onPress={handleToggleGeofences}
+          disabled={geofences.length === 0 && !geofenceMode}
+          activeOpacity={0.85}
+        >
+          <Ionicons name={geofenceMode ? 'stop-circle' : 'locate'} size={16} color="#fff" />
+          <Text style={styles.actionButtonText}>{geofenceMode ? 'Stop watching' : 'Start watching'}</Text>
+        </TouchableOpacity>
+      </View>
+
       {/* Stats */}
       <Text style={styles.sectionLabel}>SESSION STATS</Text>
       <View style={styles.statsGrid}>
@@ -755,6 +1036,10 @@ export default function SensorsScreen() {
         <StatChip icon="magnet"      label="Magnetic" value={counts.magnetometer}  color="#FF6B9D" />
         <StatChip icon="thermometer" label="Pressure" value={counts.barometer}     color="#00C2FF" />
         <StatChip icon="wifi"        label="Coverage" value={counts.network_speed} color="#FFD700" />
+        <StatChip icon="sunny"       label="Light"    value={counts.light}         color="#FFB84D" />
+        <StatChip icon="walk"        label="Steps"    value={counts.pedometer}     color="#4CD964" />
+        <StatChip icon="aperture"    label="Snapshot" value={counts.snapshot}      color="#B388FF" />
+        <StatChip icon="navigate"    label="Tracks"   value={counts.trajectory}    color="#5AC8FA" />
       </View>
 
       <View style={styles.totalRow}>
@@ -785,6 +1070,7 @@ export default function SensorsScreen() {
 const ALL_TYPES = [
   SensorType.GPS, SensorType.ACCELEROMETER, SensorType.GYROSCOPE,
   SensorType.MAGNETOMETER, SensorType.BAROMETER, SensorType.NETWORK_SPEED,
+  SensorType.LIGHT, SensorType.PEDOMETER,
 ];
 
 const INFO_STEPS = [
@@ -897,6 +1183,22 @@ const styles = StyleSheet.create({
   },
   loadingText: { fontSize: 14, color: '#9945FF', fontWeight: '600' },
 
+  actionCard: {
+    marginHorizontal: 16, marginBottom: 20, gap: 12,
+    backgroundColor: '#111118', borderRadius: 16, padding: 16,
+    borderWidth: 1, borderColor: '#1C1C2E',
+  },
+  actionText: { fontSize: 13, color: '#555', lineHeight: 19 },
+  actionButton: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8,
+    backgroundColor: '#9945FF', borderRadius: 12, paddingVertical: 12,
+  },
+  actionButtonSecondary: { backgroundColor: '#1C1C2E' },
+  actionButtonDisabled: { opacity: 0.4 },
+  actionButtonText: { color: '#fff', fontSize: 14, fontWeight: '700' },
+  geofenceRow: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  geofenceName: { flex: 1, fontSize: 14, color: '#fff', fontWeight: '600' },
+
   sectionLabel: {
     fontSize: 10, fontWeight: '700', color: '#444', letterSpacing: 2,
     paddingHorizontal: 20, marginTop: 8, marginBottom: 12,
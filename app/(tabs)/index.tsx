@@ -15,16 +15,46 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useMWA } from '@/src/context/MWAContext';
 import { WalletConnect } from '@/src/components/WalletConnect';
 import { proofStorage } from '@/src/sdk/storage/ProofStorage';
+import { seedVaultSigner } from '@/src/sdk/crypto/SeedVaultSigner';
+import { DelegatedSigner } from '@/src/sdk/crypto/DelegatedSigner';
+import {
+  backgroundCollector,
+  BackgroundCollectionStatus,
+  BackgroundOutcome,
+  BackgroundScheduleEntry,
+} from '@/src/sdk/background/BackgroundCollector';
+import { SensorType } from '@/src/types';
 
 const { width } = Dimensions.get('window');
 
+const BACKGROUND_SCHEDULE: BackgroundScheduleEntry[] = [
+  { sensorType: SensorType.GPS, everyMs: 5 * 60 * 1000 },
+  { sensorType: SensorType.BAROMETER, everyMs: 15 * 60 * 1000 },
+  { sensorType: SensorType.NETWORK_SPEED, everyMs: 30 * 60 * 1000 },
+];
+
+// Session key for background proofs: enough for a working day of the schedule above
+const BACKGROUND_SESSION = { maxProofs: 200, ttlMs: 8 * 60 * 60 * 1000 };
+
+const OUTCOME_COLORS: Record<BackgroundOutcome, string> = {
+  signed: '#14F195',
+  queued: '#F5A623',
+  failed: '#FF4444',
+};
+
 export default function DashboardScreen() {
   const { walletAddress, isConnecting, connect, disconnect, isConnected } = useMWA();
   const [stats, setStats] = useState({ total: 0, pending: 0, submitted: 0 });
   const [refreshing, setRefreshing] = useState(false);
+  const [background, setBackground] = useState<BackgroundCollectionStatus | null>(null);
+  const [unsignedCount, setUnsignedCount] = useState(0);
+  const [backgroundBusy, setBackgroundBusy] = useState(false);
 
   useEffect(() => {
     loadData();
+    // Background wakes write to storage, so poll while the Dashboard is open
+    const interval = setInterval(loadData, 30000);
+    return () => clearInterval(interval);
   }, []);
 
   const loadData = async () => {
@@ -35,6 +65,8 @@ export default function DashboardScreen() {
         pending: storageStats.pendingProofs,
         submitted: storageStats.submittedProofs,
       });
+      setBackground(await backgroundCollector.getStatus());
+      setUnsignedCount((await proofStorage.getUnsignedReadings()).length);
     } catch (error) {
       console.error('Failed to load data:', error);
     }
@@ -65,6 +97,55 @@ export default function DashboardScreen() {
     );
   };
 
+  const handleStartBackground = async () => {
+    setBackgroundBusy(true);
+    try {
+      if (!seedVaultSigner.isAuthorized()) await seedVaultSigner.authorize();
+      const sessionKey = await DelegatedSigner.create(seedVaultSigner, {
+        sensorTypes: BACKGROUND_SCHEDULE.map((entry) => entry.sensorType),
+        ...BACKGROUND_SESSION,
+      });
+      backgroundCollector.setSigner(sessionKey);
+      await backgroundCollector.start({ schedule: BACKGROUND_SCHEDULE });
+    } catch (error: any) {
+      backgroundCollector.setSigner(null);
+      Alert.alert('Background Collection', error.message || 'Failed to start');
+    } finally {
+      setBackgroundBusy(false);
+      await loadData();
+    }
+  };
+
+  const handleStopBackground = async () => {
+    setBackgroundBusy(true);
+    try {
+      await backgroundCollector.stop();
+      backgroundCollector.setSigner(null);
+    } catch (error: any) {
+      Alert.alert('Background Collection', error.message || 'Failed to stop');
+    } finally {
+      setBackgroundBusy(false);
+      await loadData();
+    }
+  };
+
+  const handleSignQueued = async () => {
+    setBackgroundBusy(true);
+    try {
+      if (!seedVaultSigner.isAuthorized()) await seedVaultSigner.authorize();
+      const count = await backgroundCollector.signWithWallet(seedVaultSigner);
+      Alert.alert('Done', `Signed ${count} queued reading${count === 1 ? '' : 's'}.`);
+    } catch (error: any) {
+      Alert.alert('Signing Failed', error.message || 'Could not sign queued readings');
+    } finally {
+      setBackgroundBusy(false);
+      await loadData();
+    }
+  };
+
+  const backgroundRunning = background?.running ?? false;
+  const hasSessionKey = backgroundCollector.hasSigner();
+
   const shortAddress = walletAddress
     ? walletAddress.toBase58().slice(0, 4) + '...' + walletAddress.toBase58().slice(-4)
     : null;
@@ -200,6 +281,80 @@ export default function DashboardScreen() {
         </>
       )}
 
+      {/* ── Background Collection ── */}
+      {isConnected && (
+        <>
+          <Text style={styles.sectionLabel}>BACKGROUND COLLECTION</Text>
+          <View style={styles.backgroundCard}>
+            <View style={styles.walletTopRow}>
+              <Text style={styles.backgroundSchedule}>
+                {BACKGROUND_SCHEDULE.map((entry) => `${entry.sensorType} /${entry.everyMs / 60000}m`).join(' · ')}
+              </Text>
+              <View style={[styles.statusPill, { backgroundColor: backgroundRunning ? '#14F19522' : '#FFFFFF0A' }]}>
+                <View style={[styles.statusDot, { backgroundColor: backgroundRunning ? '#14F195' : '#555' }]} />
+                <Text style={[styles.statusText, { color: backgroundRunning ? '#14F195' : '#555' }]}>
+                  {backgroundRunning ? 'Running' : 'Stopped'}
+                </Text>
+              </View>
+            </View>
+
+            <View style={styles.backgroundStats}>
+              <BackgroundStat label="Signed" value={background?.signedCount ?? 0} color="#14F195" />
+              <BackgroundStat label="Queued" value={background?.queuedCount ?? 0} color="#F5A623" />
+              <BackgroundStat label="Awaiting wallet" value={unsignedCount} color="#9945FF" />
+            </View>
+
+            <Text style={styles.backgroundMeta}>
+              Last run: {background?.lastRunAt ? new Date(background.lastRunAt).toLocaleTimeString() : 'never'}
+            </Text>
+            {backgroundRunning && !hasSessionKey && (
+              <Text style={styles.backgroundMeta}>
+                No session key in this app session — readings are queued for wallet signing
+              </Text>
+            )}
+
+            {(background?.recent ?? []).slice(0, 5).map((activity, i) => (
+              <View key={`${activity.timestamp}-${i}`} style={styles.activityRow}>
+                <View style={[styles.statusDot, { backgroundColor: OUTCOME_COLORS[activity.outcome] }]} />
+                <View style={styles.activityBody}>
+                  <Text style={styles.activityTitle}>
+                    {activity.sensorType} · {new Date(activity.timestamp).toLocaleTimeString()}
+                  </Text>
+                  <Text style={styles.activityDetail} numberOfLines={1}>{activity.detail}</Text>
+                </View>
+              </View>
+            ))}
+
+            <View style={styles.backgroundActions}>
+              {backgroundRunning ? (
+                <TouchableOpacity style={styles.walletBtn} onPress={handleStopBackground} disabled={backgroundBusy}>
+                  <Text style={styles.walletBtnText}>Stop</Text>
+                </TouchableOpacity>
+              ) : null}
+              {!backgroundRunning || !hasSessionKey ? (
+                <TouchableOpacity onPress={handleStartBackground} disabled={backgroundBusy}>
+                  <LinearGradient
+                    colors={['#9945FF', '#14F195']}
+                    style={styles.connectBtn}
+                    start={{ x: 0, y: 0 }}
+                    end={{ x: 1, y: 0 }}
+                  >
+                    <Text style={styles.connectBtnText}>
+                      {backgroundBusy ? 'Working...' : backgroundRunning ? 'New Session Key' : 'Start'}
+                    </Text>
+                  </LinearGradient>
+                </TouchableOpacity>
+              ) : null}
+              {unsignedCount > 0 && (
+                <TouchableOpacity style={styles.walletBtn} onPress={handleSignQueued} disabled={backgroundBusy}>
+                  <Text style={styles.walletBtnText}>Sign {unsignedCount} Queued</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </>
+      )}
+
       {/* ── Getting Started ── */}
       {!isConnected && (
         <>
@@ -273,6 +428,15 @@ function ActionTile({ icon, label, color, onPress }: { icon: string; label: stri
   );
 }
 
+function BackgroundStat({ label, value, color }: { label: string; value: number; color: string }) {
+  return (
+    <View style={styles.backgroundStat}>
+      <Text style={[styles.backgroundStatValue, { color }]}>{value}</Text>
+      <Text style={styles.statLabel}>{label}</Text>
+    </View>
+  );
+}
+
 // ─── Styles ───────────────────────────────────────────────────────────────────
 
 const styles = StyleSheet.create({
@@ -529,6 +693,71 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   },
 
+  // Background collection
+  backgroundCard: {
+    marginHorizontal: 20,
+    marginBottom: 28,
+    backgroundColor: '#111118',
+    borderRadius: 16,
+    padding: 18,
+    borderWidth: 1,
+    borderColor: '#1C1C2E',
+  },
+  backgroundSchedule: {
+    flex: 1,
+    fontSize: 11,
+    color: '#666',
+    fontFamily: 'monospace',
+    marginRight: 10,
+  },
+  backgroundStats: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 14,
+  },
+  backgroundStat: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 4,
+  },
+  backgroundStatValue: {
+    fontSize: 20,
+    fontWeight: '800',
+  },
+  backgroundMeta: {
+    fontSize: 12,
+    color: '#555',
+    marginBottom: 8,
+  },
+  activityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#1C1C2E',
+  },
+  activityBody: {
+    flex: 1,
+  },
+  activityTitle: {
+    fontSize: 12,
+    color: '#CCC',
+    fontWeight: '600',
+  },
+  activityDetail: {
+    fontSize: 11,
+    color: '#555',
+    marginTop: 2,
+  },
+  backgroundActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 12,
+  },
+
   // Steps
   stepRow: {
     flexDirection: 'row',
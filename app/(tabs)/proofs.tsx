@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   StyleSheet,
   Text,
@@ -13,22 +13,48 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { proofStorage } from '@/src/sdk/storage/ProofStorage';
-import { SensorProof } from '@/src/types';
+import { revocationStorage } from '@/src/sdk/storage/RevocationStorage';
+import { DelegationRevocation, SensorProof } from '@/src/types';
+import { getSignedSignerKind, isHardwareSignerKind } from '@/src/sdk/crypto/Signer';
+import { getHolderData } from '@/src/sdk/crypto/SelectiveDisclosure';
+import { verifyTimeWitness } from '@/src/sdk/crypto/TimeWitness';
+import { createConnection } from '@/src/utils/solana';
+import {
+  ProofCheckId,
+  ProofCheckStatus,
+  verifyProofDetailed,
+} from '@/src/utils/proof-helpers';
 
-type FilterType = 'all' | 'gps' | 'accelerometer';
+type FilterType = 'all' | 'gps' | 'accelerometer' | 'light' | 'pedometer';
 
 const FILTER_OPTIONS: { label: string; value: FilterType; icon: string }[] = [
   { label: 'All', value: 'all', icon: 'layers-outline' },
   { label: 'GPS', value: 'gps', icon: 'location-outline' },
   { label: 'Motion', value: 'accelerometer', icon: 'fitness-outline' },
+  { label: 'Light', value: 'light', icon: 'sunny-outline' },
+  { label: 'Steps', value: 'pedometer', icon: 'walk-outline' },
 ];
 
+// Card title, icon and accent per sensor type; other types fall back to motion
+const TYPE_DISPLAY: Record<string, { title: string; icon: string; color: string }> = {
+  gps: { title: 'GPS Location', icon: 'location', color: '#14F195' },
+  accelerometer: { title: 'Movement', icon: 'fitness', color: '#F5A623' },
+  light: { title: 'Ambient Light', icon: 'sunny', color: '#FFB84D' },
+  pedometer: { title: 'Steps', icon: 'walk', color: '#4CD964' },
+  snapshot: { title: 'Snapshot', icon: 'aperture', color: '#B388FF' },
+  trajectory: { title: 'Trajectory', icon: 'navigate', color: '#5AC8FA' },
+};
+
+function getTypeDisplay(type: string) {
+  return TYPE_DISPLAY[type] ?? TYPE_DISPLAY.accelerometer;
+}
+
 export default function ProofsScreen() {
   const [proofs, setProofs] = useState<SensorProof[]>([]);
   const [filter, setFilter] = useState<FilterType>('all');
   const [refreshing, setRefreshing] = useState(false);
   const [selectedProof, setSelectedProof] = useState<SensorProof | null>(null);
-  const [stats, setStats] = useState({ total: 0, gps: 0, accel: 0 });
+  const [stats, setStats] = useState({ total: 0, gps: 0, accel: 0, light: 0 });
 
   useEffect(() => {
     loadProofs();
@@ -43,6 +69,7 @@ export default function ProofsScreen() {
         total: all.length,
         gps: all.filter((p) => p.sensorData.type === 'gps').length,
         accel: all.filter((p) => p.sensorData.type === 'accelerometer').length,
+        light: all.filter((p) => p.sensorData.type === 'light').length,
       });
     } catch (e) {
       console.error('Failed to load proofs:', e);
@@ -111,6 +138,7 @@ export default function ProofsScreen() {
         <StatChip icon="layers" label="Total" value={stats.total} color="#9945FF" />
         <StatChip icon="location" label="GPS" value={stats.gps} color="#14F195" />
         <StatChip icon="fitness" label="Motion" value={stats.accel} color="#F5A623" />
+        <StatChip icon="sunny" label="Light" value={stats.light} color="#FFB84D" />
       </View>
 
       {/* Filter tabs */}
@@ -204,10 +232,10 @@ function ProofCard({
   index: number;
   onPress: () => void;
 }) {
-  const isGps = proof.sensorData.type === 'gps';
+  const display = getTypeDisplay(proof.sensorData.type);
   const ts = new Date(proof.sensorData.timestamp);
-  const accentColor = isGps ? '#14F195' : '#F5A623';
-  const icon = isGps ? 'location' : 'fitness';
+  const accentColor = display.color;
+  const icon = display.icon;
 
   return (
     <TouchableOpacity style={styles.card} onPress={onPress} activeOpacity={0.82}>
@@ -222,7 +250,7 @@ function ProofCard({
           </View>
           <View style={styles.cardMeta}>
             <Text style={styles.cardType}>
-              {isGps ? 'GPS Location' : 'Movement'}
+              {display.title}
             </Text>
             <Text style={styles.cardTime}>
               {ts.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
@@ -235,7 +263,7 @@ function ProofCard({
 
         {/* Data preview */}
         <Text style={styles.cardData} numberOfLines={1}>
-          {formatPreview(proof.sensorData.type, proof.sensorData.data)}
+          {formatPreview(proof.sensorData.type, getHolderData(proof))}
         </Text>
 
         {/* Hash */}
@@ -259,9 +287,9 @@ function ProofDetailSheet({
   onClose: () => void;
   onDelete: () => void;
 }) {
-  const isGps = proof.sensorData.type === 'gps';
+  const display = getTypeDisplay(proof.sensorData.type);
   const ts = new Date(proof.sensorData.timestamp);
-  const accentColor = isGps ? '#14F195' : '#F5A623';
+  const accentColor = display.color;
 
   return (
     <View style={styles.sheet}>
@@ -280,12 +308,12 @@ function ProofDetailSheet({
         {/* Type badge */}
         <View style={[styles.typeBadge, { borderColor: accentColor }]}>
           <Ionicons
-            name={isGps ? 'location' : 'fitness'}
+            name={display.icon as any}
             size={20}
             color={accentColor}
           />
           <Text style={[styles.typeBadgeText, { color: accentColor }]}>
-            {isGps ? 'GPS Location Proof' : 'Movement Proof'}
+            {display.title} Proof
           </Text>
         </View>
 
@@ -296,9 +324,11 @@ function ProofDetailSheet({
           <DetailRow label="Unix" value={proof.sensorData.timestamp.toString()} mono />
         </DetailSection>
 
-        {/* Sensor Data */}
-        <DetailSection title="Sensor Data">
-          {Object.entries(proof.sensorData.data).map(([key, val]) => (
+        {/* Sensor Data — committed proofs show the holder's private values */}
+        <DetailSection
+          title={proof.sensorData.context?.commitments ? 'Sensor Data · Committed (private)' : 'Sensor Data'}
+        >
+          {Object.entries(getHolderData(proof)).map(([key, val]) => (
             val !== null && val !== undefined ? (
               <DetailRow
                 key={key}
@@ -323,11 +353,120 @@ function ProofDetailSheet({
           </View>
         </DetailSection>
 
+        {/* Device attestation */}
+        {proof.sensorData.context?.device && (
+          <DetailSection title="Device">
+            <DetailRow label="Model" value={proof.sensorData.context.device.model ?? 'Unknown'} />
+            <DetailRow
+              label="OS"
+              value={`${proof.sensorData.context.device.osName ?? '?'} ${proof.sensorData.context.device.osVersion ?? ''}`}
+            />
+            <DetailRow label="App Version" value={proof.sensorData.context.device.appVersion ?? 'Unknown'} />
+            <DetailRow label="Physical Device" value={proof.sensorData.context.device.isDevice ? 'Yes' : 'No (emulator)'} />
+            <DetailRow
+              label="Registered"
+              value={proof.sensorData.context.device.registeredAt
+                ? new Date(proof.sensorData.context.device.registeredAt).toLocaleDateString()
+                : 'Not registered'}
+            />
+          </DetailSection>
+        )}
+
+        {/* Location precision */}
+        {proof.sensorData.context?.locationPrivacy && (
+          <DetailSection title="Location Privacy">
+            <DetailRow label="Level" value={proof.sensorData.context.locationPrivacy.level} />
+            {proof.sensorData.context.locationPrivacy.geohash && (
+              <DetailRow label="Geohash" value={proof.sensorData.context.locationPrivacy.geohash} mono />
+            )}
+            {proof.sensorData.context.locationPrivacy.geohashPrecision !== undefined && (
+              <DetailRow
+                label="Geohash precision"
+                value={`${proof.sensorData.context.locationPrivacy.geohashPrecision}`}
+                mono
+              />
+            )}
+            {proof.sensorData.context.locationPrivacy.gridDegrees !== undefined && (
+              <DetailRow label="Grid" value={`${proof.sensorData.context.locationPrivacy.gridDegrees}°`} mono />
+            )}
+            <DetailRow
+              label="Precision"
+              value={`±${Math.round(proof.sensorData.context.locationPrivacy.precisionMeters)} m`}
+              mono
+            />
+          </DetailSection>
+        )}
+
+        {/* Cross-sensor consistency (snapshots) */}
+        {proof.sensorData.context?.consistency && (
+          <DetailSection title="Consistency">
+            <DetailRow
+              label="Score"
+              value={`${proof.sensorData.context.consistency.score.toFixed(2)} · ${
+                proof.sensorData.context.consistency.isConsistent ? 'consistent' : 'inconsistent'
+              }`}
+              mono
+            />
+            {proof.sensorData.context.consistency.verdicts.map((v) => (
+              <View key={v.check} style={styles.detailBlock}>
+                <Text style={styles.detailBlockLabel}>{`${v.check} · ${v.status}`}</Text>
+                <Text style={styles.detailBlockValue}>{v.explanation}</Text>
+              </View>
+            ))}
+          </DetailSection>
+        )}
+
+        {/* Session key delegation */}
+        {proof.sensorData.context?.delegation && (
+          <DetailSection title="Delegation">
+            <View style={styles.detailBlock}>
+              <Text style={styles.detailBlockLabel}>Delegating Wallet</Text>
+              <Text style={styles.detailBlockValue}>
+                {proof.sensorData.context.delegation.certificate.wallet}
+              </Text>
+            </View>
+            <DetailRow
+              label="Quota"
+              value={`${proof.sensorData.context.delegation.index + 1} of ${proof.sensorData.context.delegation.certificate.scope.maxProofs}`}
+              mono
+            />
+            <DetailRow
+              label="Expires"
+              value={new Date(proof.sensorData.context.delegation.certificate.scope.expiresAt).toLocaleString()}
+            />
+          </DetailSection>
+        )}
+
+        {/* Hash chain position */}
+        {proof.sensorData.context?.chain && (
+          <DetailSection title="Proof Chain">
+            <DetailRow label="Sequence" value={`#${proof.sensorData.context.chain.sequence}`} mono />
+            <View style={styles.detailBlock}>
+              <Text style={styles.detailBlockLabel}>Previous Proof</Text>
+              <Text style={styles.detailBlockValue}>
+                {proof.sensorData.context.chain.prevProofHash ?? 'None (first proof)'}
+              </Text>
+            </View>
+          </DetailSection>
+        )}
+
+        {/* Verification report */}
+        <VerificationSection proof={proof} />
+
         {/* Verification status */}
-        <View style={styles.verifiedBadge}>
-          <Ionicons name="shield-checkmark" size={18} color="#14F195" />
-          <Text style={styles.verifiedText}>Cryptographically Signed by Seed Vault</Text>
-        </View>
+        {isHardwareSignerKind(getSignedSignerKind(proof)) ? (
+          <View style={styles.verifiedBadge}>
+            <Ionicons name="shield-checkmark" size={18} color="#14F195" />
+            <Text style={styles.verifiedText}>Cryptographically Signed by Seed Vault</Text>
+          </View>
+        ) : (
+          <View style={[styles.verifiedBadge, styles.softwareBadge]}>
+            <Ionicons name="key-outline" size={18} color="#F5A623" />
+            <Text style={[styles.verifiedText, styles.softwareText]}>
+              Signed by {getSignedSignerKind(proof) ?? 'an unknown'} key — not verified as hardware-backed
+            </Text>
+          </View>
+        )}
       </ScrollView>
     </View>
   );
@@ -353,6 +492,76 @@ function DetailRow({ label, value, mono }: { label: string; value: string; mono?
   );
 }
 
+const CHECK_LABELS: Record<ProofCheckId, string> = {
+  signature: 'Signature',
+  proofHash: 'Proof ID',
+  schema: 'Schema',
+  expiry: 'Expiry',
+  signerKind: 'Signer',
+  delegation: 'Delegation',
+  challenge: 'Challenge',
+  timeWitness: 'Time witness',
+  device: 'Device',
+  antiSpoofing: 'Anti-spoofing',
+};
+
+const CHECK_ICONS: Record<ProofCheckStatus, { name: string; color: string }> = {
+  pass: { name: 'checkmark-circle', color: '#14F195' },
+  warn: { name: 'alert-circle', color: '#F5A623' },
+  fail: { name: 'close-circle', color: '#FF4444' },
+  skip: { name: 'remove-circle-outline', color: '#555' },
+};
+
+function VerificationSection({ proof }: { proof: SensorProof }) {
+  const [revocations, setRevocations] = useState<DelegationRevocation[]>([]);
+  const [timeWitness, setTimeWitness] = useState<{ isValid: boolean; errors: string[] }>();
+
+  useEffect(() => {
+    revocationStorage.getRevocations()
+      .then(setRevocations)
+      .catch(() => undefined);
+  }, []);
+
+  // Until the block lookup returns (or if it can't), the witness shows as unchecked
+  useEffect(() => {
+    setTimeWitness(undefined);
+    if (!proof.sensorData.context?.timeWitness) return;
+
+    let cancelled = false;
+    verifyTimeWitness(proof, createConnection())
+      .then((result) => {
+        if (!cancelled) setTimeWitness(result);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [proof]);
+
+  const report = useMemo(
+    () => verifyProofDetailed(proof, { revocations, timeWitness }),
+    [proof, revocations, timeWitness]
+  );
+
+  return (
+    <DetailSection title={report.isValid ? 'Verification · Passed' : 'Verification · Failed'}>
+      {report.checks.map((check) => (
+        <View key={check.id} style={styles.checkRow}>
+          <Ionicons
+            name={CHECK_ICONS[check.status].name as any}
+            size={16}
+            color={CHECK_ICONS[check.status].color}
+          />
+          <View style={styles.checkBody}>
+            <Text style={styles.checkLabel}>{CHECK_LABELS[check.id]}</Text>
+            <Text style={styles.checkMessage}>{check.message}</Text>
+          </View>
+        </View>
+      ))}
+    </DetailSection>
+  );
+}
+
 // ─── Empty State ──────────────────────────────────────────────────────────────
 
 function EmptyState({ filter }: { filter: FilterType }) {
@@ -360,7 +569,7 @@ function EmptyState({ filter }: { filter: FilterType }) {
     <View style={styles.empty}>
       <Ionicons name="file-tray-outline" size={56} color="#333" />
       <Text style={styles.emptyTitle}>
-        {filter === 'all' ? 'No proofs yet' : `No ${filter === 'gps' ? 'GPS' : 'motion'} proofs`}
+        {filter === 'all' ? 'No proofs yet' : `No ${filter === 'gps' ? 'GPS' : filter === 'light' ? 'light' : filter === 'pedometer' ? 'step' : 'motion'} proofs`}
       </Text>
       <Text style={styles.emptyText}>
         Head to the Sensors tab to generate your first cryptographic proof.
@@ -394,6 +603,18 @@ function formatPreview(type: string, data: any): string {
   if (type === 'accelerometer') {
     return `x ${data.x?.toFixed(2)}  y ${data.y?.toFixed(2)}  z ${data.z?.toFixed(2)}  |  mag ${data.magnitude?.toFixed(2)}`;
   }
+  if (type === 'light') {
+    return `${data.illuminance?.toFixed(0)} lux  ·  ${data.lightCondition ?? ''}`;
+  }
+  if (type === 'snapshot') {
+    return `${data.readings?.map((r: any) => r.type).join(' + ')}  ·  skew ${data.skewMs}ms`;
+  }
+  if (type === 'trajectory') {
+    return `${data.pointCount} points  ·  ${(data.distanceMeters / 1000).toFixed(2)} km  ·  ${Math.round(data.durationMs / 60000)} min`;
+  }
+  if (type === 'pedometer') {
+    return `${data.steps} steps  ·  ${data.accelerometerSteps} by motion  ·  ${((data.disagreement ?? 0) * 100).toFixed(0)}% apart`;
+  }
   return JSON.stringify(data).slice(0, 80);
 }
 
@@ -698,6 +919,29 @@ const styles = StyleSheet.create({
     color: '#9945FF',
     lineHeight: 18,
   },
+  checkRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 11,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1E1E1E',
+  },
+  checkBody: {
+    flex: 1,
+    gap: 2,
+  },
+  checkLabel: {
+    fontSize: 13,
+    color: '#CCC',
+    fontWeight: '600',
+  },
+  checkMessage: {
+    fontSize: 12,
+    color: '#777',
+    lineHeight: 17,
+  },
   verifiedBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -716,4 +960,12 @@ const styles = StyleSheet.create({
     color: '#14F195',
     fontWeight: '600',
   },
+  softwareBadge: {
+    backgroundColor: '#F5A62311',
+    borderColor: '#F5A62333',
+  },
+  softwareText: {
+    flex: 1,
+    color: '#F5A623',
+  },
 });
\ No newline at end of file
@@ -1,8 +1,14 @@
+// First, so crypto.getRandomValues exists before any module that generates keys or IDs loads
+import 'react-native-get-random-values';
 import { useEffect } from 'react';
 import { Stack } from 'expo-router';
 import { SolanaProvider } from '@/src/providers/SolanaProvider';
 import { MWAProvider } from '@/src/context/MWAContext';  // 👈 add this
-import 'react-native-get-random-values';
+import { proofStorage } from '@/src/sdk/storage/ProofStorage';
+import { revocationStorage } from '@/src/sdk/storage/RevocationStorage';
+// Defines the geofencing and background collection tasks, which must happen when the bundle loads
+import '@/src/sdk/location/GeofenceMonitor';
+import '@/src/sdk/background/BackgroundCollector';
 import { Buffer } from 'buffer';
 
 // Polyfills for Solana
@@ -11,6 +17,13 @@ global.Buffer = Buffer;
 export default function RootLayout() {
   useEffect(() => {
     // Initialize any global services here
+    proofStorage.migrateProofIds().catch(() => {
+      // Logged by ProofStorage; unmigrated proofs still resolve by their old hash
+    });
+    // Loading registers stored revocations, so every verification applies them
+    revocationStorage.getRevocations().catch(() => {
+      // Logged by RevocationStorage
+    });
   }, []);
 
   return (
@@ -53,7 +53,8 @@ pub mod sensor_verification {
             &message,
         )?;
 
-        // Store the proof
+        // Store the proof under the same content-addressed ID the client uses
+        proof_account.proof_id = compute_proof_id(&message);
         proof_account.sensor_account = sensor_account.key();
         proof_account.sensor_type = sensor_type;
         proof_account.timestamp = timestamp;
@@ -113,7 +114,8 @@ pub mod sensor_verification {
         Ok(())
     }
 
-    /// Verify a single proof against a batch Merkle root
+    /// Verify a single proof against a batch Merkle root.
+    /// `proof_hash` is the Merkle leaf: keccak(MERKLE_LEAF_PREFIX || proof_id).
     pub fn verify_merkle_proof(
         ctx: Context<VerifyMerkleProof>,
         proof_hash: [u8; 32],
@@ -176,6 +178,7 @@ pub struct SensorAccount {
 
 #[account]
 pub struct ProofAccount {
+    pub proof_id: [u8; 32],
     pub sensor_account: Pubkey,
     pub sensor_type: String,
     pub timestamp: i64,
@@ -217,7 +220,7 @@ pub struct SubmitProof<'info> {
     #[account(
         init,
         payer = authority,
-        space = 8 + 32 + 64 + 8 + 256 + 64 + 32 + 8
+        space = 8 + 32 + 32 + 64 + 8 + 256 + 64 + 32 + 8
     )]
     pub proof_account: Account<'info, ProofAccount>,
     #[account(mut)]
@@ -269,6 +272,9 @@ pub struct SensorStats {
 }
 
 // Helper functions
+
+/// Rebuilds the signed message. The client's SensorMessageVersion.BORSH encoder
+/// produces the same bytes; see test-vectors/sensor-messages.json.
 fn create_message(sensor_type: &str, timestamp: i64, data: &[u8], device_id: &str) -> Vec<u8> {
     let mut message = Vec::new();
     message.extend_from_slice(sensor_type.as_bytes());
@@ -281,6 +287,15 @@ fn create_message(sensor_type: &str, timestamp: i64, data: &[u8], device_id: &st
     message
 }
 
+/// keccak256 of the signed message — base58 of this is the client's proof ID
+/// (src/sdk/crypto/ProofId.ts)
+fn compute_proof_id(message: &[u8]) -> [u8; 32] {
+    anchor_lang::solana_program::keccak::hash(message).to_bytes()
+}
+
+/// Clients sign BORSH messages raw (SignatureEnvelope.RAW), so the signature
+/// is over `message` itself, as the ed25519 program checks it; signatureHex
+/// in test-vectors/sensor-messages.json is produced the same way.
 fn verify_ed25519_signature(
     signature: &[u8; 64],
     public_key: &[u8; 32],
@@ -297,12 +312,21 @@ fn verify_ed25519_signature(
     Ok(())
 }
 
+/// Domain separation tags, shared with src/sdk/crypto/Merkle.ts.
+/// The `leaf` passed in is already keccak(MERKLE_LEAF_PREFIX || data).
+#[allow(dead_code)]
+const MERKLE_LEAF_PREFIX: u8 = 0x00;
+const MERKLE_NODE_PREFIX: u8 = 0x01;
+
+/// Levels with an odd node count pair the last node with itself, so `path`
+/// always carries exactly one sibling per level.
 fn compute_merkle_root(leaf: [u8; 32], path: &[[u8; 32]], index: u32) -> [u8; 32] {
     let mut current = leaf;
     let mut idx = index;
 
     for sibling in path {
         let mut hasher = anchor_lang::solana_program::keccak::Hasher::default();
+        hasher.hash(&[MERKLE_NODE_PREFIX]);
         
         if idx % 2 == 0 {
             // Current is left, sibling is right
@@ -336,4 +360,74 @@ pub enum ErrorCode {
     InvalidTimestampRange,
     #[msg("Invalid Merkle proof")]
     InvalidMerkleProof,
-}
\ No newline at end of file
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    /// Vectors generated by the TypeScript encoder (src/sdk/encoding/SensorMessage.ts)
+    const SENSOR_MESSAGE_VECTORS: &str = include_str!("test-vectors/sensor-messages.json");
+
+    /// Trees built by the TypeScript Merkle module (src/sdk/crypto/Merkle.ts)
+    const MERKLE_TREE_VECTORS: &str = include_str!("test-vectors/merkle-trees.json");
+
+    fn hash_leaf(data: &[u8]) -> [u8; 32] {
+        let mut hasher = anchor_lang::solana_program::keccak::Hasher::default();
+        hasher.hash(&[MERKLE_LEAF_PREFIX]);
+        hasher.hash(data);
+        hasher.result().to_bytes()
+    }
+
+    #[test]
+    fn create_message_matches_client_vectors() {
+        let fixture: serde_json::Value = serde_json::from_str(SENSOR_MESSAGE_VECTORS).unwrap();
+
+        for vector in fixture["vectors"].as_array().unwrap() {
+            let name = vector["name"].as_str().unwrap();
+            let data = hex::decode(vector["dataHex"].as_str().unwrap()).unwrap();
+            let expected = hex::decode(vector["messageHex"].as_str().unwrap()).unwrap();
+
+            let message = create_message(
+                vector["sensorType"].as_str().unwrap(),
+                vector["timestamp"].as_i64().unwrap(),
+                &data,
+                vector["deviceId"].as_str().unwrap(),
+            );
+
+            assert_eq!(message, expected, "vector {} diverged", name);
+
+            let proof_id = hex::decode(vector["proofIdHex"].as_str().unwrap()).unwrap();
+            assert_eq!(compute_proof_id(&message).to_vec(), proof_id, "vector {} proof id", name);
+        }
+    }
+
+    #[test]
+    fn compute_merkle_root_matches_client_trees() {
+        let fixture: serde_json::Value = serde_json::from_str(MERKLE_TREE_VECTORS).unwrap();
+
+        for case in fixture["cases"].as_array().unwrap() {
+            let name = case["name"].as_str().unwrap();
+            let root = hex::decode(case["rootHex"].as_str().unwrap()).unwrap();
+
+            for proof in case["proofs"].as_array().unwrap() {
+                let index = proof["index"].as_u64().unwrap() as u32;
+                let leaf = hash_leaf(&hex::decode(proof["leafDataHex"].as_str().unwrap()).unwrap());
+                let path: Vec<[u8; 32]> = proof["pathHex"]
+                    .as_array()
+                    .unwrap()
+                    .iter()
+                    .map(|node| hex::decode(node.as_str().unwrap()).unwrap().try_into().unwrap())
+                    .collect();
+
+                assert_eq!(
+                    compute_merkle_root(leaf, &path, index).to_vec(),
+                    root,
+                    "tree {} leaf {} diverged",
+                    name,
+                    index
+                );
+            }
+        }
+    }
+}
@@ -0,0 +1,248 @@
+/**
+ * sensor-message-vectors - Rebuilds the Borsh sensor message vectors from the client encoder
+ *
+ * contracts/sensor-verification/test-vectors/sensor-messages.json is read by the
+ * program's Rust tests; this script derives every field of it from
+ * encodeSensorMessage()/encodeOnChainData(), so the two sides can't drift apart.
+ *
+ *   npm run vectors:check   fails if the checked-in file differs from the encoder
+ *   npm run vectors:write   regenerates the file after an intentional format change
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import nacl from 'tweetnacl';
+import bs58 from 'bs58';
+import { SensorData, SensorMessageVersion, SensorType, SignerKind } from '@/src/types';
+import {
+  decodeSensorMessage,
+  encodeOnChainData,
+  encodeSensorMessage,
+} from '@/src/sdk/encoding/SensorMessage';
+import { computeProofId } from '@/src/sdk/crypto/ProofId';
+
+const VECTORS_PATH = resolve(
+  __dirname,
+  '../contracts/sensor-verification/test-vectors/sensor-messages.json'
+);
+
+const SIGNER_SEED = new Uint8Array(32).fill(7);
+
+const toHex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+const CASES: [name: string, sensorData: SensorData][] = [
+  ['gps_basic', {
+    type: SensorType.GPS,
+    timestamp: 1717171717123,
+    deviceId: 'pixel-8',
+    data: { latitude: 37.7749, longitude: -122.4194, altitude: 12.5, accuracy: 4.8, heading: null, speed: 0 },
+  }],
+  ['gps_enriched_address', {
+    type: SensorType.GPS,
+    timestamp: 1717171800000,
+    deviceId: 'seeker-01',
+    data: {
+      latitude: 6.5244, longitude: 3.3792, altitude: null, accuracy: 35, heading: null, speed: null,
+      altitudeAccuracy: 3,
+      address: { city: 'Lagos', region: 'Lagos', country: 'Nigeria', postalCode: null },
+    },
+  }],
+  ['accelerometer_movement', {
+    type: SensorType.ACCELEROMETER,
+    timestamp: 1717171900456,
+    deviceId: 'seeker-01',
+    data: { x: 0.01, y: -0.02, z: 0.98, magnitude: 0.9802550688, sampleCount: 20, duration: 2000 },
+  }],
+  ['accelerometer_steps', {
+    type: SensorType.ACCELEROMETER,
+    timestamp: 1717172000000,
+    deviceId: 'seeker-01',
+    data: { steps: 42, duration: 60000, averageReading: { x: 0.1, y: 0.2, z: 0.95 } },
+  }],
+  ['accelerometer_shake', {
+    type: SensorType.ACCELEROMETER,
+    timestamp: 1717172100000,
+    deviceId: 'seeker-01',
+    data: { event: 'shake', maxMagnitude: 3.1, threshold: 2.5 },
+  }],
+  ['gyroscope', {
+    type: SensorType.GYROSCOPE,
+    timestamp: 1717172200000,
+    deviceId: 'seeker-01',
+    data: { x: 0.001, y: 0.002, z: -0.003, magnitude: 0.0037416573867739412, sampleCount: 10, duration: 1000 },
+  }],
+  ['magnetometer', {
+    type: SensorType.MAGNETOMETER,
+    timestamp: 1717172300000,
+    deviceId: 'seeker-01',
+    data: { x: 20.5, y: -5.25, z: -40, magnitude: 45.2543, heading: 345.63, sampleCount: 8 },
+  }],
+  ['barometer', {
+    type: SensorType.BAROMETER,
+    timestamp: 1717172400000,
+    deviceId: 'seeker-01',
+    data: { pressure: 1012.3456, weatherCondition: 'Normal — stable conditions', sampleCount: 5 },
+  }],
+  ['network_speed_wifi_pipe_in_ssid', {
+    type: SensorType.NETWORK_SPEED,
+    timestamp: 1717172500000,
+    deviceId: 'seeker-01',
+    data: {
+      downloadMbps: 48.2, latencyMs: 37, connectionType: 'wifi', isInternetReachable: true,
+      wifiSsid: 'cafe|guest', wifiSignalStrength: -61, coverageRating: 'good',
+    },
+  }],
+  ['gps_context_chain_start', {
+    type: SensorType.GPS,
+    timestamp: 1717172550000,
+    deviceId: 'seeker-01',
+    data: { latitude: 38.72, longitude: -9.14, altitude: 50, accuracy: 5, heading: null, speed: 0 },
+    context: {
+      signerKind: SignerKind.SEED_VAULT,
+      chain: { sequence: 0, prevProofHash: null },
+    },
+  }],
+  ['barometer_context_chain_link', {
+    type: SensorType.BAROMETER,
+    timestamp: 1717172560000,
+    deviceId: 'seeker-01',
+    data: { pressure: 1007.2, sampleCount: 5 },
+    context: {
+      signerKind: SignerKind.KEYPAIR,
+      chain: { sequence: 3, prevProofHash: '4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi' },
+    },
+  }],
+  ['light', {
+    type: SensorType.LIGHT,
+    timestamp: 1717172600000,
+    deviceId: 'seeker-01',
+    data: {
+      illuminance: 412.5, minIlluminance: 398, maxIlluminance: 430.25,
+      lightCondition: 'indoor', sampleCount: 10, duration: 2000,
+    },
+  }],
+  ['pedometer', {
+    type: SensorType.PEDOMETER,
+    timestamp: 1717172700000,
+    deviceId: 'seeker-01',
+    data: { steps: 120, accelerometerSteps: 114, disagreement: 0.05, duration: 60000, sampleCount: 24 },
+  }],
+  ['snapshot_gps_barometer', {
+    type: SensorType.SNAPSHOT,
+    timestamp: 1717172800000,
+    deviceId: 'seeker-01',
+    data: {
+      readings: [
+        {
+          type: SensorType.GPS,
+          timestamp: 1717172799500,
+          data: { latitude: 38.72, longitude: -9.14, altitude: 50, accuracy: 5, heading: null, speed: 0 },
+        },
+        { type: SensorType.BAROMETER, timestamp: 1717172799800, data: { pressure: 1007.2, sampleCount: 5 } },
+      ],
+      windowMs: 2000,
+      skewMs: 300,
+    },
+  }],
+  ['accelerometer_motion_intensity', {
+    type: SensorType.ACCELEROMETER,
+    timestamp: 1717172150000,
+    deviceId: 'seeker-01',
+    data: { x: 0.12, y: -0.4, z: 1.31, magnitude: 1.3751, sampleCount: 20, duration: 2000, motionIntensity: 0.4213 },
+  }],
+  ['gps_mocked', {
+    type: SensorType.GPS,
+    timestamp: 1717171900000,
+    deviceId: 'pixel-8',
+    data: { latitude: 37.7749, longitude: -122.4194, altitude: 12.5, accuracy: 4.8, heading: null, speed: 0, mocked: true },
+  }],
+  ['trajectory', {
+    type: SensorType.TRAJECTORY,
+    timestamp: 1717173015000,
+    deviceId: 'seeker-01',
+    data: {
+      merkleRoot: 'ad75a56db0744794d8dfa02b40d4074529e4357a0748ff70a913f021daff9331',
+      pointCount: 4,
+      distanceMeters: 154.6,
+      durationMs: 15000,
+      startTime: 1717173000000,
+      endTime: 1717173015000,
+      bounds: { south: 38.72, west: -9.14, north: 38.7212, east: -9.1391 },
+      mockedPointCount: 0,
+    },
+  }],
+];
+
+function buildVector(name: string, sensorData: SensorData) {
+  const message = encodeSensorMessage(sensorData, SensorMessageVersion.BORSH);
+  const decoded = decodeSensorMessage(message, SensorMessageVersion.BORSH).sensorData;
+  if (toHex(encodeSensorMessage(decoded, SensorMessageVersion.BORSH)) !== toHex(message)) {
+    throw new Error(`${name}: message does not survive a decode/encode round trip`);
+  }
+
+  const proofId = computeProofId(message);
+  const { secretKey } = nacl.sign.keyPair.fromSeed(SIGNER_SEED);
+
+  return {
+    name,
+    sensorType: sensorData.type,
+    timestampMs: sensorData.timestamp,
+    timestamp: Math.floor(sensorData.timestamp / 1000),
+    deviceId: sensorData.deviceId,
+    data: sensorData.data,
+    ...(sensorData.context && { context: sensorData.context }),
+    dataHex: toHex(encodeOnChainData(sensorData)),
+    messageHex: toHex(message),
+    proofIdHex: toHex(bs58.decode(proofId)),
+    proofId,
+    signatureHex: toHex(nacl.sign.detached(message, secretKey)),
+  };
+}
+
+function buildFile(): string {
+  const { publicKey } = nacl.sign.keyPair.fromSeed(SIGNER_SEED);
+  const file = {
+    description:
+      'Borsh sensor message vectors, generated by scripts/sensor-message-vectors.ts. ' +
+      'messageHex is create_message(sensorType, timestamp, dataHex, deviceId); ' +
+      'signatureHex is ed25519 over messageHex by signerPublicKey; proofIdHex is ' +
+      'keccak256(messageHex), proofId its base58 form (the client proof ID).',
+    signerSeedHex: toHex(SIGNER_SEED),
+    signerPublicKey: bs58.encode(publicKey),
+    signerPublicKeyHex: toHex(publicKey),
+    vectors: CASES.map(([name, sensorData]) => buildVector(name, sensorData)),
+  };
+  return JSON.stringify(file, null, 2) + '\n';
+}
+
+function main(): void {
+  const expected = buildFile();
+
+  if (process.argv.includes('--write')) {
+    writeFileSync(VECTORS_PATH, expected);
+    console.log(`Wrote ${CASES.length} vectors to ${VECTORS_PATH}`);
+    return;
+  }
+
+  const actual = readFileSync(VECTORS_PATH, 'utf8');
+  if (actual === expected) {
+    console.log(`${CASES.length} sensor message vectors match the encoder`);
+    return;
+  }
+
+  const stale = new Map<string, string>();
+  for (const vector of JSON.parse(actual).vectors ?? []) {
+    stale.set(vector.name, JSON.stringify(vector));
+  }
+  const drifted = JSON.parse(expected).vectors
+    .filter((vector: { name: string }) => stale.get(vector.name) !== JSON.stringify(vector))
+    .map((vector: { name: string }) => vector.name);
+
+  console.error(
+    `sensor-messages.json is out of date${drifted.length ? ` (${drifted.join(', ')})` : ''}; ` +
+    'run `npm run vectors:write` after an intentional encoding change'
+  );
+  process.exit(1);
+}
+
+main();
@@ -112,6 +112,10 @@ function getSensorIcon(sensorType: string): string {
     gyroscope: 'compass',
     magnetometer: 'magnet',
     network_speed: 'wifi',
+    light: 'sunny',
+    pedometer: 'walk',
+    snapshot: 'aperture',
+    trajectory: 'navigate',
   };
   return icons[sensorType] || 'hardware-chip';
 }
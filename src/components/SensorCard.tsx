@@ -570,6 +570,22 @@ function getSensorConfig(sensorType: string): SensorConfig {
       depinUseCase: "Helium · Proof of Coverage",
       depinIcon: "radio-outline",
     },
+    light: {
+      name: "Ambient Light",
+      icon: "sunny",
+      description: "Illuminance in lux — urban light levels",
+      color: "#FFB84D",
+      depinUseCase: "Urban Sensing · Lighting",
+      depinIcon: "business-outline",
+    },
+    pedometer: {
+      name: "Pedometer",
+      icon: "walk",
+      description: "Hardware step count, checked against motion",
+      color: "#4CD964",
+      depinUseCase: "Move-to-Earn · Steps",
+      depinIcon: "footsteps-outline",
+    },
   };
 
   return (
@@ -610,6 +626,12 @@ function formatReading(sensorType: string, reading: any): string {
       }`;
     case "network_speed":
       return `${reading.downloadMbps} Mbps  ·  ${reading.latencyMs}ms  ·  ${reading.coverageRating}`;
+    case "light":
+      return `${reading.illuminance?.toFixed(0)} lux  ·  ${reading.lightCondition ?? ""}`;
+    case "pedometer":
+      return `${reading.steps} steps  ·  ${reading.accelerometerSteps} by motion  ·  ${(
+        (reading.disagreement ?? 0) * 100
+      ).toFixed(0)}% apart`;
     default:
       return JSON.stringify(reading).slice(0, 80);
   }
@@ -4,6 +4,7 @@ import { PublicKey } from '@solana/web3.js';
 import { toByteArray } from 'react-native-quick-base64';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { seedVaultSigner } from '@/src/sdk/crypto/SeedVaultSigner';
+import { deviceIdentity } from '@/src/sdk/identity/DeviceIdentity';
 
 const AUTH_TOKEN_KEY = '@depin-go:auth_token';
 const BASE64_ADDRESS_KEY = '@depin-go:base64_address';
@@ -74,6 +75,9 @@ export function MWAProvider({ children }: { children: ReactNode }) {
       // ✅ Sync signer so useSensorProof passes isAuthorized() check
       seedVaultSigner.setAuthorized(result.publicKey, result.authToken, result.base64Address);
 
+      // Bind this install to the wallet — one signing prompt, first connect only
+      await deviceIdentity.register(seedVaultSigner).catch(() => undefined);
+
       setWalletAddress(result.publicKey);
       setBase64Address(result.base64Address);
       return result.publicKey;
@@ -7,16 +7,26 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { PublicKey, Connection, Transaction } from '@solana/web3.js';
-import { SeedVaultSigner, seedVaultSigner } from '../sdk/crypto/SeedVaultSigner';
-import { ProofGenerator, createProofGenerator } from '../sdk/crypto/ProofGenerator';
+import { seedVaultSigner } from '../sdk/crypto/SeedVaultSigner';
+import { Signer } from '../sdk/crypto/Signer';
+import {
+  ProofGenerator,
+  ProofGeneratorOptions,
+  createProofGenerator,
+} from '../sdk/crypto/ProofGenerator';
 import { SensorManager } from '../sdk/sensors/SensorManager';
-import { SensorType, SensorData, SensorProof } from '../types';
+import { sensorRegistry } from '../sdk/sensors/SensorRegistry';
+import { SnapshotOptions, SnapshotProofGenerator } from '../sdk/sensors/SnapshotProof';
+import { deviceIdentity } from '../sdk/identity/DeviceIdentity';
+import { SensorTypeId, SensorData, SensorProof } from '../types';
 import { SOLANA_CONFIG } from '../utils/constants';
 
 export interface UseDePINConfig {
   cluster?: 'devnet' | 'mainnet-beta';
   autoConnect?: boolean;
   programId?: PublicKey;
+  signer?: Signer; // defaults to the Seed Vault signer; pass a KeypairSigner for web/emulator
+  proofOptions?: ProofGeneratorOptions; // message version, chaining, challenge source
 }
 
 export interface UseDePINReturn {
@@ -30,8 +40,12 @@ export interface UseDePINReturn {
   disconnect: () => Promise<void>;
 
   // Proof generation
-  generateProof: (sensorType: SensorType | SensorData) => Promise<SensorProof>;
+  generateProof: (sensorType: SensorTypeId | SensorData) => Promise<SensorProof>;
   generateBatchProofs: (sensorData: SensorData[]) => Promise<SensorProof[]>;
+  generateSnapshotProof: (
+    sensorTypes: SensorTypeId[],
+    options?: Omit<SnapshotOptions, 'sensorTypes'>
+  ) => Promise<SensorProof>;
 
   // Proof submission
   submitProof: (proof: SensorProof) => Promise<string>;
@@ -53,6 +67,8 @@ export function useDePIN(config: UseDePINConfig = {}): UseDePINReturn {
     cluster = 'devnet',
     autoConnect = false,
     programId,
+    signer: customSigner,
+    proofOptions,
   } = config;
 
   // State
@@ -65,7 +81,7 @@ export function useDePIN(config: UseDePINConfig = {}): UseDePINReturn {
   const [error, setError] = useState<Error | null>(null);
 
   // SDK instances
-  const [signer] = useState(() => seedVaultSigner);
+  const [signer] = useState<Signer>(() => customSigner ?? seedVaultSigner);
   const [proofGenerator, setProofGenerator] = useState<ProofGenerator | null>(null);
   const [sensorManager] = useState(() => new SensorManager());
   const [connection] = useState(
@@ -87,7 +103,7 @@ export function useDePIN(config: UseDePINConfig = {}): UseDePINReturn {
   // Initialize proof generator when signer is authorized
   useEffect(() => {
     if (signer.isAuthorized() && !proofGenerator) {
-      setProofGenerator(createProofGenerator(signer));
+      setProofGenerator(createProofGenerator(signer, { deviceIdentity, ...proofOptions }));
     }
   }, [isConnected, signer, proofGenerator]);
 
@@ -99,11 +115,13 @@ export function useDePIN(config: UseDePINConfig = {}): UseDePINReturn {
       setIsConnecting(true);
       setError(null);
 
+      // Device registration happens in MWAContext.connect only, so a connect
+      // never asks the wallet to sign it twice
       const publicKey = await signer.authorize();
 
       setWalletAddress(publicKey);
       setIsConnected(true);
-      setProofGenerator(createProofGenerator(signer));
+      setProofGenerator(createProofGenerator(signer, { deviceIdentity, ...proofOptions }));
 
       return publicKey;
     } catch (err) {
@@ -113,14 +131,14 @@ export function useDePIN(config: UseDePINConfig = {}): UseDePINReturn {
     } finally {
       setIsConnecting(false);
     }
-  }, [signer]);
+  }, [signer, proofOptions]);
 
   /**
    * Disconnect wallet
    */
   const disconnect = useCallback(async (): Promise<void> => {
     try {
-      await signer.deauthorize();
+      await signer.deauthorize?.();
       setWalletAddress(null);
       setIsConnected(false);
       setProofGenerator(null);
@@ -135,7 +153,7 @@ export function useDePIN(config: UseDePINConfig = {}): UseDePINReturn {
    * Generate proof from sensor type or sensor data
    */
   const generateProof = useCallback(
-    async (input: SensorType | SensorData): Promise<SensorProof> => {
+    async (input: SensorTypeId | SensorData): Promise<SensorProof> => {
       if (!proofGenerator) {
         throw new Error('Not connected. Call connect() first.');
       }
@@ -146,20 +164,9 @@ export function useDePIN(config: UseDePINConfig = {}): UseDePINReturn {
 
         let sensorData: SensorData;
 
-        // If input is a SensorType, collect data from sensors
+        // If input is a sensor type, read it through its registered source
         if (typeof input === 'string') {
-          const type = input as SensorType;
-
-          switch (type) {
-            case SensorType.GPS:
-              const gpsData = await sensorManager.getGPSData();
-              if (!gpsData) throw new Error('Failed to get GPS data');
-              sensorData = gpsData;
-              break;
-
-            default:
-              throw new Error(`Sensor type ${type} not implemented`);
-          }
+          sensorData = await sensorRegistry.createSource(input, signer, proofOptions).read();
         } else {
           // Input is already SensorData
           sensorData = input;
@@ -177,7 +184,7 @@ export function useDePIN(config: UseDePINConfig = {}): UseDePINReturn {
         setIsGenerating(false);
       }
     },
-    [proofGenerator, sensorManager]
+    [proofGenerator, signer, proofOptions]
   );
 
   /**
@@ -207,6 +214,40 @@ export function useDePIN(config: UseDePINConfig = {}): UseDePINReturn {
     [proofGenerator]
   );
 
+  /**
+   * Capture several sensors together and sign them as one snapshot proof
+   */
+  const generateSnapshotProof = useCallback(
+    async (
+      sensorTypes: SensorTypeId[],
+      options?: Omit<SnapshotOptions, 'sensorTypes'>
+    ): Promise<SensorProof> => {
+      if (!proofGenerator) {
+        throw new Error('Not connected. Call connect() first.');
+      }
+
+      try {
+        setIsGenerating(true);
+        setError(null);
+
+        const snapshot = new SnapshotProofGenerator(signer, proofOptions);
+        const sensorData = await snapshot.read({ ...options, sensorTypes });
+
+        const proof = await proofGenerator.generateProof(sensorData);
+        setLastProof(proof);
+
+        return proof;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error('Snapshot proof generation failed');
+        setError(error);
+        throw error;
+      } finally {
+        setIsGenerating(false);
+      }
+    },
+    [proofGenerator, signer, proofOptions]
+  );
+
   /**
    * Submit proof to blockchain
    */
@@ -285,6 +326,7 @@ export function useDePIN(config: UseDePINConfig = {}): UseDePINReturn {
     // Proof generation
     generateProof,
     generateBatchProofs,
+    generateSnapshotProof,
 
     // Proof submission
     submitProof,
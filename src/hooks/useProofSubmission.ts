@@ -278,12 +278,13 @@ async function submitProofToChain(
 ): Promise<string> {
   // This is a placeholder - in production you would:
   
-  // 1. Create the instruction
+  // 1. Create the instruction (proof must be signed with SensorMessageVersion.BORSH
+  //    so the program's create_message() rebuilds the exact signed bytes)
   // const instruction = await program.methods
   //   .submitProof(
   //     proof.sensorData.type,
-  //     proof.sensorData.timestamp,
-  //     Buffer.from(JSON.stringify(proof.sensorData.data)),
+  //     new BN(toOnChainTimestamp(proof.sensorData.timestamp)),
+  //     Buffer.from(encodeOnChainData(proof.sensorData)),   // payload + signed context trailer
   //     Array.from(proof.signature)
   //   )
   //   .accounts({
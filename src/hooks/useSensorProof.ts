@@ -337,22 +337,27 @@
 
 /**
  * useSensorProof Hook
- * Unified hook for generating sensor proofs from any supported sensor type.
+ * Unified hook for generating sensor proofs from any sensor in the
+ * SensorRegistry — built-in or registered by the app.
  */
 
-import { useState, useCallback, useEffect } from 'react';
-import { SensorType, SensorProof } from '@/src/types';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { SensorType, SensorTypeId, SensorProof } from '@/src/types';
 import { seedVaultSigner } from '../sdk/crypto/SeedVaultSigner';
-import { GPSProofGenerator } from '../sdk/sensors/GPSProof';
+import { SamplingOptions, SensorProofSource } from '../sdk/sensors/SensorProofSource';
+import { sensorRegistry } from '../sdk/sensors/SensorRegistry';
+import { GPSProofGenerator, LocationProofOptions } from '../sdk/sensors/GPSProof';
 import { AccelerometerProofGenerator } from '../sdk/sensors/AccelerometerProof';
 import { GyroscopeProofGenerator } from '../sdk/sensors/GyroscopeProof';
 import { MagnetometerProofGenerator } from '../sdk/sensors/MagnetometerProof';
-import { BarometerProofGenerator } from '../sdk/sensors/BarometerProof';
+import { BarometerProofGenerator, PressureProofOptions } from '../sdk/sensors/BarometerProof';
 import { NetworkSpeedProofGenerator } from '../sdk/sensors/NetworkSpeedProof';
+import { LightProofGenerator } from '../sdk/sensors/LightProof';
+import { PedometerProofGenerator, StepProofOptions } from '../sdk/sensors/PedometerProof';
 import { proofStorage } from '../sdk/storage/ProofStorage';
 
 export function useSensorProof(
-  sensorType: SensorType,
+  sensorType: SensorTypeId,
   options?: { autoSave?: boolean }
 ) {
   const { autoSave = true } = options || {};
@@ -362,13 +367,13 @@ export function useSensorProof(
   const [error, setError] = useState<Error | null>(null);
   const [permissionGranted, setPermissionGranted] = useState(false);
 
-  // ── Generators (one instance each, stable across renders) ──────────────────
-  const [gpsGenerator]         = useState(() => new GPSProofGenerator(seedVaultSigner));
-  const [accelGenerator]       = useState(() => new AccelerometerProofGenerator(seedVaultSigner));
-  const [gyroGenerator]        = useState(() => new GyroscopeProofGenerator(seedVaultSigner));
-  const [magnetoGenerator]     = useState(() => new MagnetometerProofGenerator(seedVaultSigner));
-  const [barometerGenerator]   = useState(() => new BarometerProofGenerator(seedVaultSigner));
-  const [networkGenerator]     = useState(() => new NetworkSpeedProofGenerator(seedVaultSigner));
+  // ── Source for this sensor type (null if nothing is registered for it) ────
+  const source = useMemo<SensorProofSource | null>(
+    () => sensorRegistry.has(sensorType)
+      ? sensorRegistry.createSource(sensorType, seedVaultSigner)
+      : null,
+    [sensorType]
+  );
 
   // ── Auto-check availability on mount ──────────────────────────────────────
   useEffect(() => {
@@ -377,36 +382,14 @@ export function useSensorProof(
 
   const requestPermissions = useCallback(async (): Promise<boolean> => {
     try {
-      let granted = false;
-      switch (sensorType) {
-        case SensorType.GPS:
-          granted = await gpsGenerator.requestPermissions();
-          break;
-        case SensorType.ACCELEROMETER:
-          granted = await accelGenerator.isAvailable();
-          break;
-        case SensorType.GYROSCOPE:
-          granted = await gyroGenerator.isAvailable();
-          break;
-        case SensorType.MAGNETOMETER:
-          granted = await magnetoGenerator.isAvailable();
-          break;
-        case SensorType.BAROMETER:
-          granted = await barometerGenerator.isAvailable();
-          break;
-        case SensorType.NETWORK_SPEED:
-          granted = await networkGenerator.isAvailable();
-          break;
-        default:
-          granted = false;
-      }
+      const granted = source ? await source.requestPermissions() : false;
       setPermissionGranted(granted);
       return granted;
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Permission check failed'));
       return false;
     }
-  }, [sensorType]);
+  }, [source]);
 
   // ── Shared save + state helper ─────────────────────────────────────────────
   const finalise = useCallback(async (newProof: SensorProof): Promise<SensorProof> => {
@@ -415,114 +398,21 @@ export function useSensorProof(
     return newProof;
   }, [autoSave]);
 
-  // ── GPS ───────────────────────────────────────────────────────────────────
-  const generateLocationProof = useCallback(async (opts?: {
-    minAccuracy?: number;
-    includeAltitude?: boolean;
-    includeSpeed?: boolean;
-  }): Promise<SensorProof | null> => {
-    if (sensorType !== SensorType.GPS) {
-      setError(new Error('generateLocationProof requires GPS sensor type'));
-      return null;
-    }
-    if (!seedVaultSigner.isAuthorized()) {
-      setError(new Error('Wallet not authorized'));
-      return null;
-    }
-    try {
-      setIsGenerating(true);
-      setError(null);
-      return await finalise(await gpsGenerator.generateLocationProof(opts));
-    } catch (err) {
-      setError(err instanceof Error ? err : new Error('GPS proof failed'));
-      return null;
-    } finally {
-      setIsGenerating(false);
-    }
-  }, [sensorType, gpsGenerator, finalise]);
-
-  // ── Accelerometer ─────────────────────────────────────────────────────────
-  const generateMovementProof = useCallback(async (opts?: {
-    duration?: number;
-    samples?: number;
-  }): Promise<SensorProof | null> => {
-    if (sensorType !== SensorType.ACCELEROMETER) {
-      setError(new Error('generateMovementProof requires ACCELEROMETER sensor type'));
-      return null;
-    }
-    if (!seedVaultSigner.isAuthorized()) {
-      setError(new Error('Wallet not authorized'));
-      return null;
-    }
-    try {
-      setIsGenerating(true);
-      setError(null);
-      return await finalise(await accelGenerator.generateMovementProof(opts));
-    } catch (err) {
-      setError(err instanceof Error ? err : new Error('Accelerometer proof failed'));
-      return null;
-    } finally {
-      setIsGenerating(false);
-    }
-  }, [sensorType, accelGenerator, finalise]);
-
-  // ── Gyroscope ─────────────────────────────────────────────────────────────
-  const generateRotationProof = useCallback(async (opts?: {
-    duration?: number;
-    samples?: number;
-  }): Promise<SensorProof | null> => {
-    if (sensorType !== SensorType.GYROSCOPE) {
-      setError(new Error('generateRotationProof requires GYROSCOPE sensor type'));
-      return null;
-    }
-    if (!seedVaultSigner.isAuthorized()) {
-      setError(new Error('Wallet not authorized'));
-      return null;
-    }
-    try {
-      setIsGenerating(true);
-      setError(null);
-      return await finalise(await gyroGenerator.generateRotationProof(opts));
-    } catch (err) {
-      setError(err instanceof Error ? err : new Error('Gyroscope proof failed'));
-      return null;
-    } finally {
-      setIsGenerating(false);
-    }
-  }, [sensorType, gyroGenerator, finalise]);
-
-  // ── Magnetometer ──────────────────────────────────────────────────────────
-  const generateMagneticProof = useCallback(async (opts?: {
-    duration?: number;
-    samples?: number;
-  }): Promise<SensorProof | null> => {
-    if (sensorType !== SensorType.MAGNETOMETER) {
-      setError(new Error('generateMagneticProof requires MAGNETOMETER sensor type'));
+  /**
+   * Guard, run and save one proof
+   * `required` pins the typed helpers below to their own sensor type.
+   */
+  const run = useCallback(async <T extends SensorProofSource>(
+    required: SensorType | null,
+    failure: string,
+    produce: (source: T) => Promise<SensorProof>
+  ): Promise<SensorProof | null> => {
+    if (required && sensorType !== required) {
+      setError(new Error(`This proof requires the ${required} sensor type`));
       return null;
     }
-    if (!seedVaultSigner.isAuthorized()) {
-      setError(new Error('Wallet not authorized'));
-      return null;
-    }
-    try {
-      setIsGenerating(true);
-      setError(null);
-      return await finalise(await magnetoGenerator.generateMagneticProof(opts));
-    } catch (err) {
-      setError(err instanceof Error ? err : new Error('Magnetometer proof failed'));
-      return null;
-    } finally {
-      setIsGenerating(false);
-    }
-  }, [sensorType, magnetoGenerator, finalise]);
-
-  // ── Barometer ─────────────────────────────────────────────────────────────
-  const generatePressureProof = useCallback(async (opts?: {
-    samples?: number;
-    intervalMs?: number;
-  }): Promise<SensorProof | null> => {
-    if (sensorType !== SensorType.BAROMETER) {
-      setError(new Error('generatePressureProof requires BAROMETER sensor type'));
+    if (!source) {
+      setError(new Error(`No sensor registered for type ${sensorType}`));
       return null;
     }
     if (!seedVaultSigner.isAuthorized()) {
@@ -532,56 +422,70 @@ export function useSensorProof(
     try {
       setIsGenerating(true);
       setError(null);
-      return await finalise(await barometerGenerator.generatePressureProof(opts));
+      return await finalise(await produce(source as T));
     } catch (err) {
-      setError(err instanceof Error ? err : new Error('Barometer proof failed'));
+      setError(err instanceof Error ? err : new Error(failure));
       return null;
     } finally {
       setIsGenerating(false);
     }
-  }, [sensorType, barometerGenerator, finalise]);
+  }, [sensorType, source, finalise]);
 
-  // ── Network Speed ─────────────────────────────────────────────────────────
-  const generateCoverageProof = useCallback(async (): Promise<SensorProof | null> => {
-    if (sensorType !== SensorType.NETWORK_SPEED) {
-      setError(new Error('generateCoverageProof requires NETWORK_SPEED sensor type'));
-      return null;
-    }
-    if (!seedVaultSigner.isAuthorized()) {
-      setError(new Error('Wallet not authorized'));
-      return null;
-    }
-    try {
-      setIsGenerating(true);
-      setError(null);
-      return await finalise(await networkGenerator.generateCoverageProof());
-    } catch (err) {
-      setError(err instanceof Error ? err : new Error('Network proof failed'));
-      return null;
-    } finally {
-      setIsGenerating(false);
-    }
-  }, [sensorType, networkGenerator, finalise]);
+  // ── Any registered sensor ─────────────────────────────────────────────────
+  const generateProof = useCallback((opts?: any) =>
+    run(null, 'Proof generation failed', (s) => s.generateProof(opts)),
+  [run]);
+
+  // ── Built-in sensors ──────────────────────────────────────────────────────
+  const generateLocationProof = useCallback((opts?: LocationProofOptions) =>
+    run<GPSProofGenerator>(SensorType.GPS, 'GPS proof failed', (s) => s.generateLocationProof(opts)),
+  [run]);
+
+  const generateMovementProof = useCallback((opts?: SamplingOptions) =>
+    run<AccelerometerProofGenerator>(SensorType.ACCELEROMETER, 'Accelerometer proof failed', (s) => s.generateMovementProof(opts)),
+  [run]);
+
+  const generateRotationProof = useCallback((opts?: SamplingOptions) =>
+    run<GyroscopeProofGenerator>(SensorType.GYROSCOPE, 'Gyroscope proof failed', (s) => s.generateRotationProof(opts)),
+  [run]);
+
+  const generateMagneticProof = useCallback((opts?: SamplingOptions) =>
+    run<MagnetometerProofGenerator>(SensorType.MAGNETOMETER, 'Magnetometer proof failed', (s) => s.generateMagneticProof(opts)),
+  [run]);
+
+  const generatePressureProof = useCallback((opts?: PressureProofOptions) =>
+    run<BarometerProofGenerator>(SensorType.BAROMETER, 'Barometer proof failed', (s) => s.generatePressureProof(opts)),
+  [run]);
+
+  const generateCoverageProof = useCallback(() =>
+    run<NetworkSpeedProofGenerator>(SensorType.NETWORK_SPEED, 'Network proof failed', (s) => s.generateCoverageProof()),
+  [run]);
+
+  const generateLightProof = useCallback((opts?: SamplingOptions) =>
+    run<LightProofGenerator>(SensorType.LIGHT, 'Light proof failed', (s) => s.generateLightProof(opts)),
+  [run]);
+
+  const generateStepProof = useCallback((opts?: StepProofOptions) =>
+    run<PedometerProofGenerator>(SensorType.PEDOMETER, 'Pedometer proof failed', (s) => s.generateStepProof(opts)),
+  [run]);
 
   // ── Step detection (accelerometer convenience) ────────────────────────────
   const detectSteps = useCallback(async (
     durationMs?: number
   ): Promise<{ steps: number; proof: SensorProof } | null> => {
     if (sensorType !== SensorType.ACCELEROMETER) return null;
-    if (!seedVaultSigner.isAuthorized()) return null;
-    try {
-      setIsGenerating(true);
-      setError(null);
-      const result = await accelGenerator.detectStepsWithProof(durationMs);
-      await finalise(result.proof);
-      return result;
-    } catch (err) {
-      setError(err instanceof Error ? err : new Error('Step detection failed'));
-      return null;
-    } finally {
-      setIsGenerating(false);
-    }
-  }, [sensorType, accelGenerator, finalise]);
+    let steps = 0;
+    const stepProof = await run<AccelerometerProofGenerator>(
+      SensorType.ACCELEROMETER,
+      'Step detection failed',
+      async (s) => {
+        const result = await s.detectStepsWithProof(durationMs);
+        steps = result.steps;
+        return result.proof;
+      }
+    );
+    return stepProof ? { steps, proof: stepProof } : null;
+  }, [sensorType, run]);
 
   const clearProof = useCallback(() => {
     setProof(null);
@@ -598,23 +502,23 @@ export function useSensorProof(
     // Permissions
     requestPermissions,
 
-    // Proof generators (one per sensor type)
+    // Proof generation — works for any registered sensor type
+    generateProof,
+
+    // Typed helpers for the built-in sensors
     generateLocationProof,   // GPS
     generateMovementProof,   // ACCELEROMETER
     generateRotationProof,   // GYROSCOPE
     generateMagneticProof,   // MAGNETOMETER
     generatePressureProof,   // BAROMETER
     generateCoverageProof,   // NETWORK_SPEED
+    generateLightProof,      // LIGHT
+    generateStepProof,       // PEDOMETER
     detectSteps,             // ACCELEROMETER convenience
 
-    // Raw generators (for advanced use)
-    gpsGenerator,
-    accelGenerator,
-    gyroGenerator,
-    magnetoGenerator,
-    barometerGenerator,
-    networkGenerator,
+    // Raw source (for advanced use)
+    source,
 
     clearProof,
   };
-}
\ No newline at end of file
+}
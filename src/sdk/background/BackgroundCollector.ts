@@ -0,0 +1,313 @@
+/**
+ * BackgroundCollector - Collect proofs on a schedule while the app is in
+ * the background
+ *
+ * Background location updates (a TaskManager task) wake the app every
+ * wakeIntervalMs or distanceInterval meters. On each wake, every scheduled
+ * sensor whose interval has passed is read. A wallet can't sign without the
+ * user, so readings are signed with a non-interactive signer when one is set
+ * (normally a DelegatedSigner) and are otherwise queued in ProofStorage for
+ * signWithWallet() to sign later in one wallet session. The session key
+ * lives in memory only: after the OS restarts the app in the background,
+ * readings are queued until a new key is set.
+ *
+ * The config, status and recent activity are kept in storage, so the
+ * Dashboard shows them whichever process did the collecting.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { SensorData, SensorTypeId } from '@/src/types';
+import { isHardwareSignerKind, Signer } from '../crypto/Signer';
+import { seedVaultSigner } from '../crypto/SeedVaultSigner';
+import { ProofGenerator } from '../crypto/ProofGenerator';
+import { deviceIdentity } from '../identity/DeviceIdentity';
+import { proofStorage } from '../storage/ProofStorage';
+import { sensorRegistry } from '../sensors/SensorRegistry';
+
+export const BACKGROUND_COLLECTION_TASK = 'depin-go-background-collection';
+
+const STORAGE_KEYS = {
+  CONFIG: '@depin-go:background-config',
+  STATUS: '@depin-go:background-status',
+};
+
+const MAX_RECENT_ACTIVITY = 20;
+
+export interface BackgroundScheduleEntry {
+  sensorType: SensorTypeId;
+  everyMs: number;
+  options?: Record<string, any>;   // passed to the sensor's read()
+}
+
+export interface BackgroundCollectionConfig {
+  schedule: BackgroundScheduleEntry[];
+  wakeIntervalMs?: number;         // default 60000
+  distanceInterval?: number;       // meters, default 50
+}
+
+export type BackgroundOutcome = 'signed' | 'queued' | 'failed';
+
+export interface BackgroundActivity {
+  timestamp: number;
+  sensorType: SensorTypeId;
+  outcome: BackgroundOutcome;
+  detail: string;
+}
+
+export interface BackgroundCollectionStatus {
+  running: boolean;
+  startedAt: number | null;
+  lastRunAt: number | null;
+  signedCount: number;                       // this session
+  queuedCount: number;                       // this session
+  lastRunBySensor: Record<string, number>;
+  recent: BackgroundActivity[];              // newest first
+}
+
+function idleStatus(): BackgroundCollectionStatus {
+  return {
+    running: false,
+    startedAt: null,
+    lastRunAt: null,
+    signedCount: 0,
+    queuedCount: 0,
+    lastRunBySensor: {},
+    recent: [],
+  };
+}
+
+TaskManager.defineTask(BACKGROUND_COLLECTION_TASK, async ({ error }) => {
+  if (error) {
+    console.error('[BackgroundCollector] Background task failed:', error);
+    return;
+  }
+  try {
+    await backgroundCollector.runDue();
+  } catch (runError) {
+    console.error('[BackgroundCollector] Scheduled collection failed:', runError);
+  }
+});
+
+export class BackgroundCollector {
+  private signer: Signer | null = null;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Signer for background proofs; null queues every reading
+   * Wallet signers are refused — they would need the user for every proof.
+   */
+  setSigner(signer: Signer | null): void {
+    if (signer && isHardwareSignerKind(signer.kind)) {
+      throw new Error('Background proofs need a session key, not a wallet signer');
+    }
+    this.signer = signer;
+  }
+
+  hasSigner(): boolean {
+    return this.signer !== null;
+  }
+
+  /**
+   * Save the schedule and start background location updates
+   */
+  async start(config: BackgroundCollectionConfig): Promise<void> {
+    const { schedule, wakeIntervalMs = 60000, distanceInterval = 50 } = config;
+
+    if (schedule.length === 0) {
+      throw new Error('The background schedule needs at least one sensor');
+    }
+    for (const entry of schedule) {
+      if (!sensorRegistry.has(entry.sensorType)) {
+        throw new Error(`Unknown sensor type: ${entry.sensorType}`);
+      }
+      if (!(entry.everyMs > 0)) {
+        throw new Error(`${entry.sensorType}: interval must be positive`);
+      }
+    }
+
+    if (!(await TaskManager.isAvailableAsync())) {
+      throw new Error('Background tasks are not available on this device');
+    }
+    const foreground = await Location.requestForegroundPermissionsAsync();
+    const background = foreground.status === 'granted'
+      ? await Location.requestBackgroundPermissionsAsync()
+      : foreground;
+    if (background.status !== 'granted') {
+      throw new Error('Background location permission is required for background collection');
+    }
+
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.CONFIG, JSON.stringify(config));
+      await this.exclusive(async () => {
+        const { recent } = await this.loadStatus();
+        await this.saveStatus({ ...idleStatus(), running: true, startedAt: Date.now(), recent });
+      });
+
+      await Location.startLocationUpdatesAsync(BACKGROUND_COLLECTION_TASK, {
+        accuracy: Location.Accuracy.Balanced,
+        timeInterval: wakeIntervalMs,
+        distanceInterval,
+        pausesUpdatesAutomatically: false,
+        showsBackgroundLocationIndicator: true,
+        foregroundService: {
+          notificationTitle: 'DePIN-Go is collecting proofs',
+          notificationBody: `${schedule.length} sensor${schedule.length === 1 ? '' : 's'} on schedule`,
+        },
+      });
+    } catch (error) {
+      console.error('[BackgroundCollector] Failed to start:', error);
+      await this.stop();
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (await Location.hasStartedLocationUpdatesAsync(BACKGROUND_COLLECTION_TASK)) {
+      await Location.stopLocationUpdatesAsync(BACKGROUND_COLLECTION_TASK);
+    }
+    await this.exclusive(async () => {
+      await this.saveStatus({ ...(await this.loadStatus()), running: false });
+    });
+  }
+
+  async getConfig(): Promise<BackgroundCollectionConfig | null> {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.CONFIG);
+    return data ? JSON.parse(data) : null;
+  }
+
+  /**
+   * Stored status, corrected if the OS stopped the updates behind our back
+   */
+  async getStatus(): Promise<BackgroundCollectionStatus> {
+    const status = await this.loadStatus();
+    if (status.running && !(await Location.hasStartedLocationUpdatesAsync(BACKGROUND_COLLECTION_TASK))) {
+      return { ...status, running: false };
+    }
+    return status;
+  }
+
+  /**
+   * Read every scheduled sensor that is due, then sign or queue the readings
+   * Called by the background task on every wake.
+   */
+  async runDue(now: number = Date.now()): Promise<BackgroundActivity[]> {
+    return await this.exclusive(async () => {
+      const config = await this.getConfig();
+      const status = await this.loadStatus();
+      if (!config || !status.running) return [];
+
+      const due = config.schedule.filter(
+        (entry) => now - (status.lastRunBySensor[entry.sensorType] ?? 0) >= entry.everyMs
+      );
+      if (due.length === 0) return [];
+
+      const activity: BackgroundActivity[] = [];
+      const readings: SensorData[] = [];
+
+      for (const entry of due) {
+        status.lastRunBySensor[entry.sensorType] = now;
+        try {
+          // Sources only read here; signing happens below
+          const source = sensorRegistry.createSource(entry.sensorType, this.signer ?? seedVaultSigner);
+          readings.push(await source.read(entry.options));
+        } catch (error) {
+          activity.push(this.record(entry.sensorType, 'failed', `Reading failed: ${errorMessage(error)}`));
+        }
+      }
+
+      const unsigned: SensorData[] = [];
+      const proofGen = this.signer ? new ProofGenerator(this.signer, { deviceIdentity }) : null;
+
+      for (const sensorData of readings) {
+        if (!proofGen) {
+          unsigned.push(sensorData);
+          activity.push(this.record(sensorData.type, 'queued', 'No session key — queued for wallet signing'));
+          continue;
+        }
+        try {
+          const proof = await proofGen.generateProof(sensorData);
+          await proofStorage.saveProof(proof);
+          activity.push(this.record(sensorData.type, 'signed', `Signed with session key: ${proof.proofHash.slice(0, 12)}…`));
+        } catch (error) {
+          unsigned.push(sensorData);
+          activity.push(this.record(sensorData.type, 'queued', `Signing failed, queued: ${errorMessage(error)}`));
+        }
+      }
+
+      if (unsigned.length > 0) await proofStorage.queueUnsignedReadings(unsigned);
+
+      await this.saveStatus({
+        ...status,
+        lastRunAt: now,
+        signedCount: status.signedCount + activity.filter((a) => a.outcome === 'signed').length,
+        queuedCount: status.queuedCount + unsigned.length,
+        recent: [...activity.reverse(), ...status.recent].slice(0, MAX_RECENT_ACTIVITY),
+      });
+      return activity;
+    });
+  }
+
+  /**
+   * Sign every queued reading in one signer session (one wallet popup for
+   * Seed Vault) and store the proofs. Returns how many were signed.
+   */
+  async signWithWallet(signer: Signer): Promise<number> {
+    return await this.exclusive(async () => {
+      const readings = await proofStorage.getUnsignedReadings();
+      if (readings.length === 0) return 0;
+
+      try {
+        const proofs = await new ProofGenerator(signer, { deviceIdentity }).generateBatchProofs(readings);
+        await proofStorage.saveBatchProofs(proofs);
+        await proofStorage.removeUnsignedReadings(readings);
+      } catch (error) {
+        console.error('[BackgroundCollector] Failed to sign queued readings:', error);
+        throw error;
+      }
+
+      const status = await this.loadStatus();
+      const signed = this.record('queue', 'signed', `Signed ${readings.length} queued reading${readings.length === 1 ? '' : 's'} with the wallet`);
+      await this.saveStatus({ ...status, recent: [signed, ...status.recent].slice(0, MAX_RECENT_ACTIVITY) });
+      return readings.length;
+    });
+  }
+
+  private record(sensorType: SensorTypeId, outcome: BackgroundOutcome, detail: string): BackgroundActivity {
+    return { timestamp: Date.now(), sensorType, outcome, detail };
+  }
+
+  private async loadStatus(): Promise<BackgroundCollectionStatus> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.STATUS);
+      return data ? { ...idleStatus(), ...JSON.parse(data) } : idleStatus();
+    } catch (error) {
+      console.error('[BackgroundCollector] Failed to load status:', error);
+      return idleStatus();
+    }
+  }
+
+  private async saveStatus(status: BackgroundCollectionStatus): Promise<void> {
+    await AsyncStorage.setItem(STORAGE_KEYS.STATUS, JSON.stringify(status));
+  }
+
+  /**
+   * Run one status update at a time — wakes can overlap with each other and
+   * with the Dashboard
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn, fn);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Singleton — the background task and the app share one collector
+ */
+export const backgroundCollector = new BackgroundCollector();
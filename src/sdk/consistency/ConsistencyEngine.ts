@@ -0,0 +1,338 @@
+/**
+ * ConsistencyEngine - Cross-sensor checks for anti-spoofing
+ *
+ * A spoofed GPS feed rarely fakes the other sensors to match. Each check
+ * compares two sensors that measure related things:
+ * - altitude: GPS altitude against barometric altitude
+ * - motion:   GPS speed against the accelerometer activity class
+ * - heading:  GPS course against magnetometer heading
+ * - network:  the Wi-Fi network against where it was seen before
+ *
+ * Every check yields a verdict with a score (1 = consistent, 0 =
+ * contradictory) and a sentence explaining it. A check whose inputs are
+ * present but unusable (no altitude on a coarsened fix, no course while
+ * standing still) is inconclusive rather than failed.
+ *
+ * Snapshot proofs embed the report in context.consistency; verifiers run
+ * the same checks on the proof.
+ */
+
+import {
+  ConsistencyReport,
+  ConsistencyVerdict,
+  SensorData,
+  SensorType,
+  SensorTypeId,
+} from '@/src/types';
+import { getMinimumDistance } from '../location/LocationPrivacy';
+
+export type ActivityClass = 'still' | 'walking' | 'running' | 'vehicle';
+
+export interface ConsistencyOptions {
+  seaLevelHpa?: number;              // local sea-level pressure; unknown = standard atmosphere
+  altitudeToleranceMeters?: number;  // default 250 without seaLevelHpa, 50 with it
+  speedToleranceMps?: number;        // default 0.5
+  headingToleranceDegrees?: number;  // default 45
+  magneticDeclination?: number;      // degrees east of true north, default 0
+  wifiRangeMeters?: number;          // default 300
+  history?: SensorData[];            // earlier snapshots, for the network check
+}
+
+const STANDARD_SEA_LEVEL_HPA = 1013.25;
+
+// Weather moves sea-level pressure by ±30 hPa, about ±250 m of altitude
+const UNCALIBRATED_ALTITUDE_TOLERANCE = 250;
+const CALIBRATED_ALTITUDE_TOLERANCE = 50;
+
+// GPS speeds (m/s) each activity class allows
+const ACTIVITY_SPEED_RANGES: Record<ActivityClass, [number, number]> = {
+  still:   [0, 0.7],   // GPS speed jitters a little even when standing still
+  walking: [0, 3],
+  running: [1, 8],
+  // Smooth rides read as still (see below). This much force is a rough ride
+  // at speed, or a phone shaken in place to fake motion, so it needs speed.
+  vehicle: [1, 70],
+};
+
+// A phone lying still in a smooth car or train looks the same as one on a desk
+const SMOOTH_VEHICLE_SPEED_MPS = 8;
+
+// GPS course is meaningless below walking pace
+const MIN_SPEED_FOR_HEADING_MPS = 1;
+
+/**
+ * Altitude above sea level (m) from pressure (hPa), barometric formula
+ */
+export function pressureToAltitude(
+  pressureHpa: number,
+  seaLevelHpa: number = STANDARD_SEA_LEVEL_HPA
+): number {
+  return 44330 * (1 - Math.pow(pressureHpa / seaLevelHpa, 0.1903));
+}
+
+/**
+ * Activity class from acceleration beyond gravity (g)
+ * 'vehicle' is a historical name for anything from 2.5 g up: rough rides,
+ * but also shaking. Smooth vehicles read as still.
+ */
+export function classifyActivity(magnitude: number): ActivityClass {
+  if (magnitude < 0.2) return 'still';
+  if (magnitude < 1.5) return 'walking';
+  if (magnitude < 2.5) return 'running';
+  return 'vehicle';
+}
+
+/**
+ * GPS altitude against the altitude the barometer's pressure implies
+ */
+export function checkAltitudeConsistency(
+  gps: SensorData,
+  barometer: SensorData,
+  options: ConsistencyOptions = {}
+): ConsistencyVerdict {
+  const { seaLevelHpa } = options;
+  const tolerance = options.altitudeToleranceMeters
+    ?? (seaLevelHpa ? CALIBRATED_ALTITUDE_TOLERANCE : UNCALIBRATED_ALTITUDE_TOLERANCE);
+
+  const gpsAltitude = gps.data.altitude;
+  const pressure = barometer.data.pressure;
+  if (typeof gpsAltitude !== 'number') {
+    return inconclusive('altitude', 'The GPS fix has no altitude');
+  }
+  if (typeof pressure !== 'number') {
+    return inconclusive('altitude', 'The barometer reading has no pressure');
+  }
+
+  // The GPS's own vertical error widens the tolerance
+  const allowed = tolerance + (gps.data.altitudeAccuracy ?? 0);
+  const baroAltitude = pressureToAltitude(pressure, seaLevelHpa);
+  const difference = Math.abs(gpsAltitude - baroAltitude);
+
+  return verdict(
+    'altitude',
+    difference,
+    allowed,
+    `GPS altitude ${gpsAltitude.toFixed(0)} m vs ${baroAltitude.toFixed(0)} m from ` +
+      `${pressure.toFixed(1)} hPa: ${difference.toFixed(0)} m apart (allowed ${allowed.toFixed(0)} m)`
+  );
+}
+
+/**
+ * GPS speed against how much the accelerometer says the phone is moving
+ */
+export function checkMotionConsistency(
+  gps: SensorData,
+  accelerometer: SensorData,
+  options: ConsistencyOptions = {}
+): ConsistencyVerdict {
+  const { speedToleranceMps = 0.5 } = options;
+
+  const speed = gps.data.speed;
+  if (typeof speed !== 'number' || speed < 0) {
+    return inconclusive('motion', 'The GPS fix has no speed');
+  }
+
+  const intensity = getMotionIntensity(accelerometer.data);
+  if (intensity === null) {
+    return inconclusive('motion', 'The accelerometer reading has no magnitude');
+  }
+
+  const activity = classifyActivity(intensity);
+  if (activity === 'still' && speed > SMOOTH_VEHICLE_SPEED_MPS) {
+    return inconclusive(
+      'motion',
+      `Phone is still at ${speed.toFixed(1)} m/s — a smooth vehicle ride or a spoofed feed`
+    );
+  }
+
+  const [min, max] = ACTIVITY_SPEED_RANGES[activity];
+  const outside = speed < min ? min - speed : Math.max(0, speed - max);
+  const reads = activity === 'vehicle' ? `${intensity.toFixed(1)} g of motion` : activity;
+
+  return verdict(
+    'motion',
+    outside,
+    speedToleranceMps,
+    `GPS speed ${speed.toFixed(1)} m/s while the accelerometer reads ${reads} ` +
+      `(${min}–${max} m/s expected)`
+  );
+}
+
+/**
+ * GPS course over ground against magnetometer heading
+ * Only meaningful when the phone faces the direction of travel, e.g. mounted
+ * on a dashboard or handlebar, hence the wide default tolerance.
+ */
+export function checkHeadingConsistency(
+  gps: SensorData,
+  magnetometer: SensorData,
+  options: ConsistencyOptions = {}
+): ConsistencyVerdict {
+  const { headingToleranceDegrees = 45, magneticDeclination = 0 } = options;
+
+  const course = gps.data.heading;
+  const speed = gps.data.speed;
+  if (typeof course !== 'number' || course < 0) {
+    return inconclusive('heading', 'The GPS fix has no course');
+  }
+  if (typeof speed !== 'number' || speed < MIN_SPEED_FOR_HEADING_MPS) {
+    return inconclusive('heading', 'GPS course is undefined while (nearly) stationary');
+  }
+
+  const magnetic = magnetometer.data.heading;
+  if (typeof magnetic !== 'number') {
+    return inconclusive('heading', 'The magnetometer reading has no heading');
+  }
+
+  const compass = normalizeDegrees(magnetic + magneticDeclination);
+  const difference = angularDifference(course, compass);
+
+  return verdict(
+    'heading',
+    difference,
+    headingToleranceDegrees,
+    `GPS course ${course.toFixed(0)}° vs compass ${compass.toFixed(0)}°: ` +
+      `${difference.toFixed(0)}° apart (allowed ${headingToleranceDegrees}°)`
+  );
+}
+
+/**
+ * Whether the Wi-Fi network was seen far from where it is seen now
+ * A Wi-Fi network reaches a few hundred meters, so the same SSID at two
+ * places much further apart means one of the locations is wrong. The
+ * history holds earlier snapshots with both a GPS and a network reading.
+ */
+export function checkNetworkConsistency(
+  gps: SensorData,
+  network: SensorData,
+  options: ConsistencyOptions = {}
+): ConsistencyVerdict {
+  const { wifiRangeMeters = 300, history = [] } = options;
+
+  const ssid = network.data.wifiSsid;
+  if (network.data.connectionType !== 'wifi') {
+    return inconclusive('network', `Connected over ${network.data.connectionType}; only Wi-Fi can be placed`);
+  }
+  if (!ssid) {
+    return inconclusive('network', 'The Wi-Fi network name was not readable');
+  }
+
+  const sightings = history
+    .map(flattenReadings)
+    .map((readings) => ({
+      gps: findReading(readings, SensorType.GPS),
+      network: findReading(readings, SensorType.NETWORK_SPEED),
+    }))
+    .filter((pair): pair is { gps: SensorData; network: SensorData } =>
+      !!pair.gps && pair.network?.data.wifiSsid === ssid
+    );
+
+  if (sightings.length === 0) {
+    return inconclusive('network', `First sighting of "${ssid}"`);
+  }
+
+  const farthest = Math.max(...sightings.map((s) => getMinimumDistance(gps, s.gps)));
+
+  return verdict(
+    'network',
+    farthest,
+    wifiRangeMeters,
+    `"${ssid}" seen ${sightings.length} time(s) before, at most ${farthest.toFixed(0)} m ` +
+      `from here (Wi-Fi range ${wifiRangeMeters} m)`
+  );
+}
+
+/**
+ * Run every check the readings allow
+ * Readings may be snapshots; their sub-readings are used. Where a type
+ * appears more than once, the last reading counts.
+ */
+export function checkConsistency(
+  readings: SensorData[],
+  options: ConsistencyOptions = {}
+): ConsistencyReport {
+  const flat = readings.flatMap(flattenReadings);
+  const gps = findReading(flat, SensorType.GPS);
+
+  const verdicts: ConsistencyVerdict[] = [];
+  if (gps) {
+    const barometer = findReading(flat, SensorType.BAROMETER);
+    const accelerometer = findReading(flat, SensorType.ACCELEROMETER);
+    const magnetometer = findReading(flat, SensorType.MAGNETOMETER);
+    const network = findReading(flat, SensorType.NETWORK_SPEED);
+
+    if (barometer) verdicts.push(checkAltitudeConsistency(gps, barometer, options));
+    if (accelerometer) verdicts.push(checkMotionConsistency(gps, accelerometer, options));
+    if (magnetometer) verdicts.push(checkHeadingConsistency(gps, magnetometer, options));
+    if (network) verdicts.push(checkNetworkConsistency(gps, network, options));
+  }
+
+  const conclusive = verdicts.filter((v) => v.status !== 'inconclusive');
+
+  return {
+    score: conclusive.length > 0 ? Math.min(...conclusive.map((v) => v.score)) : 1,
+    isConsistent: conclusive.every((v) => v.status === 'consistent'),
+    verdicts,
+  };
+}
+
+/**
+ * Acceleration beyond gravity (g). Movement proofs carry the spread of
+ * per-sample magnitudes; older ones only the magnitude of the averaged
+ * vector, which hides most of the motion.
+ */
+function getMotionIntensity(data: Record<string, any>): number | null {
+  if (typeof data.motionIntensity === 'number') return data.motionIntensity;
+  if (typeof data.magnitude === 'number') return Math.abs(data.magnitude - 1);
+  return null;
+}
+
+/**
+ * A snapshot's sub-readings as standalone SensorData (with the snapshot's
+ * context, so GPS location privacy carries over); other readings as is
+ */
+function flattenReadings(sensorData: SensorData): SensorData[] {
+  if (sensorData.type !== SensorType.SNAPSHOT) return [sensorData];
+
+  return (sensorData.data.readings ?? []).map((reading: SensorData) => ({
+    type: reading.type,
+    timestamp: reading.timestamp,
+    data: reading.data,
+    deviceId: sensorData.deviceId,
+    ...(sensorData.context ? { context: sensorData.context } : {}),
+  }));
+}
+
+function findReading(readings: SensorData[], type: SensorTypeId): SensorData | undefined {
+  return readings.filter((r) => r.type === type).pop();
+}
+
+function verdict(
+  check: ConsistencyVerdict['check'],
+  deviation: number,
+  tolerance: number,
+  explanation: string
+): ConsistencyVerdict {
+  // 1 with no deviation, 0.5 at the tolerance, 0 at twice the tolerance
+  const score = tolerance > 0 ? Math.max(0, 1 - deviation / (2 * tolerance)) : deviation > 0 ? 0 : 1;
+
+  return {
+    check,
+    status: deviation <= tolerance ? 'consistent' : 'inconsistent',
+    score: parseFloat(score.toFixed(2)),
+    explanation,
+  };
+}
+
+function inconclusive(check: ConsistencyVerdict['check'], explanation: string): ConsistencyVerdict {
+  return { check, status: 'inconclusive', score: 1, explanation };
+}
+
+function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+function angularDifference(a: number, b: number): number {
+  const difference = Math.abs(normalizeDegrees(a) - normalizeDegrees(b));
+  return Math.min(difference, 360 - difference);
+}
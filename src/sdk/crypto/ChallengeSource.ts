@@ -0,0 +1,72 @@
+import { ProofChallenge, SensorProof } from '@/src/types';
+import { verifySensorProof } from '@/src/utils/proof-helpers';
+
+/**
+ * ChallengeSource - Where a generator gets the nonce it signs into a proof
+ *
+ * A verifier issues a short-lived nonce, the generator embeds it in the
+ * signed context, and the verifier redeems it exactly once. A proof can then
+ * neither be replayed later nor handed to a different verifier.
+ *
+ * Production sources fetch challenges from the verifier's backend;
+ * LocalChallengeSource issues and redeems them in memory for tests and demos.
+ */
+export interface ChallengeSource {
+  /** Request a fresh challenge for one proof */
+  getChallenge(): Promise<ProofChallenge>;
+}
+
+/**
+ * What a verifier knows about a nonce it is asked to redeem
+ */
+export type ChallengeStatus = 'valid' | 'unknown' | 'reused' | 'expired';
+
+/**
+ * Verifier side: tracks issued nonces and consumes them on redemption
+ */
+export interface ChallengeVerifier {
+  /** Identifies this verifier; must match ProofChallenge.verifier */
+  readonly verifierId: string;
+
+  /** Mark the nonce used. Only the first redemption of a live nonce is 'valid'. */
+  redeemChallenge(nonce: string): Promise<ChallengeStatus>;
+}
+
+/**
+ * Check a proof's challenge and consume its nonce
+ * The signature is checked first, so a forged proof can't burn a real nonce.
+ */
+export async function verifyProofChallenge(
+  proof: SensorProof,
+  verifier: ChallengeVerifier
+): Promise<{
+  isValid: boolean;
+  errors: string[];
+}> {
+  const errors: string[] = [];
+  const challenge = proof.sensorData.context?.challenge;
+
+  if (!challenge) {
+    errors.push('Proof has no challenge nonce');
+  } else if (challenge.verifier !== verifier.verifierId) {
+    errors.push(`Challenge was issued by another verifier (${challenge.verifier})`);
+  } else if (!verifySensorProof(proof)) {
+    errors.push('Signature is invalid');
+  } else {
+    const status = await verifier.redeemChallenge(challenge.nonce);
+    if (status !== 'valid') {
+      errors.push(CHALLENGE_ERRORS[status]);
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+const CHALLENGE_ERRORS: Record<Exclude<ChallengeStatus, 'valid'>, string> = {
+  unknown: 'Challenge nonce was never issued by this verifier',
+  reused: 'Challenge nonce has already been used',
+  expired: 'Challenge nonce has expired',
+};
@@ -0,0 +1,263 @@
+/**
+ * DelegatedSigner - Signs proofs with a session key the wallet authorized
+ *
+ * Creating one costs a single wallet signature: the wallet signs a
+ * DelegationCertificate naming a fresh ed25519 session key and its scope.
+ * From then on proofs are signed locally, with no wallet popups, and each
+ * one carries the certificate and its index in the quota (see Delegation.ts).
+ *
+ * The session key lives in memory only, so the delegation ends with the
+ * process at the latest. Expiry, quota and revocation are enforced here
+ * before signing and again by verifiers.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import {
+  DelegationCertificate,
+  DelegationClaim,
+  DelegationRevocation,
+  SensorData,
+  SensorTypeId,
+  SignerKind,
+} from '@/src/types';
+import { Signer } from './Signer';
+import {
+  createCertificateMessage,
+  createRevocationMessage,
+  getCertificateId,
+} from './Delegation';
+import { RevocationStorage, revocationStorage } from '../storage/RevocationStorage';
+import { encodeSigningPayload } from '../encoding/OffchainMessage';
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+export interface DelegationOptions {
+  sensorTypes: SensorTypeId[];
+  maxProofs: number;
+  /** How long the session key stays valid. Ignored when expiresAt is set. */
+  ttlMs?: number;
+  expiresAt?: number;
+  /** Where revocations are recorded and looked up */
+  revocations?: RevocationStorage;
+  now?: () => number;
+}
+
+export class DelegatedSigner implements Signer {
+  readonly kind = SignerKind.DELEGATED;
+
+  private keypair: nacl.SignKeyPair | null;
+  private publicKey: PublicKey;
+  private certificate: DelegationCertificate;
+  private certificateId: string;
+  private revocations: RevocationStorage;
+  private now: () => number;
+  private nextIndex = 0;
+
+  private constructor(
+    keypair: nacl.SignKeyPair,
+    certificate: DelegationCertificate,
+    revocations: RevocationStorage,
+    now: () => number
+  ) {
+    this.keypair = keypair;
+    this.publicKey = new PublicKey(keypair.publicKey);
+    this.certificate = certificate;
+    this.certificateId = getCertificateId(certificate);
+    this.revocations = revocations;
+    this.now = now;
+  }
+
+  /**
+   * Generate a session key and have the wallet sign its certificate
+   */
+  static async create(walletSigner: Signer, options: DelegationOptions): Promise<DelegatedSigner> {
+    const wallet = walletSigner.getPublicKey();
+    if (!wallet) {
+      throw new Error('Signer not authorized. Call authorize() first.');
+    }
+    if (walletSigner.kind === SignerKind.DELEGATED) {
+      throw new Error('A session key cannot delegate further');
+    }
+    if (options.sensorTypes.length === 0) {
+      throw new Error('Delegation must cover at least one sensor type');
+    }
+    if (!Number.isInteger(options.maxProofs) || options.maxProofs <= 0) {
+      throw new Error('maxProofs must be a positive integer');
+    }
+
+    const now = options.now ?? Date.now;
+    const issuedAt = now();
+    const expiresAt = options.expiresAt ?? issuedAt + (options.ttlMs ?? DEFAULT_TTL_MS);
+    if (expiresAt <= issuedAt) {
+      throw new Error('Delegation must expire in the future');
+    }
+
+    const keypair = nacl.sign.keyPair();
+    const unsigned: Omit<DelegationCertificate, 'signature'> = {
+      wallet: wallet.toBase58(),
+      sessionKey: new PublicKey(keypair.publicKey).toBase58(),
+      scope: {
+        sensorTypes: [...options.sensorTypes],
+        expiresAt,
+        maxProofs: options.maxProofs,
+      },
+      issuedAt,
+    };
+
+    try {
+      const { signature, publicKey } = await walletSigner.signData(
+        encodeSigningPayload(createCertificateMessage(unsigned))
+      );
+      if (!publicKey.equals(wallet)) {
+        throw new Error('Signer key changed while signing the delegation certificate');
+      }
+
+      return new DelegatedSigner(
+        keypair,
+        { ...unsigned, signature: bs58.encode(signature) },
+        options.revocations ?? revocationStorage,
+        now
+      );
+    } catch (error) {
+      console.error('Delegation failed:', error);
+      throw error;
+    }
+  }
+
+  getCertificate(): DelegationCertificate {
+    return this.certificate;
+  }
+
+  getCertificateId(): string {
+    return this.certificateId;
+  }
+
+  /**
+   * Proofs left in the quota
+   */
+  getRemainingProofs(): number {
+    return Math.max(0, this.certificate.scope.maxProofs - this.nextIndex);
+  }
+
+  /**
+   * Nothing to ask the wallet — fails if the delegation is no longer usable
+   */
+  async authorize(): Promise<PublicKey> {
+    await this.assertUsable();
+    return this.publicKey;
+  }
+
+  async signData(data: Uint8Array): Promise<{
+    signature: Uint8Array;
+    publicKey: PublicKey;
+  }> {
+    const { secretKey } = await this.assertUsable();
+    return {
+      signature: nacl.sign.detached(data, secretKey),
+      publicKey: this.publicKey,
+    };
+  }
+
+  async signDataBatch(payloads: Uint8Array[]): Promise<{
+    signatures: Uint8Array[];
+    publicKey: PublicKey;
+  }> {
+    const { secretKey } = await this.assertUsable();
+    return {
+      signatures: payloads.map((payload) => nacl.sign.detached(payload, secretKey)),
+      publicKey: this.publicKey,
+    };
+  }
+
+  /**
+   * Reserve quota for a batch and return the claims to sign with it
+   * Indices are never handed out twice, even if the signing that follows fails.
+   */
+  async claimDelegation(sensorDataArray: SensorData[]): Promise<DelegationClaim[]> {
+    await this.assertUsable();
+
+    const { scope } = this.certificate;
+    for (const sensorData of sensorDataArray) {
+      if (!scope.sensorTypes.includes(sensorData.type)) {
+        throw new Error(`Delegation does not cover ${sensorData.type} proofs`);
+      }
+      if (sensorData.timestamp > scope.expiresAt) {
+        throw new Error('Reading was taken after the delegation expired');
+      }
+    }
+    if (sensorDataArray.length > this.getRemainingProofs()) {
+      throw new Error(
+        `Delegation quota exhausted: ${this.getRemainingProofs()} of ${scope.maxProofs} proofs left`
+      );
+    }
+
+    return sensorDataArray.map(() => ({
+      certificate: this.certificate,
+      index: this.nextIndex++,
+    }));
+  }
+
+  /**
+   * Withdraw the certificate. The wallet signs the revocation, which is
+   * recorded so this and any other signer holding the certificate stop.
+   */
+  async revoke(walletSigner: Signer): Promise<DelegationRevocation> {
+    const unsigned: Omit<DelegationRevocation, 'signature'> = {
+      certificateId: this.certificateId,
+      wallet: this.certificate.wallet,
+      revokedAt: this.now(),
+    };
+
+    try {
+      const { signature, publicKey } = await walletSigner.signData(
+        encodeSigningPayload(createRevocationMessage(unsigned))
+      );
+      if (publicKey.toBase58() !== this.certificate.wallet) {
+        throw new Error('Only the delegating wallet can revoke its certificate');
+      }
+
+      const revocation = { ...unsigned, signature: bs58.encode(signature) };
+      await this.revocations.addRevocation(revocation);
+      this.keypair = null;
+      return revocation;
+    } catch (error) {
+      console.error('Revocation failed:', error);
+      throw error;
+    }
+  }
+
+  getPublicKey(): PublicKey | null {
+    return this.isAuthorized() ? this.publicKey : null;
+  }
+
+  /**
+   * Synchronous view — revocations recorded elsewhere are only caught when
+   * signing, which checks storage
+   */
+  isAuthorized(): boolean {
+    return this.keypair !== null && this.now() <= this.certificate.scope.expiresAt;
+  }
+
+  /**
+   * Forget the session key for good
+   */
+  async deauthorize(): Promise<void> {
+    this.keypair = null;
+  }
+
+  private async assertUsable(): Promise<nacl.SignKeyPair> {
+    if (!this.keypair) {
+      throw new Error('Delegation has been revoked or discarded');
+    }
+    if (this.now() > this.certificate.scope.expiresAt) {
+      throw new Error('Delegation has expired');
+    }
+    if (await this.revocations.isRevoked(this.certificate)) {
+      this.keypair = null;
+      throw new Error('Delegation has been revoked');
+    }
+    return this.keypair;
+  }
+}
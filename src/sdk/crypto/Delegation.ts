@@ -0,0 +1,247 @@
+/**
+ * Delegation - Certificates that let a session key sign for a wallet
+ *
+ * The wallet signs one certificate naming an ephemeral session key and a
+ * scope (sensor types, expiry, proof quota). Proofs signed by that key carry
+ * the certificate plus their index in the quota, so a verifier can follow
+ * the chain wallet → certificate → session key → proof without the wallet
+ * being involved again. Revocations are wallet-signed records naming the
+ * certificate ID; one only counts when the certificate's own wallet signed it.
+ *
+ * The quota is only enforced per proof (index < maxProofs): a session key can
+ * sign many proofs with the same index, which only a verifier that sees all
+ * of a certificate's proofs can catch, with auditDelegationClaims().
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import { keccak_256 } from '@noble/hashes/sha3';
+import bs58 from 'bs58';
+import {
+  DelegationCertificate,
+  DelegationRevocation,
+  SensorProof,
+  SignerKind,
+} from '@/src/types';
+import { canonicalize } from '../encoding/CanonicalJson';
+import { verifyWalletSignature } from './Signer';
+
+const CERTIFICATE_PREFIX = 'depin-go:delegation:v1:';
+const REVOCATION_PREFIX = 'depin-go:revocation:v1:';
+
+export interface DelegationVerifyOptions {
+  /** Certificate IDs the caller already trusts as revoked */
+  revokedCertificates?: Iterable<string>;
+  /** Wallet-signed revocations to apply on top of the registered ones */
+  revocations?: Iterable<DelegationRevocation>;
+}
+
+/**
+ * Two or more different proofs claiming the same quota index
+ */
+export interface DelegationClaimConflict {
+  certificateId: string;
+  index: number;
+  proofHashes: string[];
+}
+
+// Revocations verifyDelegation() applies by default, keyed by certificate ID
+const knownRevocations = new Map<string, DelegationRevocation[]>();
+
+/**
+ * Bytes the wallet signs to issue a certificate
+ */
+export function createCertificateMessage(
+  certificate: Omit<DelegationCertificate, 'signature'>
+): Uint8Array {
+  const body = canonicalize({
+    wallet: certificate.wallet,
+    sessionKey: certificate.sessionKey,
+    scope: certificate.scope,
+    issuedAt: certificate.issuedAt,
+  });
+  return new TextEncoder().encode(`${CERTIFICATE_PREFIX}${body}`);
+}
+
+/**
+ * Content-addressed certificate ID, used by revocations
+ */
+export function getCertificateId(certificate: DelegationCertificate): string {
+  return bs58.encode(keccak_256(createCertificateMessage(certificate)));
+}
+
+export function verifyCertificateSignature(certificate: DelegationCertificate): boolean {
+  try {
+    return verifyWalletSignature(
+      createCertificateMessage(certificate),
+      bs58.decode(certificate.signature),
+      new PublicKey(certificate.wallet)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Bytes the wallet signs to revoke a certificate
+ */
+export function createRevocationMessage(
+  revocation: Omit<DelegationRevocation, 'signature'>
+): Uint8Array {
+  const body = canonicalize({
+    certificateId: revocation.certificateId,
+    wallet: revocation.wallet,
+    revokedAt: revocation.revokedAt,
+  });
+  return new TextEncoder().encode(`${REVOCATION_PREFIX}${body}`);
+}
+
+export function verifyRevocation(revocation: DelegationRevocation): boolean {
+  try {
+    return verifyWalletSignature(
+      createRevocationMessage(revocation),
+      bs58.decode(revocation.signature),
+      new PublicKey(revocation.wallet)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Apply a revocation to every later verifyDelegation() call
+ * RevocationStorage registers what it stores. Returns false, registering
+ * nothing, if the wallet's signature is invalid.
+ */
+export function registerRevocation(revocation: DelegationRevocation): boolean {
+  if (!verifyRevocation(revocation)) return false;
+
+  const revocations = knownRevocations.get(revocation.certificateId) ?? [];
+  if (!revocations.some((r) => r.signature === revocation.signature)) {
+    revocations.push(revocation);
+  }
+  knownRevocations.set(revocation.certificateId, revocations);
+  return true;
+}
+
+/**
+ * Whether the certificate is revoked by a registered revocation or one of
+ * `revocations`. Only revocations signed by the certificate's own wallet
+ * count — anyone can sign a revocation naming someone else's certificate.
+ */
+export function isCertificateRevoked(
+  certificate: DelegationCertificate,
+  revocations: Iterable<DelegationRevocation> = []
+): boolean {
+  const certificateId = getCertificateId(certificate);
+  return [...(knownRevocations.get(certificateId) ?? []), ...revocations].some(
+    (revocation) =>
+      revocation.certificateId === certificateId
+      && revocation.wallet === certificate.wallet
+      && verifyRevocation(revocation)
+  );
+}
+
+/**
+ * Judged from the signed context: the unsigned SensorProof.signerKind can be
+ * stripped, and a signed delegation claim counts on its own
+ */
+export function isDelegatedProof(proof: SensorProof): boolean {
+  const context = proof.sensorData.context;
+  return context?.signerKind === SignerKind.DELEGATED || !!context?.delegation;
+}
+
+/**
+ * The key a proof ultimately speaks for: the certificate's wallet for
+ * delegated proofs, the signing key otherwise
+ */
+export function getProofAuthority(proof: SensorProof): PublicKey {
+  const certificate = proof.sensorData.context?.delegation?.certificate;
+  return certificate ? new PublicKey(certificate.wallet) : proof.publicKey;
+}
+
+/**
+ * Validate a delegated proof's certificate chain
+ * Does not check the proof's own signature — pair with verifySensorProof().
+ */
+export function verifyDelegation(
+  proof: SensorProof,
+  options: DelegationVerifyOptions = {}
+): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const claim = proof.sensorData.context?.delegation;
+  if (!claim) {
+    return { isValid: false, errors: ['Proof carries no delegation certificate'] };
+  }
+
+  const errors: string[] = [];
+  const { certificate, index } = claim;
+  const { scope } = certificate;
+
+  if (certificate.sessionKey !== proof.publicKey.toBase58()) {
+    errors.push('Proof was not signed by the certificate\'s session key');
+  }
+
+  if (!verifyCertificateSignature(certificate)) {
+    errors.push('Certificate signature is invalid');
+  }
+
+  if (!scope.sensorTypes.includes(proof.sensorData.type)) {
+    errors.push(`Certificate does not cover ${proof.sensorData.type} proofs`);
+  }
+
+  if (!Number.isInteger(index) || index < 0 || index >= scope.maxProofs) {
+    errors.push(`Proof index ${index} is outside the quota of ${scope.maxProofs}`);
+  }
+
+  const timestamp = proof.sensorData.timestamp;
+  if (timestamp > scope.expiresAt) {
+    errors.push('Proof was created after the certificate expired');
+  } else if (timestamp < certificate.issuedAt) {
+    errors.push('Proof predates its certificate');
+  }
+
+  const certificateId = getCertificateId(certificate);
+  const revokedById = [...(options.revokedCertificates ?? [])].includes(certificateId);
+  if (revokedById || isCertificateRevoked(certificate, options.revocations)) {
+    errors.push('Certificate has been revoked');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Find quota indices claimed by more than one proof of the same certificate
+ * Each proof passes verifyDelegation() on its own, so over-quota signing only
+ * shows across proofs. The same proof seen twice is not a conflict.
+ */
+export function auditDelegationClaims(proofs: SensorProof[]): DelegationClaimConflict[] {
+  const claims = new Map<string, Map<number, Set<string>>>();
+
+  for (const proof of proofs) {
+    const claim = proof.sensorData.context?.delegation;
+    if (!claim) continue;
+
+    const certificateId = getCertificateId(claim.certificate);
+    const byIndex = claims.get(certificateId) ?? new Map<number, Set<string>>();
+    claims.set(certificateId, byIndex);
+
+    const proofHashes = byIndex.get(claim.index) ?? new Set<string>();
+    proofHashes.add(proof.proofHash);
+    byIndex.set(claim.index, proofHashes);
+  }
+
+  const conflicts: DelegationClaimConflict[] = [];
+  for (const [certificateId, byIndex] of claims) {
+    for (const [index, proofHashes] of byIndex) {
+      if (proofHashes.size > 1) {
+        conflicts.push({ certificateId, index, proofHashes: [...proofHashes] });
+      }
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,90 @@
+/**
+ * KeypairSigner - Software signer backed by a tweetnacl ed25519 keypair
+ *
+ * Needs no wallet, so proofs can be produced in headless tests, web builds
+ * and emulator demos. Proofs it signs are marked SignerKind.KEYPAIR so
+ * verifiers never mistake them for Seed Vault signatures.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { SignerKind } from '@/src/types';
+import { Signer } from './Signer';
+
+export class KeypairSigner implements Signer {
+  readonly kind = SignerKind.KEYPAIR;
+
+  private keypair: nacl.SignKeyPair;
+  private publicKey: PublicKey;
+  private authorized = false;
+
+  constructor(keypair?: nacl.SignKeyPair) {
+    this.keypair = keypair ?? nacl.sign.keyPair();
+    this.publicKey = new PublicKey(this.keypair.publicKey);
+  }
+
+  /**
+   * Restore a signer from a 64-byte ed25519 secret key
+   */
+  static fromSecretKey(secretKey: Uint8Array): KeypairSigner {
+    return new KeypairSigner(nacl.sign.keyPair.fromSecretKey(secretKey));
+  }
+
+  /**
+   * Derive a deterministic signer from a 32-byte seed (handy for fixtures)
+   */
+  static fromSeed(seed: Uint8Array): KeypairSigner {
+    return new KeypairSigner(nacl.sign.keyPair.fromSeed(seed));
+  }
+
+  /**
+   * No wallet to talk to — authorizing just unlocks signing
+   */
+  async authorize(): Promise<PublicKey> {
+    this.authorized = true;
+    return this.publicKey;
+  }
+
+  async signData(data: Uint8Array): Promise<{
+    signature: Uint8Array;
+    publicKey: PublicKey;
+  }> {
+    if (!this.authorized) {
+      throw new Error('Not authorized. Call authorize() first.');
+    }
+
+    return {
+      signature: nacl.sign.detached(data, this.keypair.secretKey),
+      publicKey: this.publicKey,
+    };
+  }
+
+  async signDataBatch(payloads: Uint8Array[]): Promise<{
+    signatures: Uint8Array[];
+    publicKey: PublicKey;
+  }> {
+    if (!this.authorized) {
+      throw new Error('Not authorized. Call authorize() first.');
+    }
+
+    return {
+      signatures: payloads.map((payload) => nacl.sign.detached(payload, this.keypair.secretKey)),
+      publicKey: this.publicKey,
+    };
+  }
+
+  getPublicKey(): PublicKey | null {
+    return this.authorized ? this.publicKey : null;
+  }
+
+  isAuthorized(): boolean {
+    return this.authorized;
+  }
+
+  /**
+   * Secret key export, e.g. to persist an emulator identity between runs
+   */
+  getSecretKey(): Uint8Array {
+    return this.keypair.secretKey;
+  }
+}
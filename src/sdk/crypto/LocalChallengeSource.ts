@@ -0,0 +1,78 @@
+/**
+ * LocalChallengeSource - In-memory challenge issuer and verifier
+ *
+ * Plays both sides of the challenge flow inside one process: generators call
+ * getChallenge(), verifyProofChallenge() calls redeemChallenge(). Nonces live
+ * only as long as the instance, so this is for tests, demos and single-device
+ * setups — a real verifier keeps its nonce ledger server-side.
+ */
+
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import { ProofChallenge } from '@/src/types';
+import { ChallengeSource, ChallengeStatus, ChallengeVerifier } from './ChallengeSource';
+
+export interface LocalChallengeSourceOptions {
+  verifierId?: string;
+  ttlMs?: number;
+  /** Clock override, handy for expiry tests */
+  now?: () => number;
+}
+
+interface IssuedChallenge {
+  expiresAt: number;
+  redeemed: boolean;
+}
+
+export class LocalChallengeSource implements ChallengeSource, ChallengeVerifier {
+  readonly verifierId: string;
+
+  private ttlMs: number;
+  private now: () => number;
+  private issued = new Map<string, IssuedChallenge>();
+
+  constructor(options: LocalChallengeSourceOptions = {}) {
+    this.verifierId = options.verifierId ?? 'local';
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  async getChallenge(): Promise<ProofChallenge> {
+    const issuedAt = this.now();
+    const challenge: ProofChallenge = {
+      nonce: bs58.encode(nacl.randomBytes(16)),
+      verifier: this.verifierId,
+      issuedAt,
+      expiresAt: issuedAt + this.ttlMs,
+    };
+
+    this.issued.set(challenge.nonce, { expiresAt: challenge.expiresAt, redeemed: false });
+    return challenge;
+  }
+
+  async redeemChallenge(nonce: string): Promise<ChallengeStatus> {
+    const entry = this.issued.get(nonce);
+    if (!entry) return 'unknown';
+    if (entry.redeemed) return 'reused';
+    if (this.now() > entry.expiresAt) return 'expired';
+
+    entry.redeemed = true;
+    return 'valid';
+  }
+
+  /**
+   * Drop nonces that can no longer be redeemed
+   * Pruned nonces report 'unknown' afterwards, which is still a rejection.
+   */
+  prune(): number {
+    const now = this.now();
+    let removed = 0;
+    for (const [nonce, entry] of this.issued) {
+      if (entry.redeemed || now > entry.expiresAt) {
+        this.issued.delete(nonce);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Merkle - Keccak-256 Merkle tree matching the on-chain verifier
+ *
+ * Mirrors compute_merkle_root() in contracts/sensor-verification/lib.rs:
+ * - nodes are raw 32-byte keccak hashes (never hex strings)
+ * - leaves are keccak(0x00 || data), inner nodes keccak(0x01 || left || right),
+ *   so a leaf can never be passed off as an inner node
+ * - a level with an odd node count pairs its last node with itself, and that
+ *   duplicate is included in the path so the program consumes one sibling per level
+ *
+ * Pure TypeScript — no Expo modules — so it also runs in Node tests and backends.
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+
+export const MERKLE_LEAF_PREFIX = 0x00;
+export const MERKLE_NODE_PREFIX = 0x01;
+
+export interface MerkleTree {
+  root: Uint8Array;
+  /** levels[0] holds the leaf hashes, the last level holds only the root */
+  levels: Uint8Array[][];
+}
+
+/**
+ * Hash raw leaf data into a level-0 node
+ */
+export function hashLeaf(data: Uint8Array): Uint8Array {
+  return keccak_256(prefixed(MERKLE_LEAF_PREFIX, data));
+}
+
+/**
+ * Hash two child nodes into their parent
+ */
+export function hashNode(left: Uint8Array, right: Uint8Array): Uint8Array {
+  return keccak_256(prefixed(MERKLE_NODE_PREFIX, left, right));
+}
+
+/**
+ * Build a tree over raw leaf data (each item is hashed with hashLeaf)
+ */
+export function buildMerkleTree(leaves: Uint8Array[]): MerkleTree {
+  if (leaves.length === 0) {
+    throw new Error('Cannot create Merkle tree from empty leaves array');
+  }
+
+  const levels: Uint8Array[][] = [leaves.map(hashLeaf)];
+  let current = levels[0];
+
+  while (current.length > 1) {
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      const left = current[i];
+      const right = i + 1 < current.length ? current[i + 1] : left;
+      next.push(hashNode(left, right));
+    }
+    levels.push(next);
+    current = next;
+  }
+
+  return { root: current[0], levels };
+}
+
+/**
+ * Sibling hashes from leaf to root — the `merkle_path` argument of verify_merkle_proof
+ */
+export function getMerklePath(tree: MerkleTree, leafIndex: number): Uint8Array[] {
+  if (leafIndex < 0 || leafIndex >= tree.levels[0].length) {
+    throw new Error(`Leaf index ${leafIndex} out of range`);
+  }
+
+  const path: Uint8Array[] = [];
+  let index = leafIndex;
+
+  for (let level = 0; level < tree.levels.length - 1; level++) {
+    const nodes = tree.levels[level];
+    const siblingIndex = index % 2 === 1 ? index - 1 : index + 1;
+    // Odd level: the last node was paired with itself
+    path.push(siblingIndex < nodes.length ? nodes[siblingIndex] : nodes[index]);
+    index = Math.floor(index / 2);
+  }
+
+  return path;
+}
+
+/**
+ * Fold a path back up to a root, exactly as the program does
+ */
+export function computeMerkleRoot(
+  leafHash: Uint8Array,
+  path: Uint8Array[],
+  leafIndex: number
+): Uint8Array {
+  let current = leafHash;
+  let index = leafIndex;
+
+  for (const sibling of path) {
+    current = index % 2 === 0 ? hashNode(current, sibling) : hashNode(sibling, current);
+    index = Math.floor(index / 2);
+  }
+
+  return current;
+}
+
+/**
+ * Client-side equivalent of the program's verify_merkle_proof instruction
+ */
+export function verifyMerklePath(
+  leafHash: Uint8Array,
+  path: Uint8Array[],
+  leafIndex: number,
+  root: Uint8Array
+): boolean {
+  return bytesEqual(computeMerkleRoot(leafHash, path, leafIndex), root);
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function fromHex(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return out;
+}
+
+function prefixed(prefix: number, ...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(1 + parts.reduce((n, part) => n + part.length, 0));
+  out[0] = prefix;
+  let offset = 1;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
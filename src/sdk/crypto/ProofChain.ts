@@ -0,0 +1,311 @@
+/**
+ * ProofChain - Hash chain across the proofs of one signer on one device
+ *
+ * Every chained proof signs a ChainLink in its context: a sequence number and
+ * the proof ID of the previous proof from the same (public key, device ID).
+ * Deleting, reordering or editing history then breaks the links, which
+ * auditProofChains() reports.
+ *
+ * The head of each chain is persisted locally and only advanced after the
+ * signer succeeds, so a rejected signing request doesn't burn a sequence
+ * number. Proofs that were signed but never stored still show up as gaps —
+ * that is the point.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import {
+  ChainLink,
+  SensorData,
+  SensorMessageVersion,
+  SensorProof,
+  SignatureEnvelope,
+} from '@/src/types';
+import { encodeSensorMessage } from '../encoding/SensorMessage';
+import { encodeSigningPayload } from '../encoding/OffchainMessage';
+import { computeProofId } from './ProofId';
+
+const STORAGE_KEYS = {
+  HEADS: '@depin-go:chain-heads',
+};
+
+export interface ChainHead {
+  sequence: number;
+  proofHash: string;
+}
+
+export type ChainAuditIssueKind = 'gap' | 'fork' | 'edited' | 'broken_link' | 'truncated';
+
+export interface ChainAuditIssue {
+  kind: ChainAuditIssueKind;
+  chainKey: string;
+  sequence: number;
+  proofHash?: string;
+  detail: string;
+}
+
+export interface ChainAuditSummary {
+  chainKey: string;
+  publicKey: string;
+  deviceId: string;
+  proofCount: number;
+  headSequence: number;
+  headProofHash: string;
+}
+
+export interface ChainAuditReport {
+  isIntact: boolean;
+  chains: ChainAuditSummary[];
+  issues: ChainAuditIssue[];
+  unchainedProofs: number;   // proofs created before chaining, or with chaining off
+}
+
+/**
+ * Chains are per signer and per device, so one wallet used on two phones
+ * keeps two independent histories
+ */
+export function getChainKey(publicKey: PublicKey | string, deviceId: string): string {
+  const key = typeof publicKey === 'string' ? publicKey : publicKey.toBase58();
+  return `${key}:${deviceId}`;
+}
+
+export class ProofChain {
+  private heads: Record<string, ChainHead> | null = null;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Attach the next chain links to a batch of sensor readings and sign them
+   *
+   * Runs under a lock so concurrent proofs can't claim the same sequence.
+   * `sign` receives the linked readings with their encoded messages; heads
+   * advance only if it resolves.
+   */
+  async append<T>(
+    publicKey: PublicKey,
+    sensorDataArray: SensorData[],
+    encode: (sensorData: SensorData) => Uint8Array,
+    sign: (linked: SensorData[], messages: Uint8Array[]) => Promise<T>
+  ): Promise<T> {
+    return this.exclusive(async () => {
+      const heads = { ...(await this.loadHeads()) };
+      const linked: SensorData[] = [];
+      const messages: Uint8Array[] = [];
+
+      for (const sensorData of sensorDataArray) {
+        const chainKey = getChainKey(publicKey, sensorData.deviceId);
+        const head = heads[chainKey];
+        const link: ChainLink = head
+          ? { sequence: head.sequence + 1, prevProofHash: head.proofHash }
+          : { sequence: 0, prevProofHash: null };
+
+        const withLink: SensorData = {
+          ...sensorData,
+          context: { ...sensorData.context, chain: link },
+        };
+        const message = encode(withLink);
+
+        linked.push(withLink);
+        messages.push(message);
+        heads[chainKey] = { sequence: link.sequence, proofHash: computeProofId(message) };
+      }
+
+      const result = await sign(linked, messages);
+      await this.saveHeads(heads);
+      return result;
+    });
+  }
+
+  /**
+   * Current head of every chain on this device
+   */
+  async getHeads(): Promise<Record<string, ChainHead>> {
+    return { ...(await this.loadHeads()) };
+  }
+
+  /**
+   * Forget all heads — the next proof of each chain starts again at sequence 0
+   */
+  async reset(): Promise<void> {
+    await this.exclusive(async () => {
+      await AsyncStorage.removeItem(STORAGE_KEYS.HEADS);
+      this.heads = {};
+    });
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(task, task);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
+
+  private async loadHeads(): Promise<Record<string, ChainHead>> {
+    if (this.heads) return this.heads;
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.HEADS);
+      this.heads = data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('Failed to load chain heads:', error);
+      throw error;
+    }
+    return this.heads!;
+  }
+
+  private async saveHeads(heads: Record<string, ChainHead>): Promise<void> {
+    await AsyncStorage.setItem(STORAGE_KEYS.HEADS, JSON.stringify(heads));
+    this.heads = heads;
+  }
+}
+
+/**
+ * Walk an archive and report everything that breaks its chains
+ *
+ * - edited:      stored ID doesn't match the content, or the signature fails
+ * - fork:        two different proofs claim the same sequence
+ * - broken_link: prevProofHash doesn't match the proof before it
+ * - gap:         sequence numbers are missing (including from 0)
+ * - truncated:   a known head (e.g. from the device) is past the archive's end
+ *
+ * Expects revived proofs (real Uint8Array / PublicKey), see reviveProof().
+ */
+export function auditProofChains(
+  proofs: SensorProof[],
+  knownHeads: Record<string, ChainHead> = {}
+): ChainAuditReport {
+  const issues: ChainAuditIssue[] = [];
+  const chains = new Map<string, Map<number, SensorProof[]>>();
+  let unchainedProofs = 0;
+
+  for (const proof of proofs) {
+    const link = proof.sensorData.context?.chain;
+    if (!link) {
+      unchainedProofs++;
+      continue;
+    }
+
+    const chainKey = getChainKey(proof.publicKey, proof.sensorData.deviceId);
+    const bySequence = chains.get(chainKey) ?? new Map<number, SensorProof[]>();
+    chains.set(chainKey, bySequence);
+
+    // The same proof imported twice is not a fork
+    const atSequence = bySequence.get(link.sequence) ?? [];
+    if (!atSequence.some((p) => p.proofHash === proof.proofHash)) {
+      atSequence.push(proof);
+    }
+    bySequence.set(link.sequence, atSequence);
+  }
+
+  const summaries: ChainAuditSummary[] = [];
+
+  for (const [chainKey, bySequence] of chains) {
+    const sequences = [...bySequence.keys()].sort((a, b) => a - b);
+    let expected = 0;
+
+    for (const sequence of sequences) {
+      if (sequence > expected) {
+        issues.push({
+          kind: 'gap',
+          chainKey,
+          sequence: expected,
+          detail: `Missing sequence ${expected}${sequence - 1 > expected ? `–${sequence - 1}` : ''}`,
+        });
+      }
+      expected = sequence + 1;
+
+      const candidates = bySequence.get(sequence)!;
+      if (candidates.length > 1) {
+        issues.push({
+          kind: 'fork',
+          chainKey,
+          sequence,
+          detail: `${candidates.length} different proofs claim sequence ${sequence}`,
+        });
+      }
+
+      const previous = bySequence.get(sequence - 1);
+      for (const proof of candidates) {
+        const editDetail = checkIntegrity(proof);
+        if (editDetail) {
+          issues.push({ kind: 'edited', chainKey, sequence, proofHash: proof.proofHash, detail: editDetail });
+        }
+
+        // A missing predecessor is already reported as a gap
+        const prevProofHash = proof.sensorData.context!.chain!.prevProofHash;
+        const linksBack = sequence === 0
+          ? prevProofHash === null
+          : !previous || previous.some((p) => p.proofHash === prevProofHash);
+        if (!linksBack) {
+          issues.push({
+            kind: 'broken_link',
+            chainKey,
+            sequence,
+            proofHash: proof.proofHash,
+            detail: `prevProofHash does not match the proof at sequence ${sequence - 1}`,
+          });
+        }
+      }
+    }
+
+    const headSequence = sequences[sequences.length - 1];
+    const headProofHash = bySequence.get(headSequence)![0].proofHash;
+    const [publicKey, ...deviceParts] = chainKey.split(':');
+
+    const known = knownHeads[chainKey];
+    if (known && known.sequence > headSequence) {
+      issues.push({
+        kind: 'truncated',
+        chainKey,
+        sequence: headSequence + 1,
+        detail: `Archive ends at ${headSequence} but the chain head is at ${known.sequence}`,
+      });
+    }
+
+    summaries.push({
+      chainKey,
+      publicKey,
+      deviceId: deviceParts.join(':'),
+      proofCount: [...bySequence.values()].reduce((n, list) => n + list.length, 0),
+      headSequence,
+      headProofHash,
+    });
+  }
+
+  return {
+    isIntact: issues.length === 0,
+    chains: summaries,
+    issues,
+    unchainedProofs,
+  };
+}
+
+/**
+ * Returns why a proof looks edited, or null if it is intact
+ */
+function checkIntegrity(proof: SensorProof): string | null {
+  let message: Uint8Array;
+  try {
+    message = encodeSensorMessage(proof.sensorData, proof.messageVersion ?? SensorMessageVersion.LEGACY);
+  } catch (error) {
+    return `Cannot re-encode proof: ${error instanceof Error ? error.message : error}`;
+  }
+
+  if (computeProofId(message) !== proof.proofHash) {
+    return 'Proof ID does not match its content';
+  }
+
+  try {
+    const signedBytes = encodeSigningPayload(message, proof.envelope ?? SignatureEnvelope.RAW);
+    if (!nacl.sign.detached.verify(signedBytes, proof.signature, proof.publicKey.toBytes())) {
+      return 'Signature does not match its content';
+    }
+  } catch {
+    return 'Signature could not be checked';
+  }
+
+  return null;
+}
+
+/**
+ * Singleton instance for app-wide use
+ */
+export const proofChain = new ProofChain();
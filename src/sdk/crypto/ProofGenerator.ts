@@ -1,19 +1,110 @@
-import { PublicKey } from '@solana/web3.js';
-import { SeedVaultSigner } from './SeedVaultSigner';
-import { SensorData, SensorProof, SensorType } from '@/src/types';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { Signer } from './Signer';
+import {
+  RootSignedBundle,
+  SensorData,
+  SensorMessageVersion,
+  SensorProof,
+  SensorType,
+  SignatureEnvelope,
+} from '@/src/types';
+import {
+  CURRENT_SENSOR_MESSAGE_VERSION,
+  encodeSensorMessage,
+} from '../encoding/SensorMessage';
+import { CURRENT_SIGNATURE_ENVELOPE, encodeSigningPayload } from '../encoding/OffchainMessage';
 import bs58 from 'bs58';
 import nacl from 'tweetnacl';
-import * as Crypto from 'expo-crypto';
+import {
+  buildMerkleTree,
+  fromHex,
+  getMerklePath,
+  toHex,
+  verifyMerklePath,
+} from './Merkle';
+import { computeProofId, proofIdToBytes } from './ProofId';
+import { ProofChain, proofChain } from './ProofChain';
+import { ChallengeSource } from './ChallengeSource';
+import { fetchTimeWitness } from './TimeWitness';
+import { buildBundle, createBundleMessage } from './RootSignedBundle';
+import { commitSensorData } from './SelectiveDisclosure';
+import type { DeviceIdentity } from '../identity/DeviceIdentity';
 
 /**
  * ProofGenerator - Creates cryptographically signed proofs of sensor data
  * These proofs can be verified on-chain to confirm data authenticity
  */
-export class ProofGenerator {
-  private signer: SeedVaultSigner;
+export interface ProofGeneratorOptions {
+  /**
+   * Message encoding to sign with. Defaults to canonical JSON; use
+   * SensorMessageVersion.BORSH for proofs that will be submitted on-chain.
+   */
+  messageVersion?: SensorMessageVersion;
+  /**
+   * How messages are framed for the signer. Defaults to the Solana off-chain
+   * message envelope; SignatureEnvelope.RAW signs the bare message bytes.
+   * BORSH proofs are always signed RAW: the program checks the signature
+   * against the message it rebuilds, not an envelope around it.
+   */
+  envelope?: SignatureEnvelope;
+  /**
+   * Hash chain each proof joins (see ProofChain.ts). Defaults to the shared
+   * app-wide chain; pass null to sign unchained proofs.
+   */
+  chain?: ProofChain | null;
+  /**
+   * When set, every proof signs a fresh verifier nonce (see ChallengeSource.ts)
+   */
+  challengeSource?: ChallengeSource;
+  /**
+   * When set, every proof signs the current slot and a recent blockhash
+   * from this connection (see TimeWitness.ts)
+   */
+  timeWitness?: { connection: Connection };
+  /**
+   * When set, each reading's deviceId is replaced with this install's ID and
+   * the device attestation is signed along with it (see DeviceIdentity.ts)
+   */
+  deviceIdentity?: DeviceIdentity;
+  /**
+   * Sign salted commitments instead of the data fields, so the holder can
+   * later reveal only chosen fields (see SelectiveDisclosure.ts). Requires
+   * canonical JSON messages.
+   */
+  commitFields?: boolean;
+}
 
-  constructor(signer: SeedVaultSigner) {
+export class ProofGenerator {
+  private signer: Signer;
+  private messageVersion: SensorMessageVersion;
+  private envelope: SignatureEnvelope;
+  private chain: ProofChain | null;
+  private challengeSource?: ChallengeSource;
+  private timeWitness?: { connection: Connection };
+  private deviceIdentity?: DeviceIdentity;
+  private commitFields: boolean;
+
+  constructor(signer: Signer, options: ProofGeneratorOptions = {}) {
     this.signer = signer;
+    this.messageVersion = options.messageVersion ?? CURRENT_SENSOR_MESSAGE_VERSION;
+    const onChain = this.messageVersion === SensorMessageVersion.BORSH;
+    this.envelope = options.envelope ?? (onChain ? SignatureEnvelope.RAW : CURRENT_SIGNATURE_ENVELOPE);
+    if (onChain && this.envelope !== SignatureEnvelope.RAW) {
+      throw new Error('BORSH proofs must be signed RAW — the program verifies the bare message');
+    }
+    // Legacy messages have no room for a chain link
+    this.chain = this.messageVersion === SensorMessageVersion.LEGACY
+      ? null
+      : options.chain === undefined ? proofChain : options.chain;
+    this.challengeSource = options.challengeSource;
+    this.timeWitness = options.timeWitness;
+    this.deviceIdentity = options.deviceIdentity;
+    this.commitFields = options.commitFields ?? false;
+
+    // BORSH payloads need the real fields and LEGACY has no context to hold commitments
+    if (this.commitFields && this.messageVersion !== SensorMessageVersion.CANONICAL_JSON) {
+      throw new Error('Field commitments require canonical JSON messages');
+    }
   }
 
   /**
@@ -25,48 +116,139 @@ export class ProofGenerator {
       throw new Error('Signer not authorized. Call authorize() first.');
     }
 
-    // Sign the sensor data with Seed Vault
-    const { signature, publicKey, messageHash } = await this.signer.signSensorData({
-      type: sensorData.type,
-      timestamp: sensorData.timestamp,
-      data: sensorData.data,
-      deviceId: sensorData.deviceId,
+    const [proof] = await this.signLinked([sensorData], async ([messageBytes]) => {
+      // Sign the sensor data with whichever signer was plugged in
+      const { signature, publicKey } = await this.signer.signData(messageBytes);
+      return { signatures: [signature], publicKey };
     });
-
-    // Create the proof object
-    const proof: SensorProof = {
-      sensorData,
-      signature,
-      publicKey,
-      proofHash: messageHash,
-    };
-
     return proof;
   }
 
   /**
    * Generate a batch of proofs efficiently
-   * Useful for submitting multiple sensor readings at once
+   * All messages are signed in a single signer session (one wallet popup
+   * for Seed Vault) instead of one session per reading
    */
   async generateBatchProofs(sensorDataArray: SensorData[]): Promise<SensorProof[]> {
-    const proofs: SensorProof[] = [];
-
-    for (const sensorData of sensorDataArray) {
-      try {
-        const proof = await this.generateProof(sensorData);
-        proofs.push(proof);
-      } catch (error) {
-        console.error(`Failed to generate proof for ${sensorData.type}:`, error);
-        // Continue with other proofs
+    if (sensorDataArray.length === 0) return [];
+
+    if (!this.signer.isAuthorized()) {
+      throw new Error('Signer not authorized. Call authorize() first.');
+    }
+
+    return this.signLinked(sensorDataArray, (messages) => this.signer.signDataBatch(messages));
+  }
+
+  /**
+   * Attach context, commit fields (if enabled), encode, link into the hash
+   * chain (if enabled), wrap in the signature envelope and sign
+   * The chain head only advances once the signer has returned, and only if
+   * it signed with the key the links were built for. Proof IDs stay the hash
+   * of the bare message, so they match the program's.
+   */
+  private async signLinked(
+    sensorDataArray: SensorData[],
+    sign: (messages: Uint8Array[]) => Promise<{ signatures: Uint8Array[]; publicKey: PublicKey }>
+  ): Promise<SensorProof[]> {
+    const encode = (sensorData: SensorData) => encodeSensorMessage(sensorData, this.messageVersion);
+
+    const withContext = await this.attachContext(sensorDataArray);
+    const committed = this.commitFields ? withContext.map(commitSensorData) : null;
+    const toSign = committed ? committed.map((c) => c.committed) : withContext;
+
+    const signAll = async (linked: SensorData[], messages: Uint8Array[], expectedKey?: PublicKey) => {
+      const { signatures, publicKey } = await sign(
+        messages.map((message) => encodeSigningPayload(message, this.envelope))
+      );
+      if (expectedKey && !publicKey.equals(expectedKey)) {
+        throw new Error('Signer key changed while signing a chained proof');
       }
+      return linked.map((sensorData, i) => ({
+        ...this.assembleProof(sensorData, messages[i], signatures[i], publicKey),
+        ...(committed && { openings: committed[i].openings }),
+      }));
+    };
+
+    if (!this.chain) {
+      return signAll(toSign, toSign.map(encode));
     }
 
-    return proofs;
+    const chainKey = this.signer.getPublicKey();
+    if (!chainKey) {
+      throw new Error('Signer not authorized. Call authorize() first.');
+    }
+    return this.chain.append(chainKey, toSign, encode, (linked, messages) =>
+      signAll(linked, messages, chainKey)
+    );
+  }
+
+  /**
+   * Add the signer kind, plus the delegation claim, challenge, time witness
+   * and device attestation if enabled
+   * One nonce per reading — a nonce is redeemed once, so proofs in a batch
+   * can't share one. The witness and attestation are fetched once per signing.
+   * Delegated proofs attest the device registered to the delegating wallet.
+   * Legacy messages carry no context, so their signer kind stays unsigned.
+   */
+  private async attachContext(sensorDataArray: SensorData[]): Promise<SensorData[]> {
+    const source = this.challengeSource;
+    const identity = this.deviceIdentity;
+    const delegated = !!this.signer.claimDelegation;
+    const signKind = this.messageVersion !== SensorMessageVersion.LEGACY;
+    if (!signKind && !source && !this.timeWitness && !identity && !delegated) return sensorDataArray;
+
+    const claims = this.signer.claimDelegation
+      ? await this.signer.claimDelegation(sensorDataArray)
+      : undefined;
+    const authority = claims?.length
+      ? new PublicKey(claims[0].certificate.wallet)
+      : this.signer.getPublicKey();
+
+    const [challenges, timeWitness, device] = await Promise.all([
+      source ? Promise.all(sensorDataArray.map(() => source.getChallenge())) : undefined,
+      this.timeWitness ? fetchTimeWitness(this.timeWitness.connection) : undefined,
+      identity ? identity.getAttestation(authority) : undefined,
+    ]);
+
+    return sensorDataArray.map((sensorData, i) => ({
+      ...sensorData,
+      ...(device && { deviceId: device.installId }),
+      context: {
+        ...sensorData.context,
+        ...(signKind && { signerKind: this.signer.kind }),
+        ...(claims && { delegation: claims[i] }),
+        ...(challenges && { challenge: challenges[i] }),
+        ...(timeWitness && { timeWitness }),
+        ...(device && { device }),
+      },
+    }));
+  }
+
+  /**
+   * Create the proof object from a signed message
+   */
+  private assembleProof(
+    sensorData: SensorData,
+    messageBytes: Uint8Array,
+    signature: Uint8Array,
+    publicKey: PublicKey
+  ): SensorProof {
+    return {
+      sensorData,
+      signature,
+      publicKey,
+      proofHash: computeProofId(messageBytes),
+      signerKind: this.signer.kind,
+      messageVersion: this.messageVersion,
+      envelope: this.envelope,
+    };
   }
 
   /**
    * Create a Merkle tree of proofs for efficient on-chain verification
-   * Allows verifying many proofs with a single root hash
+   * Allows verifying many proofs with a single root hash.
+   * Hashes are hex-encoded 32-byte keccak nodes (see Merkle.ts); proofs must
+   * carry current proof IDs (see ProofId.ts).
    */
   async createMerkleRoot(proofs: SensorProof[]): Promise<{
     root: string;
@@ -76,71 +258,39 @@ export class ProofGenerator {
       throw new Error('Cannot create Merkle tree from empty proofs array');
     }
 
-    // Create leaf hashes from proofs
-    const leaves = await Promise.all(
-      proofs.map(async (proof) => {
-        const proofData = this.serializeProof(proof);
-        const hash = await Crypto.digestStringAsync(
-          Crypto.CryptoDigestAlgorithm.SHA256,
-          proofData
-        );
-        return hash;
-      })
-    );
-
-    // Build Merkle tree
-    const tree: string[][] = [leaves];
-    let currentLevel = leaves;
-
-    while (currentLevel.length > 1) {
-      const nextLevel: string[] = [];
-
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        const left = currentLevel[i];
-        const right = i + 1 < currentLevel.length ? currentLevel[i + 1] : left;
-
-        const combined = left + right;
-        const hash = await Crypto.digestStringAsync(
-          Crypto.CryptoDigestAlgorithm.SHA256,
-          combined
-        );
-
-        nextLevel.push(hash);
-      }
-
-      tree.push(nextLevel);
-      currentLevel = nextLevel;
-    }
+    // Leaves are keccak(0x00 || proof ID bytes); nodes follow the program's layout
+    const leaves = proofs.map((proof) => proofIdToBytes(proof.proofHash));
+    const { root, levels } = buildMerkleTree(leaves);
 
     return {
-      root: currentLevel[0],
-      tree,
+      root: toHex(root),
+      tree: levels.map((level) => level.map(toHex)),
     };
   }
 
   /**
    * Generate a Merkle proof for a specific sensor proof
-   * This allows on-chain verification without submitting all proofs
+   * This allows on-chain verification without submitting all proofs.
+   * The path always holds one sibling per level, as verify_merkle_proof expects.
    */
   getMerkleProofPath(
     proofIndex: number,
     tree: string[][]
   ): string[] {
-    const path: string[] = [];
-    let index = proofIndex;
-
-    for (let level = 0; level < tree.length - 1; level++) {
-      const isRightNode = index % 2 === 1;
-      const siblingIndex = isRightNode ? index - 1 : index + 1;
-
-      if (siblingIndex < tree[level].length) {
-        path.push(tree[level][siblingIndex]);
-      }
-
-      index = Math.floor(index / 2);
-    }
+    const levels = tree.map((level) => level.map(fromHex));
+    return getMerklePath({ root: levels[levels.length - 1][0], levels }, proofIndex).map(toHex);
+  }
 
-    return path;
+  /**
+   * Check a path from getMerkleProofPath() against a root, off-chain
+   */
+  verifyMerkleProofPath(
+    leafHash: string,
+    path: string[],
+    proofIndex: number,
+    root: string
+  ): boolean {
+    return verifyMerklePath(fromHex(leafHash), path.map(fromHex), proofIndex, fromHex(root));
   }
 
   /**
@@ -202,6 +352,10 @@ export class ProofGenerator {
       signature: bs58.encode(proof.signature),
       publicKey: proof.publicKey.toBase58(),
       proofHash: proof.proofHash,
+      legacyProofHash: proof.legacyProofHash,
+      signerKind: proof.signerKind,
+      messageVersion: proof.messageVersion,
+      envelope: proof.envelope,
     });
   }
 
@@ -216,6 +370,10 @@ export class ProofGenerator {
       signature: bs58.decode(parsed.signature),
       publicKey: new PublicKey(parsed.publicKey),
       proofHash: parsed.proofHash,
+      legacyProofHash: parsed.legacyProofHash,
+      signerKind: parsed.signerKind,
+      messageVersion: parsed.messageVersion,
+      envelope: parsed.envelope,
     };
   }
 
@@ -224,15 +382,17 @@ export class ProofGenerator {
    */
   async verifyProofLocally(proof: SensorProof): Promise<boolean> {
     try {
-      // Recreate the message
-      const message = this.createMessage(proof.sensorData);
-      const messageBytes = new TextEncoder().encode(message);
+      // Recreate the message with the encoding it was signed with
+      const messageBytes = encodeSensorMessage(
+        proof.sensorData,
+        proof.messageVersion ?? SensorMessageVersion.LEGACY
+      );
 
-      // Verify signature
-      return this.signer.verifySignature(
-        messageBytes,
+      // Verify signature over the envelope it was signed in
+      return nacl.sign.detached.verify(
+        encodeSigningPayload(messageBytes, proof.envelope ?? SignatureEnvelope.RAW),
         proof.signature,
-        proof.publicKey
+        proof.publicKey.toBytes()
       );
     } catch (error) {
       console.error('Local verification failed:', error);
@@ -240,14 +400,6 @@ export class ProofGenerator {
     }
   }
 
-  /**
-   * Create message from sensor data (must match SeedVaultSigner logic)
-   */
-  private createMessage(sensorData: SensorData): string {
-    const dataJson = JSON.stringify(sensorData.data, Object.keys(sensorData.data).sort());
-    return `${sensorData.type}|${sensorData.timestamp}|${dataJson}|${sensorData.deviceId}`;
-  }
-
   /**
    * Create a proof bundle for efficient submission
    * Combines multiple proofs with Merkle root for gas optimization
@@ -267,11 +419,41 @@ export class ProofGenerator {
       timestamp: Date.now(),
     };
   }
+
+  /**
+   * Prove a batch of unsigned readings with a single signature
+   * Leaves are the readings' proof IDs; only the Merkle root and manifest are
+   * signed (see RootSignedBundle.ts). Readings get the same context as
+   * individual proofs but don't join the hash chain.
+   */
+  async generateRootSignedBundle(sensorDataArray: SensorData[]): Promise<RootSignedBundle> {
+    if (!this.signer.isAuthorized()) {
+      throw new Error('Signer not authorized. Call authorize() first.');
+    }
+
+    const withContext = await this.attachContext(sensorDataArray);
+    const { manifest, readings } = buildBundle(withContext, this.messageVersion);
+    const { signature, publicKey } = await this.signer.signData(
+      encodeSigningPayload(createBundleMessage(manifest), this.envelope)
+    );
+
+    return {
+      manifest,
+      signature,
+      publicKey,
+      signerKind: this.signer.kind,
+      envelope: this.envelope,
+      readings,
+    };
+  }
 }
 
 /**
  * Factory function to create a configured ProofGenerator
  */
-export function createProofGenerator(signer: SeedVaultSigner): ProofGenerator {
-  return new ProofGenerator(signer);
+export function createProofGenerator(
+  signer: Signer,
+  options?: ProofGeneratorOptions
+): ProofGenerator {
+  return new ProofGenerator(signer, options);
 }
\ No newline at end of file
@@ -0,0 +1,77 @@
+/**
+ * ProofId - The one identifier every layer uses for a proof
+ *
+ *   proofId = base58(keccak256(signed message bytes))
+ *
+ * - the message bytes are exactly what was signed, i.e.
+ *   encodeSensorMessage(sensorData, messageVersion), so the ID is
+ *   content-addressed and anyone holding the proof can recompute it
+ * - keccak256 is what the program can hash cheaply: for BORSH proofs the
+ *   program derives the same 32 bytes from create_message() and stores them
+ *   as ProofAccount.proof_id
+ * - the raw 32 bytes are the Merkle leaf data for batch submissions
+ *
+ * Stored as SensorProof.proofHash. Proofs created before this scheme carried
+ * bs58(SHA-512(message)); ProofStorage.migrateProofIds() rewrites those and
+ * keeps the old value as legacyProofHash.
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import { SensorMessageVersion, SensorProof } from '@/src/types';
+import { encodeSensorMessage } from '../encoding/SensorMessage';
+
+export const PROOF_ID_LENGTH = 32;
+
+/**
+ * Derive the proof ID from signed message bytes
+ */
+export function computeProofId(messageBytes: Uint8Array): string {
+  return bs58.encode(keccak_256(messageBytes));
+}
+
+/**
+ * Recompute the ID a proof should carry from its sensor data
+ */
+export function deriveProofId(
+  proof: Pick<SensorProof, 'sensorData' | 'messageVersion'>
+): string {
+  return computeProofId(
+    encodeSensorMessage(proof.sensorData, proof.messageVersion ?? SensorMessageVersion.LEGACY)
+  );
+}
+
+/**
+ * The ID a proof carried before this scheme: bs58(SHA-512(message)).
+ * Only a proof whose stored hash equals this may be migrated.
+ */
+export function deriveLegacyProofId(
+  proof: Pick<SensorProof, 'sensorData' | 'messageVersion'>
+): string {
+  return bs58.encode(
+    nacl.hash(encodeSensorMessage(proof.sensorData, proof.messageVersion ?? SensorMessageVersion.LEGACY))
+  );
+}
+
+/**
+ * Raw 32-byte form, as stored on-chain and used for Merkle leaves
+ */
+export function proofIdToBytes(proofId: string): Uint8Array {
+  const bytes = bs58.decode(proofId);
+  if (bytes.length !== PROOF_ID_LENGTH) {
+    throw new Error(`Invalid proof ID: expected ${PROOF_ID_LENGTH} bytes, got ${bytes.length}`);
+  }
+  return bytes;
+}
+
+/**
+ * True when the proof's stored ID matches its content under the current scheme
+ */
+export function hasValidProofId(proof: SensorProof): boolean {
+  try {
+    return proof.proofHash === deriveProofId(proof);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * RootSignedBundle - One wallet signature for a whole batch of readings
+ *
+ * createProofBundle() builds a Merkle root over proofs that were each signed
+ * already. Here readings stay unsigned: each one's canonical message becomes a
+ * leaf (its proof ID, exactly as for a signed proof), and the wallet signs only
+ * the root plus a manifest describing the batch. Every reading keeps its
+ * inclusion path, so it can be cut out of the bundle and verified on its own.
+ *
+ * N readings cost one signature instead of N, which is what makes
+ * high-frequency sensors like the accelerometer affordable to prove.
+ */
+
+import nacl from 'tweetnacl';
+import {
+  BundledReading,
+  BundledReadingProof,
+  BundleManifest,
+  RootSignedBundle,
+  SensorData,
+  SensorMessageVersion,
+  SensorProof,
+  SignatureEnvelope,
+} from '@/src/types';
+import { canonicalize } from '../encoding/CanonicalJson';
+import { encodeSensorMessage } from '../encoding/SensorMessage';
+import { encodeSigningPayload } from '../encoding/OffchainMessage';
+import { buildMerkleTree, fromHex, getMerklePath, hashLeaf, toHex, verifyMerklePath } from './Merkle';
+import { computeProofId, proofIdToBytes } from './ProofId';
+import { DelegationVerifyOptions, verifyDelegation } from './Delegation';
+
+const BUNDLE_PREFIX = 'depin-go:bundle:v1:';
+
+/**
+ * Bytes the wallet signs for a bundle
+ */
+export function createBundleMessage(manifest: BundleManifest): Uint8Array {
+  return new TextEncoder().encode(`${BUNDLE_PREFIX}${canonicalize(manifest)}`);
+}
+
+/**
+ * Build the Merkle tree over unsigned readings
+ * Returns the manifest to sign and the readings with their inclusion paths.
+ */
+export function buildBundle(
+  sensorDataArray: SensorData[],
+  messageVersion: SensorMessageVersion,
+  createdAt: number = Date.now()
+): {
+  manifest: BundleManifest;
+  readings: BundledReading[];
+} {
+  if (sensorDataArray.length === 0) {
+    throw new Error('Cannot create a bundle from an empty readings array');
+  }
+
+  const proofIds = sensorDataArray.map((sensorData) =>
+    computeProofId(encodeSensorMessage(sensorData, messageVersion))
+  );
+  const tree = buildMerkleTree(proofIds.map(proofIdToBytes));
+  const timestamps = sensorDataArray.map((sensorData) => sensorData.timestamp);
+
+  return {
+    manifest: {
+      root: toHex(tree.root),
+      count: sensorDataArray.length,
+      sensorTypes: [...new Set(sensorDataArray.map((sensorData) => sensorData.type))].sort(),
+      startTime: Math.min(...timestamps),
+      endTime: Math.max(...timestamps),
+      createdAt,
+      messageVersion,
+    },
+    readings: sensorDataArray.map((sensorData, i) => ({
+      sensorData,
+      proofId: proofIds[i],
+      merklePath: getMerklePath(tree, i).map(toHex),
+    })),
+  };
+}
+
+/**
+ * Cut one reading out of a bundle together with what it needs to be verified
+ */
+export function getBundledReadingProof(
+  bundle: RootSignedBundle,
+  leafIndex: number
+): BundledReadingProof {
+  const reading = bundle.readings[leafIndex];
+  if (!reading) {
+    throw new Error(`Leaf index ${leafIndex} out of range`);
+  }
+
+  return {
+    ...reading,
+    leafIndex,
+    manifest: bundle.manifest,
+    signature: bundle.signature,
+    publicKey: bundle.publicKey,
+    signerKind: bundle.signerKind,
+    envelope: bundle.envelope,
+  };
+}
+
+/**
+ * Verify a single reading: its proof ID, its path to the root and the
+ * signature over the manifest. Delegated readings also need a valid certificate.
+ */
+export function verifyBundledReading(
+  readingProof: BundledReadingProof,
+  options: DelegationVerifyOptions = {}
+): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const { manifest, sensorData } = readingProof;
+
+  if (!verifyManifestSignature(readingProof)) {
+    errors.push('Bundle signature does not match the manifest and public key');
+  }
+
+  if (!Number.isInteger(readingProof.leafIndex)
+    || readingProof.leafIndex < 0
+    || readingProof.leafIndex >= manifest.count) {
+    errors.push(`Leaf index ${readingProof.leafIndex} is outside a bundle of ${manifest.count}`);
+  }
+
+  if (sensorData.timestamp < manifest.startTime || sensorData.timestamp > manifest.endTime) {
+    errors.push('Reading timestamp is outside the bundle\'s time range');
+  }
+
+  if (!manifest.sensorTypes.includes(sensorData.type)) {
+    errors.push(`Bundle does not declare ${sensorData.type} readings`);
+  }
+
+  let proofId: string | null = null;
+  try {
+    proofId = computeProofId(encodeSensorMessage(sensorData, manifest.messageVersion));
+  } catch (error) {
+    errors.push(`Cannot rebuild reading message: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (proofId !== null) {
+    if (proofId !== readingProof.proofId) {
+      errors.push('Proof ID does not match the reading');
+    }
+    try {
+      const included = verifyMerklePath(
+        hashLeaf(proofIdToBytes(proofId)),
+        readingProof.merklePath.map(fromHex),
+        readingProof.leafIndex,
+        fromHex(manifest.root)
+      );
+      if (!included) errors.push('Merkle path does not lead to the signed root');
+    } catch (error) {
+      errors.push(`Merkle path could not be checked: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (sensorData.context?.delegation) {
+    const { errors: delegationErrors } = verifyDelegation(asProof(readingProof, proofId ?? ''), options);
+    errors.push(...delegationErrors);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Verify a whole bundle: the manifest signature, the count and every reading
+ * Errors are prefixed with the reading's leaf index.
+ */
+export function verifyRootSignedBundle(
+  bundle: RootSignedBundle,
+  options: DelegationVerifyOptions = {}
+): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!verifyManifestSignature(bundle)) {
+    errors.push('Bundle signature does not match the manifest and public key');
+  }
+
+  if (bundle.readings.length !== bundle.manifest.count) {
+    errors.push(`Manifest declares ${bundle.manifest.count} readings, bundle holds ${bundle.readings.length}`);
+  }
+
+  bundle.readings.forEach((_, leafIndex) => {
+    const result = verifyBundledReading(getBundledReadingProof(bundle, leafIndex), options);
+    for (const error of result.errors) {
+      // Reported once above, not per reading
+      if (error.startsWith('Bundle signature')) continue;
+      errors.push(`#${leafIndex}: ${error}`);
+    }
+  });
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+function verifyManifestSignature(
+  signed: Pick<RootSignedBundle, 'manifest' | 'signature' | 'publicKey' | 'envelope'>
+): boolean {
+  try {
+    return nacl.sign.detached.verify(
+      encodeSigningPayload(createBundleMessage(signed.manifest), signed.envelope ?? SignatureEnvelope.RAW),
+      signed.signature,
+      signed.publicKey.toBytes()
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Shape a reading like a proof for checks that only need its data and signer
+ */
+function asProof(readingProof: BundledReadingProof, proofId: string): SensorProof {
+  return {
+    sensorData: readingProof.sensorData,
+    signature: readingProof.signature,
+    publicKey: readingProof.publicKey,
+    proofHash: proofId,
+    signerKind: readingProof.signerKind,
+    messageVersion: readingProof.manifest.messageVersion,
+    envelope: readingProof.envelope,
+  };
+}
@@ -1,9 +1,13 @@
-import { transact } from '@solana-mobile/mobile-wallet-adapter-protocol-web3js';
+import { transact, Web3MobileWallet } from '@solana-mobile/mobile-wallet-adapter-protocol-web3js';
 import { PublicKey } from '@solana/web3.js';
 import nacl from 'tweetnacl';
-import bs58 from 'bs58';
 import { toByteArray } from 'react-native-quick-base64';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SensorData, SignerKind } from '@/src/types';
+import { encodeSensorMessage } from '../encoding/SensorMessage';
+import { Signer } from './Signer';
+import { computeProofId } from './ProofId';
+import { encodeSigningPayload } from '../encoding/OffchainMessage';
 
 const AUTH_TOKEN_KEY = '@depin-go:auth_token';
 
@@ -13,7 +17,9 @@ const APP_IDENTITY = {
   icon: 'favicon.ico',
 };
 
-export class SeedVaultSigner {
+export class SeedVaultSigner implements Signer {
+  readonly kind = SignerKind.SEED_VAULT;
+
   private authorizedPublicKey: PublicKey | null = null;
   private authToken: string | null = null;
   private base64Address: string | null = null;
@@ -88,16 +94,7 @@ export class SeedVaultSigner {
 
     try {
       const result = await transact(async (wallet) => {
-        // ✅ MUST reauthorize inside every transact() before signing
-        // Without this, MWA throws -1/auth_token not valid for signing
-        const reauth = await wallet.reauthorize({
-          auth_token: this.authToken!,
-          identity: APP_IDENTITY,
-        });
-
-        // Persist the refreshed token so future sessions stay valid
-        this.authToken = reauth.auth_token;
-        await AsyncStorage.setItem(AUTH_TOKEN_KEY, reauth.auth_token);
+        await this.reauthorizeSession(wallet);
 
         const signatures = await wallet.signMessages({
           addresses: [this.base64Address!],
@@ -117,20 +114,97 @@ export class SeedVaultSigner {
     }
   }
 
-  async signSensorData(sensorData: {
-    type: string;
-    timestamp: number;
-    data: any;
-    deviceId: string;
-  }): Promise<{
+  /**
+   * Sign many payloads inside a single transact() session.
+   * Payloads are split into chunks of the wallet's max_messages_per_request,
+   * so a 20-reading batch costs one session instead of 20 wallet popups.
+   */
+  async signDataBatch(payloads: Uint8Array[]): Promise<{
+    signatures: Uint8Array[];
+    publicKey: PublicKey;
+  }> {
+    if (!this.authorizedPublicKey || !this.authToken || !this.base64Address) {
+      throw new Error('Not authorized. Call authorize() first.');
+    }
+
+    if (payloads.length === 0) {
+      return { signatures: [], publicKey: this.authorizedPublicKey };
+    }
+
+    try {
+      const signatures = await transact(async (wallet) => {
+        await this.reauthorizeSession(wallet);
+
+        const chunkSize = await this.getMaxMessagesPerRequest(wallet, payloads.length);
+        const collected: Uint8Array[] = [];
+
+        for (let i = 0; i < payloads.length; i += chunkSize) {
+          const chunk = payloads.slice(i, i + chunkSize);
+          const signed = await wallet.signMessages({
+            addresses: [this.base64Address!],
+            payloads: chunk,
+          });
+
+          if (signed.length !== chunk.length) {
+            throw new Error(`Wallet returned ${signed.length} signatures for ${chunk.length} payloads`);
+          }
+          collected.push(...signed);
+        }
+
+        return collected;
+      });
+
+      return {
+        signatures,
+        publicKey: this.authorizedPublicKey!,
+      };
+    } catch (error) {
+      console.error('Batch signing failed:', error);
+      throw new Error(`Failed to sign batch: ${error}`);
+    }
+  }
+
+  /**
+   * ✅ MUST reauthorize inside every transact() before signing
+   * Without this, MWA throws -1/auth_token not valid for signing
+   */
+  private async reauthorizeSession(wallet: Web3MobileWallet): Promise<void> {
+    const reauth = await wallet.reauthorize({
+      auth_token: this.authToken!,
+      identity: APP_IDENTITY,
+    });
+
+    // Persist the refreshed token so future sessions stay valid
+    this.authToken = reauth.auth_token;
+    await AsyncStorage.setItem(AUTH_TOKEN_KEY, reauth.auth_token);
+  }
+
+  /**
+   * The wallet's reported per-request message limit. Wallets that don't
+   * report one (or don't support get_capabilities) get the whole batch at once.
+   */
+  private async getMaxMessagesPerRequest(
+    wallet: Web3MobileWallet,
+    batchSize: number
+  ): Promise<number> {
+    try {
+      const capabilities = await wallet.getCapabilities();
+      const max = capabilities.max_messages_per_request;
+      return max && max > 0 ? max : batchSize;
+    } catch {
+      return batchSize;
+    }
+  }
+
+  async signSensorData(sensorData: SensorData): Promise<{
     signature: Uint8Array;
     publicKey: PublicKey;
     messageHash: string;
   }> {
-    const message = this.createSensorMessage(sensorData);
-    const messageBytes = new TextEncoder().encode(message);
-    const { signature, publicKey } = await this.signData(messageBytes);
-    const messageHash = bs58.encode(nacl.hash(messageBytes));
+    const messageBytes = encodeSensorMessage(sensorData);
+    // Signed in the off-chain message envelope, like ProofGenerator's proofs
+    const { signature, publicKey } = await this.signData(encodeSigningPayload(messageBytes));
+    const messageHash = computeProofId(messageBytes);
 
     return { signature, publicKey, messageHash };
   }
@@ -147,19 +221,6 @@ export class SeedVaultSigner {
     }
   }
 
-  private createSensorMessage(sensorData: {
-    type: string;
-    timestamp: number;
-    data: any;
-    deviceId: string;
-  }): string {
-    const dataJson = JSON.stringify(
-      sensorData.data,
-      Object.keys(sensorData.data).sort()
-    );
-    return `${sensorData.type}|${sensorData.timestamp}|${dataJson}|${sensorData.deviceId}`;
-  }
-
   getPublicKey(): PublicKey | null {
     return this.authorizedPublicKey;
   }
@@ -0,0 +1,198 @@
+/**
+ * SelectiveDisclosure - Prove some fields of a reading without revealing the rest
+ *
+ * Before signing, every field of SensorData.data is replaced by a salted
+ * commitment in context.commitments and `data` is left empty:
+ *
+ *   digest = base58(keccak256(canonicalJSON([salt, path, value])))
+ *
+ * Nested objects are committed per leaf, so `address.city` can be revealed
+ * without `address.postalCode`. The holder keeps the salts and values
+ * (SensorProof.openings); a disclosure hands over the openings of chosen
+ * fields only, and the verifier recomputes their digests under the signature.
+ * The random salt stops anyone from brute-forcing a hidden field from its digest.
+ *
+ * Field names stay visible, so a hidden reading still shows its shape.
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import {
+  FieldCommitments,
+  FieldOpening,
+  SelectiveDisclosure,
+  SensorData,
+  SensorProof,
+} from '@/src/types';
+import { canonicalize } from '../encoding/CanonicalJson';
+import { verifySensorProof } from '@/src/utils/proof-helpers';
+import { DelegationVerifyOptions } from './Delegation';
+
+export const COMMITMENT_SCHEME = 'salted-keccak256-v1';
+
+const SALT_LENGTH = 16;
+
+/**
+ * Digest of one field
+ */
+export function commitField(path: string, value: unknown, salt: string): string {
+  const preimage = new TextEncoder().encode(canonicalize([salt, path, value]));
+  return bs58.encode(keccak_256(preimage));
+}
+
+/**
+ * Replace a reading's data with commitments
+ * Returns the reading to sign and the openings the holder must keep.
+ */
+export function commitSensorData(sensorData: SensorData): {
+  committed: SensorData;
+  openings: Record<string, FieldOpening>;
+} {
+  const digests: Record<string, string> = {};
+  const openings: Record<string, FieldOpening> = {};
+
+  for (const [path, value] of Object.entries(flattenFields(sensorData.data))) {
+    const salt = bs58.encode(nacl.randomBytes(SALT_LENGTH));
+    digests[path] = commitField(path, value, salt);
+    openings[path] = { salt, value };
+  }
+
+  const commitments: FieldCommitments = { scheme: COMMITMENT_SCHEME, digests };
+
+  return {
+    committed: {
+      ...sensorData,
+      data: {},
+      context: { ...sensorData.context, commitments },
+    },
+    openings,
+  };
+}
+
+/**
+ * Reveal chosen fields of a committed proof
+ * A field name also selects everything nested under it ("address" reveals
+ * "address.city", "address.country", ...). The result carries no other openings.
+ */
+export function createDisclosure(proof: SensorProof, fields: string[]): SelectiveDisclosure {
+  const commitments = proof.sensorData.context?.commitments;
+  if (!commitments) {
+    throw new Error('Proof has no field commitments');
+  }
+  if (!proof.openings) {
+    throw new Error('Proof carries no openings — only its holder can disclose it');
+  }
+
+  const disclosed: Record<string, FieldOpening> = {};
+  for (const field of fields) {
+    const paths = Object.keys(commitments.digests).filter(
+      (path) => path === field || path.startsWith(`${field}.`)
+    );
+    if (paths.length === 0) {
+      throw new Error(`Proof has no committed field "${field}"`);
+    }
+    for (const path of paths) {
+      const opening = proof.openings[path];
+      if (!opening) {
+        throw new Error(`Missing opening for "${path}"`);
+      }
+      disclosed[path] = opening;
+    }
+  }
+
+  const { openings: _private, ...shareable } = proof;
+  return { proof: shareable, disclosed };
+}
+
+/**
+ * Check a disclosure: the proof's signature (and delegation, if any), then
+ * every revealed field against its signed commitment
+ * `data` holds the revealed fields, nested back into their original shape.
+ */
+export function verifyDisclosure(
+  disclosure: SelectiveDisclosure,
+  options: DelegationVerifyOptions = {}
+): {
+  isValid: boolean;
+  errors: string[];
+  data: Record<string, any>;
+} {
+  const errors: string[] = [];
+  const commitments = disclosure.proof.sensorData.context?.commitments;
+
+  if (!verifySensorProof(disclosure.proof, options)) {
+    errors.push('Proof signature is invalid');
+  }
+
+  if (!commitments) {
+    errors.push('Proof has no field commitments');
+  } else if (commitments.scheme !== COMMITMENT_SCHEME) {
+    errors.push(`Unsupported commitment scheme: ${commitments.scheme}`);
+  } else {
+    for (const [path, opening] of Object.entries(disclosure.disclosed)) {
+      const digest = commitments.digests[path];
+      if (!digest) {
+        errors.push(`"${path}" is not a committed field`);
+      } else if (commitField(path, opening.value, opening.salt) !== digest) {
+        errors.push(`"${path}" does not match its commitment`);
+      }
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    data: errors.length === 0 ? unflattenFields(disclosure.disclosed) : {},
+  };
+}
+
+/**
+ * The reading as its holder sees it: committed fields are filled back in
+ * from the openings, when the proof still carries them
+ */
+export function getHolderData(proof: SensorProof): Record<string, any> {
+  return proof.sensorData.context?.commitments && proof.openings
+    ? unflattenFields(proof.openings)
+    : proof.sensorData.data;
+}
+
+/**
+ * Leaf fields of a data object keyed by dotted path. Arrays count as leaves;
+ * undefined values have no JSON form and are skipped.
+ */
+export function flattenFields(data: Record<string, any>, prefix = ''): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (key.includes('.')) {
+      throw new Error(`Field names cannot contain '.': ${key}`);
+    }
+    if (value === undefined) continue;
+
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      Object.assign(out, flattenFields(value, path));
+    } else {
+      out[path] = value;
+    }
+  }
+  return out;
+}
+
+function unflattenFields(openings: Record<string, FieldOpening>): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const [path, { value }] of Object.entries(openings)) {
+    const keys = path.split('.');
+    let node = out;
+    for (const key of keys.slice(0, -1)) {
+      node[key] = isPlainObject(node[key]) ? node[key] : {};
+      node = node[key];
+    }
+    node[keys[keys.length - 1]] = value;
+  }
+  return out;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,83 @@
+import { PublicKey } from '@solana/web3.js';
+import nacl from 'tweetnacl';
+import { DelegationClaim, SensorData, SensorProof, SignatureEnvelope, SignerKind } from '@/src/types';
+import { encodeSigningPayload } from '../encoding/OffchainMessage';
+
+/**
+ * Signer - Common contract for anything that can sign sensor proofs
+ *
+ * SeedVaultSigner signs through a Mobile Wallet Adapter session (hardware-backed),
+ * KeypairSigner signs with an in-memory keypair for tests, web builds and emulators.
+ * Generators only depend on this interface so either can be plugged in.
+ */
+export interface Signer {
+  /** Identifies how signatures are produced — recorded on every proof */
+  readonly kind: SignerKind;
+
+  authorize(): Promise<PublicKey>;
+
+  signData(data: Uint8Array): Promise<{
+    signature: Uint8Array;
+    publicKey: PublicKey;
+  }>;
+
+  /**
+   * Sign several payloads in one session. Signatures come back in payload order.
+   */
+  signDataBatch(payloads: Uint8Array[]): Promise<{
+    signatures: Uint8Array[];
+    publicKey: PublicKey;
+  }>;
+
+  getPublicKey(): PublicKey | null;
+
+  isAuthorized(): boolean;
+
+  /** Drop the session, if the signer has one to drop */
+  deauthorize?(): Promise<void>;
+
+  /**
+   * Delegated signers only: reserve quota for these readings and return the
+   * certificate claims to sign along with them (see DelegatedSigner.ts)
+   */
+  claimDelegation?(sensorDataArray: SensorData[]): Promise<DelegationClaim[]>;
+}
+
+/**
+ * Check a signature over one of the wallet-signed records (device
+ * registrations, delegation certificates, revocations). These are signed in
+ * the off-chain message envelope; raw signatures are still accepted because
+ * records created before envelopes carry them, and their text prefixes can't
+ * be mistaken for a transaction.
+ */
+export function verifyWalletSignature(
+  message: Uint8Array,
+  signature: Uint8Array,
+  publicKey: PublicKey
+): boolean {
+  try {
+    return [SignatureEnvelope.OFFCHAIN_V0, SignatureEnvelope.RAW].some((envelope) =>
+      nacl.sign.detached.verify(encodeSigningPayload(message, envelope), signature, publicKey.toBytes())
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether signatures from this signer kind come from a hardware-backed key
+ * An unknown kind is never treated as hardware.
+ */
+export function isHardwareSignerKind(kind: SignerKind | undefined): boolean {
+  return kind === SignerKind.SEED_VAULT;
+}
+
+/**
+ * The signer kind as signed into the proof's context
+ * SensorProof.signerKind sits outside the signature and can be edited or
+ * stripped, so only this copy counts. Undefined for legacy proofs and proofs
+ * signed before the kind was part of the context.
+ */
+export function getSignedSignerKind(proof: SensorProof): SignerKind | undefined {
+  return proof.sensorData.context?.signerKind;
+}
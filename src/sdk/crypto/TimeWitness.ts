@@ -0,0 +1,116 @@
+/**
+ * TimeWitness - Bound a proof's timestamp with Solana chain state
+ *
+ * Device clocks are fully under the operator's control. Signing a finalized
+ * slot and that block's hash into the proof shows the reading was produced
+ * after that slot: nobody could have known the blockhash earlier.
+ * Verification fetches the block, checks its hash is the witnessed one, and
+ * checks the claimed timestamp sits just after its block time — neither
+ * before the slot, nor long after it.
+ *
+ * The witness is fetched at signing time, so batches of readings collected
+ * well before they were signed will fail verification.
+ */
+
+import { Connection } from '@solana/web3.js';
+import { SensorProof, TimeWitness } from '@/src/types';
+
+export interface TimeWitnessVerifyOptions {
+  /** Clock drift allowed between device and cluster */
+  maxSkewMs?: number;
+  /** How long after the witnessed slot the reading may claim to be */
+  maxAgeMs?: number;
+}
+
+/**
+ * Fetch the latest finalized slot and the hash of its block
+ * Both come from the same block, so a verifier can check the pair.
+ */
+export async function fetchTimeWitness(connection: Connection): Promise<TimeWitness> {
+  try {
+    const slot = await connection.getSlot('finalized');
+    const block = await getWitnessBlock(connection, slot);
+    if (!block) {
+      throw new Error(`Block for slot ${slot} unavailable`);
+    }
+    return { slot, blockhash: block.blockhash };
+  } catch (error) {
+    console.error('Failed to fetch time witness:', error);
+    throw error;
+  }
+}
+
+/**
+ * Check that the witnessed blockhash is the slot's and that the proof's
+ * timestamp is consistent with the slot's block time
+ */
+export async function verifyTimeWitness(
+  proof: SensorProof,
+  connection: Connection,
+  options: TimeWitnessVerifyOptions = {}
+): Promise<{
+  isValid: boolean;
+  errors: string[];
+  blockTime?: number;
+}> {
+  const { maxSkewMs = 60 * 1000, maxAgeMs = 5 * 60 * 1000 } = options;
+  const witness = proof.sensorData.context?.timeWitness;
+
+  if (!witness) {
+    return { isValid: false, errors: ['Proof has no time witness'] };
+  }
+
+  let block: Awaited<ReturnType<typeof getWitnessBlock>>;
+  try {
+    block = await getWitnessBlock(connection, witness.slot);
+  } catch (error) {
+    // Skipped slots and slots outside the node's history both end up here
+    return {
+      isValid: false,
+      errors: [`Block for slot ${witness.slot} unavailable: ${error instanceof Error ? error.message : error}`],
+    };
+  }
+
+  if (!block) {
+    return { isValid: false, errors: [`Block for slot ${witness.slot} unavailable`] };
+  }
+  if (block.blockhash !== witness.blockhash) {
+    return { isValid: false, errors: [`Blockhash is not the one of slot ${witness.slot}`] };
+  }
+
+  const { blockTime } = block;
+  if (blockTime === null) {
+    return { isValid: false, errors: [`Block time for slot ${witness.slot} unavailable`] };
+  }
+
+  const errors: string[] = [];
+  const slotMs = blockTime * 1000;
+  const claimed = proof.sensorData.timestamp;
+
+  // Block times have one-second resolution, so allow that on top of the skew
+  if (claimed < slotMs - maxSkewMs - 1000) {
+    errors.push(`Timestamp is ${Math.round((slotMs - claimed) / 1000)}s before the witnessed slot`);
+  }
+
+  if (claimed > slotMs + maxAgeMs) {
+    errors.push(`Timestamp is ${Math.round((claimed - slotMs) / 1000)}s after the witnessed slot`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    blockTime,
+  };
+}
+
+/**
+ * The block header only — the witness needs its hash and time, not its transactions
+ */
+function getWitnessBlock(connection: Connection, slot: number) {
+  return connection.getBlock(slot, {
+    commitment: 'finalized',
+    transactionDetails: 'none',
+    rewards: false,
+    maxSupportedTransactionVersion: 0,
+  });
+}
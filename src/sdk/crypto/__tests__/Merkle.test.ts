@@ -0,0 +1,58 @@
+/**
+ * Merkle vectors - the client tree must reproduce the roots and paths the
+ * program's Rust tests fold in contracts/sensor-verification/test-vectors/merkle-trees.json
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import vectors from '@/contracts/sensor-verification/test-vectors/merkle-trees.json';
+import {
+  buildMerkleTree,
+  fromHex,
+  getMerklePath,
+  hashLeaf,
+  toHex,
+  verifyMerklePath,
+} from '@/src/sdk/crypto/Merkle';
+
+for (const vector of vectors.cases) {
+  const leaves = vector.proofs.map((proof) => fromHex(proof.leafDataHex));
+  const tree = buildMerkleTree(leaves);
+  const root = fromHex(vector.rootHex);
+
+  test(`${vector.name}: root matches the vector`, () => {
+    assert.equal(toHex(tree.root), vector.rootHex);
+  });
+
+  test(`${vector.name}: every path matches and verifies`, () => {
+    for (const proof of vector.proofs) {
+      const path = getMerklePath(tree, proof.index);
+      assert.deepEqual(path.map(toHex), proof.pathHex);
+      assert.ok(verifyMerklePath(hashLeaf(leaves[proof.index]), path, proof.index, root));
+    }
+  });
+
+  test(`${vector.name}: a path does not verify another leaf`, () => {
+    if (leaves.length < 2) return;
+    const path = getMerklePath(tree, 0);
+    assert.ok(!verifyMerklePath(hashLeaf(leaves[1]), path, 0, root));
+  });
+}
+
+test('odd levels pair the last node with itself and keep the duplicate in the path', () => {
+  const leaves = ['a', 'b', 'c'].map((leaf) => new TextEncoder().encode(leaf));
+  const tree = buildMerkleTree(leaves);
+  const [leafHashes] = tree.levels;
+
+  const path = getMerklePath(tree, 2);
+  assert.equal(path.length, 2);
+  assert.equal(toHex(path[0]), toHex(leafHashes[2]));
+  assert.ok(verifyMerklePath(leafHashes[2], path, 2, tree.root));
+});
+
+test('leaf and node hashes are domain separated', () => {
+  const [left, right] = ['a', 'b'].map((leaf) => hashLeaf(new TextEncoder().encode(leaf)));
+  const joined = new Uint8Array([...left, ...right]);
+  const tree = buildMerkleTree([new TextEncoder().encode('a'), new TextEncoder().encode('b')]);
+  assert.notEqual(toHex(hashLeaf(joined)), toHex(tree.root));
+});
@@ -0,0 +1,251 @@
+/**
+ * Borsh - Minimal Borsh (Binary Object Representation Serializer for Hashing)
+ *
+ * Only the subset the sensor payload schemas need. Layout follows the Borsh
+ * spec exactly, so bytes match what AnchorSerialize produces on-chain:
+ * little-endian integers, u32 length prefixes for strings/vecs, a 0/1 tag
+ * byte for options, struct fields in declaration order.
+ */
+
+export type BorshType =
+  | 'u8'
+  | 'u16'
+  | 'u32'
+  | 'u64'
+  | 'i64'
+  | 'f64'
+  | 'bool'
+  | 'string'
+  | { option: BorshType }
+  | { vec: BorshType }
+  | { struct: BorshField[] };
+
+export type BorshField = [name: string, type: BorshType];
+
+export class BorshWriter {
+  private chunks: Uint8Array[] = [];
+  private length = 0;
+
+  write(type: BorshType, value: any, path: string = 'value'): void {
+    if (typeof type === 'string') {
+      this.writePrimitive(type, value, path);
+      return;
+    }
+
+    if ('option' in type) {
+      if (value === null || value === undefined) {
+        this.push(Uint8Array.of(0));
+      } else {
+        this.push(Uint8Array.of(1));
+        this.write(type.option, value, path);
+      }
+      return;
+    }
+
+    if ('vec' in type) {
+      if (!Array.isArray(value)) throw new Error(`${path}: expected an array`);
+      this.writePrimitive('u32', value.length, path);
+      value.forEach((item, i) => this.write(type.vec, item, `${path}[${i}]`));
+      return;
+    }
+
+    this.writeStruct(type.struct, value, path);
+  }
+
+  /**
+   * Write a struct. Keys on the value that the schema doesn't declare are
+   * rejected rather than skipped, so nothing is ever silently left unsigned.
+   */
+  writeStruct(fields: BorshField[], value: any, path: string = 'value'): void {
+    if (value === null || typeof value !== 'object') {
+      throw new Error(`${path}: expected an object`);
+    }
+
+    const known = new Set(fields.map(([name]) => name));
+    const unknown = Object.keys(value).filter((key) => !known.has(key) && value[key] !== undefined);
+    if (unknown.length > 0) {
+      throw new Error(`${path}: fields not in schema: ${unknown.join(', ')}`);
+    }
+
+    for (const [name, fieldType] of fields) {
+      this.write(fieldType, value[name], `${path}.${name}`);
+    }
+  }
+
+  toBytes(): Uint8Array {
+    const out = new Uint8Array(this.length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  }
+
+  private writePrimitive(type: Exclude<BorshType, object>, value: any, path: string): void {
+    switch (type) {
+      case 'u8':
+      case 'u16':
+      case 'u32': {
+        const bytes = type === 'u8' ? 1 : type === 'u16' ? 2 : 4;
+        const max = 2 ** (bytes * 8) - 1;
+        if (!Number.isInteger(value) || value < 0 || value > max) {
+          throw new Error(`${path}: ${value} is not a valid ${type}`);
+        }
+        const view = new DataView(new ArrayBuffer(bytes));
+        if (type === 'u8') view.setUint8(0, value);
+        else if (type === 'u16') view.setUint16(0, value, true);
+        else view.setUint32(0, value, true);
+        this.push(new Uint8Array(view.buffer));
+        return;
+      }
+      case 'u64':
+      case 'i64': {
+        if (!Number.isSafeInteger(value) || (type === 'u64' && value < 0)) {
+          throw new Error(`${path}: ${value} is not a valid ${type}`);
+        }
+        const view = new DataView(new ArrayBuffer(8));
+        if (type === 'u64') view.setBigUint64(0, BigInt(value), true);
+        else view.setBigInt64(0, BigInt(value), true);
+        this.push(new Uint8Array(view.buffer));
+        return;
+      }
+      case 'f64': {
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+          // Borsh forbids NaN so every float has exactly one encoding
+          throw new Error(`${path}: ${value} is not a valid f64`);
+        }
+        const view = new DataView(new ArrayBuffer(8));
+        view.setFloat64(0, value, true);
+        this.push(new Uint8Array(view.buffer));
+        return;
+      }
+      case 'bool':
+        if (typeof value !== 'boolean') throw new Error(`${path}: expected a boolean`);
+        this.push(Uint8Array.of(value ? 1 : 0));
+        return;
+      case 'string': {
+        if (typeof value !== 'string') throw new Error(`${path}: expected a string`);
+        const bytes = new TextEncoder().encode(value);
+        this.writePrimitive('u32', bytes.length, path);
+        this.push(bytes);
+        return;
+      }
+    }
+  }
+
+  private push(bytes: Uint8Array): void {
+    this.chunks.push(bytes);
+    this.length += bytes.length;
+  }
+}
+
+export class BorshReader {
+  private view: DataView;
+  offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  read(type: BorshType): any {
+    if (typeof type === 'string') return this.readPrimitive(type);
+
+    if ('option' in type) {
+      return this.readFlag('option tag') ? this.read(type.option) : undefined;
+    }
+
+    if ('vec' in type) {
+      const length = this.readPrimitive('u32');
+      return Array.from({ length }, () => this.read(type.vec));
+    }
+
+    return this.readStruct(type.struct);
+  }
+
+  /**
+   * Read a struct. Absent options are left off the result rather than set
+   * to undefined, mirroring how generators build their payloads.
+   */
+  readStruct(fields: BorshField[]): Record<string, any> {
+    const out: Record<string, any> = {};
+    for (const [name, fieldType] of fields) {
+      const value = this.read(fieldType);
+      if (value !== undefined) out[name] = value;
+    }
+    return out;
+  }
+
+  remaining(): Uint8Array {
+    return this.bytes.slice(this.offset);
+  }
+
+  private readPrimitive(type: Exclude<BorshType, object>): any {
+    this.ensure(type === 'string' ? 4 : PRIMITIVE_SIZES[type]);
+
+    switch (type) {
+      case 'u8':
+        return this.view.getUint8(this.offset++);
+      case 'u16': {
+        const v = this.view.getUint16(this.offset, true);
+        this.offset += 2;
+        return v;
+      }
+      case 'u32': {
+        const v = this.view.getUint32(this.offset, true);
+        this.offset += 4;
+        return v;
+      }
+      case 'u64': {
+        const v = Number(this.view.getBigUint64(this.offset, true));
+        this.offset += 8;
+        return v;
+      }
+      case 'i64': {
+        const v = Number(this.view.getBigInt64(this.offset, true));
+        this.offset += 8;
+        return v;
+      }
+      case 'f64': {
+        const v = this.view.getFloat64(this.offset, true);
+        this.offset += 8;
+        return v;
+      }
+      case 'bool':
+        return this.readFlag('bool');
+      case 'string': {
+        const length = this.readPrimitive('u32');
+        this.ensure(length);
+        const v = new TextDecoder().decode(this.bytes.slice(this.offset, this.offset + length));
+        this.offset += length;
+        return v;
+      }
+    }
+  }
+
+  // Borsh only defines 0 and 1, so anything else means the bytes are not ours
+  private readFlag(what: string): boolean {
+    this.ensure(1);
+    const byte = this.view.getUint8(this.offset++);
+    if (byte > 1) {
+      throw new Error(`Borsh: invalid ${what} ${byte}`);
+    }
+    return byte === 1;
+  }
+
+  private ensure(size: number): void {
+    if (this.offset + size > this.bytes.length) {
+      throw new Error('Borsh: unexpected end of input');
+    }
+  }
+}
+
+const PRIMITIVE_SIZES: Record<Exclude<BorshType, object | 'string'>, number> = {
+  u8: 1,
+  u16: 2,
+  u32: 4,
+  u64: 8,
+  i64: 8,
+  f64: 8,
+  bool: 1,
+};
@@ -0,0 +1,65 @@
+/**
+ * CanonicalJson - RFC 8785 (JSON Canonicalization Scheme) serializer
+ *
+ * Produces one byte-exact JSON form for any JSON value:
+ * - object keys sorted by UTF-16 code units, at every nesting level
+ * - no insignificant whitespace
+ * - strings and numbers serialized the ECMAScript way (what JSON.stringify does)
+ * - undefined members dropped, undefined array slots written as null
+ *
+ * Unlike JSON.stringify(data, sortedKeys) — whose key list doubles as an
+ * allow-list and silently drops nested fields — nothing is lost here.
+ */
+
+export function canonicalize(value: unknown): string {
+  const serialized = serializeValue(value);
+  if (serialized === undefined) {
+    throw new Error('Cannot canonicalize a value with no JSON representation');
+  }
+  return serialized;
+}
+
+function serializeValue(value: unknown): string | undefined {
+  if (value === null) return 'null';
+
+  switch (typeof value) {
+    case 'boolean':
+    case 'string':
+      return JSON.stringify(value);
+
+    case 'number':
+      if (!Number.isFinite(value)) {
+        throw new Error(`Cannot canonicalize non-finite number: ${value}`);
+      }
+      return JSON.stringify(value);
+
+    case 'bigint':
+      throw new Error('Cannot canonicalize bigint values — encode them as strings');
+
+    case 'undefined':
+    case 'function':
+    case 'symbol':
+      return undefined;
+  }
+
+  const obj = value as Record<string, unknown> & { toJSON?: () => unknown };
+
+  // Dates, PublicKeys etc. — same hook JSON.stringify honours
+  if (typeof obj.toJSON === 'function') {
+    return serializeValue(obj.toJSON());
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => serializeValue(item) ?? 'null');
+    return `[${items.join(',')}]`;
+  }
+
+  const members: string[] = [];
+  for (const key of Object.keys(obj).sort()) {
+    const serialized = serializeValue(obj[key]);
+    if (serialized !== undefined) {
+      members.push(`${JSON.stringify(key)}:${serialized}`);
+    }
+  }
+  return `{${members.join(',')}}`;
+}
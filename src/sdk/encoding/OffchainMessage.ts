@@ -0,0 +1,199 @@
+/**
+ * OffchainMessage - Solana off-chain message envelope
+ *
+ * Wallets that enforce the off-chain message standard refuse (or warn on)
+ * raw byte payloads, and raw bytes could in principle parse as a transaction.
+ * Wrapping makes the signed bytes unambiguous. Layout of version 0, as in
+ * solana-sdk's OffchainMessage and `solana sign-offchain-message`:
+ *
+ *   "\xffsolana offchain" (16) | version u8 = 0 | format u8 | length u16 LE | body
+ *
+ * Formats: 0 = restricted ASCII (printable, ≤ 1212 bytes, Ledger-displayable),
+ * 1 = limited UTF-8 (≤ 1212 bytes), 2 = extended UTF-8 (≤ 65515 bytes).
+ *
+ * The body must be text. Messages that aren't valid UTF-8 or are too long
+ * are signed through a digest body instead:
+ * "depin-go:digest:" + base58(keccak256(message)), i.e. the proof ID.
+ * BORSH sensor messages never get here: the program verifies signatures over
+ * the bare message, so ProofGenerator signs them RAW.
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import bs58 from 'bs58';
+import { SignatureEnvelope } from '@/src/types';
+
+export const OFFCHAIN_SIGNING_DOMAIN = new Uint8Array([
+  0xff, ...new TextEncoder().encode('solana offchain'),
+]);
+
+export const OFFCHAIN_HEADER_VERSION = 0;
+
+export enum OffchainMessageFormat {
+  RESTRICTED_ASCII = 0,
+  LIMITED_UTF8     = 1,
+  EXTENDED_UTF8    = 2,
+}
+
+// Signing domain + version + format + length
+const HEADER_LENGTH = OFFCHAIN_SIGNING_DOMAIN.length + 1 + 1 + 2;
+export const OFFCHAIN_MAX_LENGTH = 0xffff - HEADER_LENGTH;
+export const OFFCHAIN_MAX_LENGTH_LEDGER = 1232 - HEADER_LENGTH;
+
+const DIGEST_PREFIX = 'depin-go:digest:';
+
+export const CURRENT_SIGNATURE_ENVELOPE = SignatureEnvelope.OFFCHAIN_V0;
+
+/**
+ * Wrap a text body in a version-0 off-chain message envelope
+ */
+export function wrapOffchainMessage(body: Uint8Array | string): Uint8Array {
+  const bytes = typeof body === 'string' ? new TextEncoder().encode(body) : body;
+  const format = getOffchainMessageFormat(bytes);
+
+  const out = new Uint8Array(HEADER_LENGTH + bytes.length);
+  out.set(OFFCHAIN_SIGNING_DOMAIN, 0);
+  let offset = OFFCHAIN_SIGNING_DOMAIN.length;
+  out[offset++] = OFFCHAIN_HEADER_VERSION;
+  out[offset++] = format;
+  out[offset++] = bytes.length & 0xff;
+  out[offset++] = bytes.length >> 8;
+  out.set(bytes, offset);
+  return out;
+}
+
+/**
+ * Parse an envelope back into its body, validating every header field
+ */
+export function unwrapOffchainMessage(envelope: Uint8Array): {
+  format: OffchainMessageFormat;
+  body: Uint8Array;
+} {
+  if (!isOffchainMessage(envelope)) {
+    throw new Error('Not a Solana off-chain message');
+  }
+
+  if (envelope.length < HEADER_LENGTH) {
+    throw new Error('Off-chain message header is truncated');
+  }
+
+  let offset = OFFCHAIN_SIGNING_DOMAIN.length;
+  const version = envelope[offset++];
+  if (version !== OFFCHAIN_HEADER_VERSION) {
+    throw new Error(`Unsupported off-chain message version: ${version}`);
+  }
+
+  const format = envelope[offset++] as OffchainMessageFormat;
+  const length = envelope[offset] | (envelope[offset + 1] << 8);
+  offset += 2;
+
+  const body = envelope.slice(offset);
+  if (body.length !== length) {
+    throw new Error(`Off-chain message declares ${length} bytes but carries ${body.length}`);
+  }
+  if (!isFormatValid(body, format)) {
+    throw new Error(`Off-chain message body does not match format ${format}`);
+  }
+
+  return { format, body };
+}
+
+export function isOffchainMessage(bytes: Uint8Array): boolean {
+  if (bytes.length < OFFCHAIN_SIGNING_DOMAIN.length) return false;
+  return OFFCHAIN_SIGNING_DOMAIN.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Smallest format that can carry the body, as solana-sdk picks it
+ */
+export function getOffchainMessageFormat(body: Uint8Array): OffchainMessageFormat {
+  if (body.length <= OFFCHAIN_MAX_LENGTH_LEDGER && isPrintableAscii(body)) {
+    return OffchainMessageFormat.RESTRICTED_ASCII;
+  }
+  if (!isUtf8(body)) {
+    throw new Error('Off-chain message body must be valid UTF-8');
+  }
+  if (body.length <= OFFCHAIN_MAX_LENGTH_LEDGER) return OffchainMessageFormat.LIMITED_UTF8;
+  if (body.length <= OFFCHAIN_MAX_LENGTH) return OffchainMessageFormat.EXTENDED_UTF8;
+  throw new Error(`Off-chain message body exceeds ${OFFCHAIN_MAX_LENGTH} bytes`);
+}
+
+/**
+ * The bytes a signer actually signs for a message
+ * RAW passes the message through; OFFCHAIN_V0 wraps it (or its digest, for
+ * binary or oversized messages) in the envelope.
+ */
+export function encodeSigningPayload(
+  message: Uint8Array,
+  envelope: SignatureEnvelope = CURRENT_SIGNATURE_ENVELOPE
+): Uint8Array {
+  switch (envelope) {
+    case SignatureEnvelope.RAW:
+      return message;
+    case SignatureEnvelope.OFFCHAIN_V0:
+      return wrapOffchainMessage(
+        isUtf8(message) && message.length <= OFFCHAIN_MAX_LENGTH
+          ? message
+          : `${DIGEST_PREFIX}${bs58.encode(keccak_256(message))}`
+      );
+    default:
+      throw new Error(`Unsupported signature envelope: ${envelope}`);
+  }
+}
+
+function isFormatValid(body: Uint8Array, format: OffchainMessageFormat): boolean {
+  switch (format) {
+    case OffchainMessageFormat.RESTRICTED_ASCII:
+      return body.length <= OFFCHAIN_MAX_LENGTH_LEDGER && isPrintableAscii(body);
+    case OffchainMessageFormat.LIMITED_UTF8:
+      return body.length <= OFFCHAIN_MAX_LENGTH_LEDGER && isUtf8(body);
+    case OffchainMessageFormat.EXTENDED_UTF8:
+      return body.length <= OFFCHAIN_MAX_LENGTH && isUtf8(body);
+    default:
+      return false;
+  }
+}
+
+function isPrintableAscii(bytes: Uint8Array): boolean {
+  return bytes.every((byte) => byte >= 0x20 && byte <= 0x7e);
+}
+
+/**
+ * Strict UTF-8 check (no overlongs, surrogates or code points past U+10FFFF)
+ * — TextDecoder's `fatal` option isn't available on every JS engine we run on
+ */
+function isUtf8(bytes: Uint8Array): boolean {
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    if (byte < 0x80) {
+      i++;
+      continue;
+    }
+
+    let needed: number;
+    let min: number;
+    let codePoint: number;
+    if (byte >= 0xc2 && byte <= 0xdf) {
+      needed = 1; min = 0x80; codePoint = byte & 0x1f;
+    } else if (byte >= 0xe0 && byte <= 0xef) {
+      needed = 2; min = 0x800; codePoint = byte & 0x0f;
+    } else if (byte >= 0xf0 && byte <= 0xf4) {
+      needed = 3; min = 0x10000; codePoint = byte & 0x07;
+    } else {
+      return false;
+    }
+
+    if (i + needed >= bytes.length) return false;
+    for (let j = 1; j <= needed; j++) {
+      const next = bytes[i + j];
+      if ((next & 0xc0) !== 0x80) return false;
+      codePoint = (codePoint << 6) | (next & 0x3f);
+    }
+
+    if (codePoint < min || codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) {
+      return false;
+    }
+    i += needed + 1;
+  }
+  return true;
+}
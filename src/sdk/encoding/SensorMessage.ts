@@ -0,0 +1,215 @@
+/**
+ * SensorMessage - The single place where sensor data becomes signable bytes
+ *
+ * Every signer, generator and verifier goes through encodeSensorMessage().
+ * Each proof records the message version it was signed with, so the verifier
+ * can rebuild the exact bytes even after the default encoding moves on.
+ *
+ * Versions:
+ * - LEGACY (0):         type|timestamp|json|deviceId, json built with a sorted
+ *                       top-level key allow-list (nested fields were dropped)
+ * - CANONICAL_JSON (1): "depin-go:v1:" + RFC 8785 JSON of the whole record
+ * - BORSH (2):          type|unix_seconds|borsh(data)|deviceId — byte-for-byte
+ *                       what the program's create_message() rebuilds on-chain.
+ *                       Unprefixed (the program has no version byte), so it
+ *                       can only be decoded when the version is known.
+ *
+ * SensorData.context (chain links etc.) is signed too: as a `context` member
+ * in CANONICAL_JSON, and in BORSH as a trailer after the payload inside the
+ * on-chain `data` bytes (tag 0x01 + Borsh string of canonical JSON), which the
+ * program treats as opaque. LEGACY cannot carry it and refuses to encode it.
+ */
+
+import { SensorData, SensorMessageVersion } from '@/src/types';
+import { canonicalize } from './CanonicalJson';
+import { BorshReader, BorshWriter } from './Borsh';
+import { encodeSensorPayload, readSensorPayload } from './SensorSchemas';
+
+export const CURRENT_SENSOR_MESSAGE_VERSION = SensorMessageVersion.CANONICAL_JSON;
+
+const VERSION_PREFIX = /^depin-go:v(\d+):/;
+
+interface SensorMessageCodec {
+  encode(sensorData: SensorData): Uint8Array;
+  decode(message: Uint8Array): SensorData;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const CODECS: Record<SensorMessageVersion, SensorMessageCodec> = {
+  [SensorMessageVersion.LEGACY]: {
+    encode(sensorData) {
+      if (sensorData.context) {
+        throw new Error('Legacy sensor messages cannot carry a proof context');
+      }
+      const dataJson = JSON.stringify(
+        sensorData.data,
+        Object.keys(sensorData.data).sort()
+      );
+      return textEncoder.encode(
+        `${sensorData.type}|${sensorData.timestamp}|${dataJson}|${sensorData.deviceId}`
+      );
+    },
+    // Best effort: the format is ambiguous if the deviceId itself contains '|'
+    decode(message) {
+      const text = textDecoder.decode(message);
+      const first = text.indexOf('|');
+      const second = text.indexOf('|', first + 1);
+      const last = text.lastIndexOf('|');
+      if (first < 0 || second < 0 || last <= second) {
+        throw new Error('Malformed legacy sensor message');
+      }
+      return {
+        type: text.slice(0, first) as SensorData['type'],
+        timestamp: Number(text.slice(first + 1, second)),
+        data: JSON.parse(text.slice(second + 1, last)),
+        deviceId: text.slice(last + 1),
+      };
+    },
+  },
+
+  [SensorMessageVersion.CANONICAL_JSON]: {
+    encode(sensorData) {
+      const body = canonicalize({
+        type: sensorData.type,
+        timestamp: sensorData.timestamp,
+        data: sensorData.data,
+        deviceId: sensorData.deviceId,
+        context: sensorData.context,
+      });
+      return textEncoder.encode(`depin-go:v1:${body}`);
+    },
+    decode(message) {
+      const text = textDecoder.decode(message);
+      const { type, timestamp, data, deviceId, context } = JSON.parse(
+        text.replace(VERSION_PREFIX, '')
+      );
+      return context === undefined
+        ? { type, timestamp, data, deviceId }
+        : { type, timestamp, data, deviceId, context };
+    },
+  },
+
+  [SensorMessageVersion.BORSH]: {
+    encode(sensorData) {
+      return concatBytes(
+        textEncoder.encode(`${sensorData.type}|${toOnChainTimestamp(sensorData.timestamp)}|`),
+        encodeOnChainData(sensorData),
+        textEncoder.encode(`|${sensorData.deviceId}`)
+      );
+    },
+    decode(message) {
+      const first = message.indexOf(PIPE);
+      const second = message.indexOf(PIPE, first + 1);
+      if (first < 0 || second < 0) {
+        throw new Error('Malformed Borsh sensor message');
+      }
+
+      const type = textDecoder.decode(message.slice(0, first)) as SensorData['type'];
+      const seconds = Number(textDecoder.decode(message.slice(first + 1, second)));
+
+      // The payload is self-delimiting, so '|' bytes inside it are harmless
+      const reader = new BorshReader(message.slice(second + 1));
+      const data = readSensorPayload(type, reader);
+
+      let context: SensorData['context'];
+      if (reader.remaining()[0] === CONTEXT_TRAILER_TAG) {
+        reader.read('u8');
+        context = JSON.parse(reader.read('string'));
+      }
+
+      const rest = reader.remaining();
+      if (rest[0] !== PIPE) {
+        throw new Error('Malformed Borsh sensor message: missing device id separator');
+      }
+
+      const sensorData: SensorData = {
+        type,
+        timestamp: seconds * 1000,
+        data,
+        deviceId: textDecoder.decode(rest.slice(1)),
+      };
+      if (context) sensorData.context = context;
+      return sensorData;
+    },
+  },
+};
+
+const PIPE = 0x7c;
+// Never equal to PIPE, so a payload without a trailer stays unambiguous
+const CONTEXT_TRAILER_TAG = 0x01;
+
+/**
+ * The program compares timestamps against Clock::unix_timestamp, so on-chain
+ * messages carry whole seconds rather than the millisecond sensor timestamp
+ */
+export function toOnChainTimestamp(timestampMs: number): number {
+  return Math.floor(timestampMs / 1000);
+}
+
+/**
+ * The program's `data: Vec<u8>` argument: the Borsh payload, followed by the
+ * context trailer when the proof has a context
+ */
+export function encodeOnChainData(sensorData: SensorData): Uint8Array {
+  const payload = encodeSensorPayload(sensorData.type, sensorData.data);
+  if (!sensorData.context) return payload;
+
+  const trailer = new BorshWriter();
+  trailer.write('u8', CONTEXT_TRAILER_TAG);
+  trailer.write('string', canonicalize(sensorData.context));
+  return concatBytes(payload, trailer.toBytes());
+}
+
+/**
+ * Encode sensor data into the exact bytes that get signed
+ */
+export function encodeSensorMessage(
+  sensorData: SensorData,
+  version: SensorMessageVersion = CURRENT_SENSOR_MESSAGE_VERSION
+): Uint8Array {
+  return getCodec(version).encode(sensorData);
+}
+
+/**
+ * Decode a signed message back into sensor data.
+ * The version is read from the message prefix unless given; unprefixed
+ * messages are treated as LEGACY, so pass BORSH explicitly for on-chain bytes.
+ */
+export function decodeSensorMessage(
+  message: Uint8Array,
+  version: SensorMessageVersion = detectSensorMessageVersion(message)
+): {
+  version: SensorMessageVersion;
+  sensorData: SensorData;
+} {
+  return { version, sensorData: getCodec(version).decode(message) };
+}
+
+/**
+ * Read the version prefix of a signed message
+ */
+export function detectSensorMessageVersion(message: Uint8Array): SensorMessageVersion {
+  const head = textDecoder.decode(message.slice(0, 32));
+  const match = head.match(VERSION_PREFIX);
+  return match ? (Number(match[1]) as SensorMessageVersion) : SensorMessageVersion.LEGACY;
+}
+
+function getCodec(version: SensorMessageVersion): SensorMessageCodec {
+  const codec = CODECS[version];
+  if (!codec) {
+    throw new Error(`Unsupported sensor message version: ${version}`);
+  }
+  return codec;
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
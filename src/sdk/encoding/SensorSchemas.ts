@@ -0,0 +1,242 @@
+/**
+ * SensorSchemas - Borsh layout of each sensor payload
+ *
+ * These bytes are the `data: Vec<u8>` argument of the program's submit_proof
+ * instruction. Every field is part of the format, optional ones included: an
+ * absent option still writes its tag byte, so adding, removing, reordering
+ * or retyping any field changes the bytes of every payload of that type.
+ * contracts/sensor-verification/test-vectors/sensor-messages.json pins those
+ * bytes for the program's tests; `npm run vectors:check` fails on any drift.
+ */
+
+import { SensorType, SnapshotReading } from '@/src/types';
+import { BorshField, BorshReader, BorshType, BorshWriter } from './Borsh';
+
+const optF64: BorshType = { option: 'f64' };
+const optU32: BorshType = { option: 'u32' };
+const optString: BorshType = { option: 'string' };
+
+const VECTOR3: BorshField[] = [
+  ['x', 'f64'],
+  ['y', 'f64'],
+  ['z', 'f64'],
+];
+
+export const SENSOR_PAYLOAD_SCHEMAS: Record<SensorType, BorshField[]> = {
+  [SensorType.GPS]: [
+    ['latitude', 'f64'],
+    ['longitude', 'f64'],
+    ['altitude', optF64],
+    ['accuracy', optF64],
+    ['heading', optF64],
+    ['speed', optF64],
+    ['altitudeAccuracy', optF64],
+    ['accuracyWarning', optString],
+    ['address', {
+      option: {
+        struct: [
+          ['city', optString],
+          ['region', optString],
+          ['country', optString],
+          ['postalCode', optString],
+        ],
+      },
+    }],
+    ['mocked', { option: 'bool' }],
+  ],
+
+  // Movement, step and shake proofs share the accelerometer type, so
+  // everything beyond the core reading is optional
+  [SensorType.ACCELEROMETER]: [
+    ['x', optF64],
+    ['y', optF64],
+    ['z', optF64],
+    ['magnitude', optF64],
+    ['sampleCount', optU32],
+    ['duration', optU32],
+    ['steps', optU32],
+    ['averageReading', { option: { struct: VECTOR3 } }],
+    ['event', optString],
+    ['maxMagnitude', optF64],
+    ['threshold', optF64],
+    ['motionIntensity', optF64],
+  ],
+
+  [SensorType.GYROSCOPE]: [
+    ...VECTOR3,
+    ['magnitude', optF64],
+    ['sampleCount', optU32],
+    ['duration', optU32],
+  ],
+
+  [SensorType.MAGNETOMETER]: [
+    ...VECTOR3,
+    ['magnitude', optF64],
+    ['heading', optF64],
+    ['sampleCount', optU32],
+  ],
+
+  [SensorType.NETWORK_SPEED]: [
+    ['downloadMbps', 'f64'],
+    ['latencyMs', 'f64'],
+    ['connectionType', 'string'],
+    ['isInternetReachable', 'bool'],
+    ['wifiSsid', optString],
+    ['wifiSignalStrength', optF64],
+    ['cellularGeneration', optString],
+    ['coverageRating', optString],
+  ],
+
+  [SensorType.BAROMETER]: [
+    ['pressure', 'f64'],
+    ['relativeAltitude', optF64],
+    ['temperature', optF64],
+    ['weatherCondition', optString],
+    ['sampleCount', optU32],
+  ],
+
+  [SensorType.LIGHT]: [
+    ['illuminance', 'f64'],
+    ['minIlluminance', optF64],
+    ['maxIlluminance', optF64],
+    ['lightCondition', optString],
+    ['sampleCount', optU32],
+    ['duration', optU32],
+  ],
+
+  [SensorType.PEDOMETER]: [
+    ['steps', 'u32'],
+    ['accelerometerSteps', 'u32'],
+    ['disagreement', 'f64'],
+    ['duration', 'u32'],
+    ['sampleCount', optU32],
+  ],
+
+  // Each reading carries its own sensor's Borsh payload as bytes, so the
+  // program can decode it with that sensor's layout
+  [SensorType.SNAPSHOT]: [
+    ['readings', {
+      vec: {
+        struct: [
+          ['type', 'string'],
+          ['timestamp', 'u64'],
+          ['payload', { vec: 'u8' }],
+        ],
+      },
+    }],
+    ['windowMs', 'u32'],
+    ['skewMs', 'u32'],
+  ],
+
+  // The points themselves are not in the payload, only their Merkle root
+  // (leaves use TRAJECTORY_POINT_SCHEMA)
+  [SensorType.TRAJECTORY]: [
+    ['merkleRoot', 'string'],
+    ['pointCount', 'u32'],
+    ['distanceMeters', 'f64'],
+    ['durationMs', 'u64'],
+    ['startTime', 'u64'],
+    ['endTime', 'u64'],
+    ['bounds', {
+      struct: [
+        ['south', 'f64'],
+        ['west', 'f64'],
+        ['north', 'f64'],
+        ['east', 'f64'],
+      ],
+    }],
+    ['mockedPointCount', optU32],
+  ],
+};
+
+/**
+ * Borsh layout of one trajectory point — the bytes of its Merkle leaf
+ */
+export const TRAJECTORY_POINT_SCHEMA: BorshField[] = [
+  ['timestamp', 'u64'],
+  ['latitude', 'f64'],
+  ['longitude', 'f64'],
+  ['altitude', optF64],
+  ['accuracy', optF64],
+  ['speed', optF64],
+  ['mocked', { option: 'bool' }],
+];
+
+// Sensor types added at runtime (see SensorRegistry). Backends that verify
+// BORSH proofs of a custom type register the same schema here.
+const customSchemas = new Map<string, BorshField[]>();
+
+/**
+ * Add the Borsh layout of a custom sensor type
+ * Layouts are fixed once registered: registering the same schema again is a
+ * no-op, a different one for a known type throws.
+ */
+export function registerPayloadSchema(type: string, schema: BorshField[]): void {
+  if (type in SENSOR_PAYLOAD_SCHEMAS) {
+    throw new Error(`Cannot replace the built-in payload schema for ${type}`);
+  }
+  const existing = customSchemas.get(type);
+  if (existing && JSON.stringify(existing) !== JSON.stringify(schema)) {
+    throw new Error(`A different payload schema is already registered for ${type}`);
+  }
+  customSchemas.set(type, schema);
+}
+
+/**
+ * Borsh-encode a sensor payload (the on-chain `data` bytes)
+ */
+export function encodeSensorPayload(type: string, data: Record<string, any>): Uint8Array {
+  const writer = new BorshWriter();
+  writer.writeStruct(getPayloadSchema(type), type === SensorType.SNAPSHOT ? packSnapshot(data) : data, type);
+  return writer.toBytes();
+}
+
+/**
+ * Decode a sensor payload starting at the reader's current offset
+ */
+export function readSensorPayload(type: string, reader: BorshReader): Record<string, any> {
+  const data = reader.readStruct(getPayloadSchema(type));
+  return type === SensorType.SNAPSHOT ? unpackSnapshot(data) : data;
+}
+
+export function hasPayloadSchema(type: string): boolean {
+  return type in SENSOR_PAYLOAD_SCHEMAS || customSchemas.has(type);
+}
+
+export function getPayloadSchema(type: string): BorshField[] {
+  const schema = SENSOR_PAYLOAD_SCHEMAS[type as SensorType] ?? customSchemas.get(type);
+  if (!schema) {
+    throw new Error(`No Borsh payload schema for sensor type: ${type}`);
+  }
+  return schema;
+}
+
+function packSnapshot(data: Record<string, any>): Record<string, any> {
+  if (!Array.isArray(data.readings)) {
+    throw new Error(`${SensorType.SNAPSHOT}.readings: expected an array`);
+  }
+  return {
+    ...data,
+    readings: data.readings.map((reading: SnapshotReading) => {
+      if (reading.type === SensorType.SNAPSHOT) {
+        throw new Error('Snapshots cannot contain snapshots');
+      }
+      return {
+        type: reading.type,
+        timestamp: reading.timestamp,
+        payload: Array.from(encodeSensorPayload(reading.type, reading.data)),
+      };
+    }),
+  };
+}
+
+function unpackSnapshot(data: Record<string, any>): Record<string, any> {
+  return {
+    ...data,
+    readings: data.readings.map((reading: { type: string; timestamp: number; payload: number[] }) => ({
+      type: reading.type,
+      timestamp: reading.timestamp,
+      data: readSensorPayload(reading.type, new BorshReader(Uint8Array.from(reading.payload))),
+    })),
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * DeviceIdentity - Stable per-install device ID and device attestation
+ *
+ * Device.modelId is shared by every phone of the same model, so it can't
+ * identify a sensor. Instead each install generates a random ID once and
+ * keeps it in storage; it becomes SensorData.deviceId and the on-chain
+ * SensorAccount.device_id. The wallet then signs a one-time registration
+ * binding that ID to itself, and every proof carries an attestation block
+ * with the registration and what the OS reports about the device.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Device from 'expo-device';
+import Constants from 'expo-constants';
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import nacl from 'tweetnacl';
+import { DeviceAttestation, DeviceRegistration } from '@/src/types';
+import { Signer } from '../crypto/Signer';
+import { createRegistrationMessage } from './DeviceRegistration';
+import { encodeSigningPayload } from '../encoding/OffchainMessage';
+
+const STORAGE_KEYS = {
+  INSTALL_ID: '@depin-go:install-id',
+  REGISTRATIONS: '@depin-go:device-registrations',
+};
+
+export class DeviceIdentity {
+  private installId: Promise<string> | null = null;
+  private pendingRegistrations = new Map<string, Promise<DeviceRegistration>>();
+
+  /**
+   * Random ID for this install, created on first use
+   */
+  getInstallId(): Promise<string> {
+    if (!this.installId) {
+      this.installId = this.loadOrCreateInstallId().catch((error) => {
+        // Let the next call retry instead of caching the failure
+        this.installId = null;
+        throw error;
+      });
+    }
+    return this.installId;
+  }
+
+  /**
+   * Bind this install to a wallet. Only signs the first time per wallet;
+   * later calls return the stored registration. Concurrent calls for the
+   * same wallet share one signing request.
+   */
+  async register(signer: Signer): Promise<DeviceRegistration> {
+    const wallet = signer.getPublicKey();
+    if (!wallet) {
+      throw new Error('Signer not authorized. Call authorize() first.');
+    }
+
+    const key = wallet.toBase58();
+    let pending = this.pendingRegistrations.get(key);
+    if (!pending) {
+      pending = this.registerWallet(signer, wallet).finally(() => {
+        this.pendingRegistrations.delete(key);
+      });
+      this.pendingRegistrations.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Stored registration for a wallet, if this install has one
+   */
+  async getRegistration(wallet: PublicKey): Promise<DeviceRegistration | null> {
+    const registrations = await this.loadRegistrations();
+    const registration = registrations[wallet.toBase58()];
+    // A restored backup from another install doesn't count
+    return registration && registration.installId === (await this.getInstallId())
+      ? registration
+      : null;
+  }
+
+  /**
+   * Attestation block for a proof signed by `wallet`
+   */
+  async getAttestation(wallet?: PublicKey | null): Promise<DeviceAttestation> {
+    const installId = await this.getInstallId();
+    const registration = wallet ? await this.getRegistration(wallet) : null;
+
+    return {
+      installId,
+      model: Device.modelName,
+      modelId: Device.modelId ?? null,
+      osName: Device.osName,
+      osVersion: Device.osVersion,
+      isDevice: Device.isDevice,
+      appVersion: Constants.expoConfig?.version ?? null,
+      ...(registration && {
+        registeredAt: registration.registeredAt,
+        registrationSignature: registration.signature,
+      }),
+    };
+  }
+
+  private async registerWallet(signer: Signer, wallet: PublicKey): Promise<DeviceRegistration> {
+    const existing = await this.getRegistration(wallet);
+    if (existing) return existing;
+
+    try {
+      const installId = await this.getInstallId();
+      const registeredAt = Date.now();
+      const { signature, publicKey } = await signer.signData(
+        encodeSigningPayload(createRegistrationMessage(installId, wallet, registeredAt))
+      );
+
+      if (!publicKey.equals(wallet)) {
+        throw new Error('Signer key changed during device registration');
+      }
+
+      const registration: DeviceRegistration = {
+        installId,
+        wallet: wallet.toBase58(),
+        registeredAt,
+        signature: bs58.encode(signature),
+      };
+
+      const registrations = await this.loadRegistrations();
+      registrations[registration.wallet] = registration;
+      await AsyncStorage.setItem(STORAGE_KEYS.REGISTRATIONS, JSON.stringify(registrations));
+
+      return registration;
+    } catch (error) {
+      console.error('Device registration failed:', error);
+      throw error;
+    }
+  }
+
+  private async loadOrCreateInstallId(): Promise<string> {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.INSTALL_ID);
+    if (stored) return stored;
+
+    const installId = bs58.encode(nacl.randomBytes(16));
+    await AsyncStorage.setItem(STORAGE_KEYS.INSTALL_ID, installId);
+    return installId;
+  }
+
+  private async loadRegistrations(): Promise<Record<string, DeviceRegistration>> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.REGISTRATIONS);
+      return data ? JSON.parse(data) : {};
+    } catch (error) {
+      console.error('Failed to load device registrations:', error);
+      return {};
+    }
+  }
+}
+
+/**
+ * Singleton instance for app-wide use
+ */
+export const deviceIdentity = new DeviceIdentity();
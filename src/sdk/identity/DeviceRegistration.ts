@@ -0,0 +1,52 @@
+/**
+ * DeviceRegistration - Message format for binding an install ID to a wallet
+ *
+ * Kept free of Expo modules so backends can verify registrations carried in
+ * a proof's device attestation.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { DeviceAttestation } from '@/src/types';
+import { canonicalize } from '../encoding/CanonicalJson';
+import { verifyWalletSignature } from '../crypto/Signer';
+
+const REGISTRATION_PREFIX = 'depin-go:device-registration:v1:';
+
+/**
+ * Bytes the wallet signs to register an install
+ */
+export function createRegistrationMessage(
+  installId: string,
+  wallet: PublicKey | string,
+  registeredAt: number
+): Uint8Array {
+  const body = canonicalize({
+    installId,
+    wallet: typeof wallet === 'string' ? wallet : wallet.toBase58(),
+    registeredAt,
+  });
+  return new TextEncoder().encode(`${REGISTRATION_PREFIX}${body}`);
+}
+
+/**
+ * Check that an attestation's install ID was registered by this wallet
+ */
+export function verifyDeviceRegistration(
+  attestation: DeviceAttestation,
+  wallet: PublicKey
+): boolean {
+  if (!attestation.registrationSignature || attestation.registeredAt === undefined) {
+    return false;
+  }
+
+  try {
+    return verifyWalletSignature(
+      createRegistrationMessage(attestation.installId, wallet, attestation.registeredAt),
+      bs58.decode(attestation.registrationSignature),
+      wallet
+    );
+  } catch {
+    return false;
+  }
+}
@@ -3,18 +3,175 @@
  * 
  * A comprehensive toolkit for building DePIN applications on Solana Mobile
  * 
+ * Code that verifies proofs imports nothing from Expo or React Native, so a
+ * backend can run the same modules the app uses; only signers, storage and
+ * sensor capture depend on the device.
+ * 
  * @packageDocumentation
  */
 
+import type { Signer } from './crypto/Signer';
+
 // Core exports
 export { SeedVaultSigner, seedVaultSigner } from './crypto/SeedVaultSigner';
+export { KeypairSigner } from './crypto/KeypairSigner';
+export { DelegatedSigner } from './crypto/DelegatedSigner';
+export type { DelegationOptions } from './crypto/DelegatedSigner';
+export {
+  createCertificateMessage,
+  createRevocationMessage,
+  getCertificateId,
+  verifyCertificateSignature,
+  verifyRevocation,
+  registerRevocation,
+  isCertificateRevoked,
+  verifyDelegation,
+  auditDelegationClaims,
+  isDelegatedProof,
+  getProofAuthority,
+} from './crypto/Delegation';
+export type { DelegationClaimConflict, DelegationVerifyOptions } from './crypto/Delegation';
+export {
+  commitField,
+  commitSensorData,
+  createDisclosure,
+  verifyDisclosure,
+  getHolderData,
+  COMMITMENT_SCHEME,
+} from './crypto/SelectiveDisclosure';
+export { getSignedSignerKind, isHardwareSignerKind, verifyWalletSignature } from './crypto/Signer';
+export type { Signer } from './crypto/Signer';
+export { LocalChallengeSource } from './crypto/LocalChallengeSource';
+export type { LocalChallengeSourceOptions } from './crypto/LocalChallengeSource';
+export { verifyProofChallenge } from './crypto/ChallengeSource';
+export { fetchTimeWitness, verifyTimeWitness } from './crypto/TimeWitness';
+export { DeviceIdentity, deviceIdentity } from './identity/DeviceIdentity';
+export { createRegistrationMessage, verifyDeviceRegistration } from './identity/DeviceRegistration';
+export type { TimeWitnessVerifyOptions } from './crypto/TimeWitness';
+export type { ChallengeSource, ChallengeVerifier, ChallengeStatus } from './crypto/ChallengeSource';
 export { ProofGenerator, createProofGenerator } from './crypto/ProofGenerator';
+export type { ProofGeneratorOptions } from './crypto/ProofGenerator';
+export { computeProofId, deriveProofId, proofIdToBytes, hasValidProofId } from './crypto/ProofId';
+export { ProofChain, proofChain, auditProofChains, getChainKey } from './crypto/ProofChain';
+export type {
+  ChainHead,
+  ChainAuditIssue,
+  ChainAuditIssueKind,
+  ChainAuditReport,
+  ChainAuditSummary,
+} from './crypto/ProofChain';
 export { SensorManager } from './sensors/SensorManager';
 export { ProofStorage } from './storage/ProofStorage';
+export { RevocationStorage, revocationStorage } from './storage/RevocationStorage';
 
 // Sensor-specific exports
 export { GPSProofGenerator } from './sensors/GPSProof';
-export { AccelerometerProofGenerator } from './sensors/AccelerometerProof';
+export type { LocationProofOptions } from './sensors/GPSProof';
+export { AccelerometerProofGenerator, StepCounter } from './sensors/AccelerometerProof';
+export { GyroscopeProofGenerator } from './sensors/GyroscopeProof';
+export { MagnetometerProofGenerator } from './sensors/MagnetometerProof';
+export { BarometerProofGenerator } from './sensors/BarometerProof';
+export type { PressureProofOptions } from './sensors/BarometerProof';
+export { NetworkSpeedProofGenerator } from './sensors/NetworkSpeedProof';
+export { LightProofGenerator } from './sensors/LightProof';
+export {
+  PedometerProofGenerator,
+  getStepDisagreement,
+  isStepCountConsistent,
+  MAX_STEP_DISAGREEMENT,
+} from './sensors/PedometerProof';
+export type { StepProofOptions } from './sensors/PedometerProof';
+export { SnapshotProofGenerator, getSnapshotReading } from './sensors/SnapshotProof';
+export type { SnapshotOptions } from './sensors/SnapshotProof';
+export { TrajectoryRecorder } from './sensors/TrajectoryProof';
+export type { TrajectoryOptions, RecordedTrajectory } from './sensors/TrajectoryProof';
+
+// Sensor plugins
+export { SensorProofSource } from './sensors/SensorProofSource';
+export type { ListenerSensor, SamplingOptions } from './sensors/SensorProofSource';
+export { SensorRegistry, sensorRegistry } from './sensors/SensorRegistry';
+export type {
+  SensorDefinition,
+  SensorSourceRegistration,
+  RegisteredSensor,
+} from './sensors/SensorRegistry';
+
+// Location privacy and geometry
+export {
+  applyLocationPrivacy,
+  applyBoundsPrivacy,
+  getLocationBounds,
+  isLocationWithinGeofence,
+  getMinimumDistance,
+  DEFAULT_GRID_DEGREES,
+  DEFAULT_GEOHASH_PRECISION,
+  REGION_GRID_DEGREES,
+} from './location/LocationPrivacy';
+export type { LocationPrivacySetting, GeofenceMode } from './location/LocationPrivacy';
+export { analyzeLocationHistory } from './location/LocationHistory';
+export type {
+  LocationHistoryOptions,
+  LocationHistoryReport,
+  LocationSpoofIssue,
+  LocationSpoofKind,
+} from './location/LocationHistory';
+export {
+  GeofenceTracker,
+  validateGeofenceRegion,
+  getDistanceToRegion,
+  isInsideRegion,
+  isPointInPolygon,
+  getRegionCircle,
+} from './location/Geofence';
+export type { GeofenceEvent } from './location/Geofence';
+export {
+  GeofenceMonitor,
+  loadGeofences,
+  saveGeofence,
+  removeGeofence,
+  GEOFENCE_TASK,
+} from './location/GeofenceMonitor';
+export type { GeofenceMonitorMode, GeofenceMonitorOptions } from './location/GeofenceMonitor';
+export {
+  encodeTrajectoryPoint,
+  summarizeTrajectory,
+  getTrajectoryPointProof,
+  verifyTrajectoryPoint,
+  trajectoryToGPX,
+  trajectoryToGeoJSON,
+} from './location/Trajectory';
+export { encodeGeohash, decodeGeohash, decodeGeohashBounds, MAX_GEOHASH_PRECISION } from './location/Geohash';
+export {
+  haversineDistance,
+  toLocalMeters,
+  getBoundsCenter,
+  getBoundsRadius,
+  isBoundsWithinCircle,
+  doesBoundsOverlapCircle,
+} from './location/Geo';
+export type { LatLng, LatLngBounds } from './location/Geo';
+
+// Cross-sensor consistency
+export {
+  checkConsistency,
+  checkAltitudeConsistency,
+  checkMotionConsistency,
+  checkHeadingConsistency,
+  checkNetworkConsistency,
+  pressureToAltitude,
+  classifyActivity,
+} from './consistency/ConsistencyEngine';
+export type { ConsistencyOptions, ActivityClass } from './consistency/ConsistencyEngine';
+
+// Background collection
+export { BackgroundCollector, backgroundCollector, BACKGROUND_COLLECTION_TASK } from './background/BackgroundCollector';
+export type {
+  BackgroundScheduleEntry,
+  BackgroundCollectionConfig,
+  BackgroundOutcome,
+  BackgroundActivity,
+  BackgroundCollectionStatus,
+} from './background/BackgroundCollector';
 
 // Hooks
 export { useDePIN } from '../hooks/useDePIN';
@@ -28,12 +185,68 @@ export * from '../types';
 // Constants
 export { SOLANA_CONFIG, DEPIN_CONFIG, SENSOR_CONFIG } from '../utils/constants';
 
+// Message encoding
+export {
+  encodeSensorMessage,
+  decodeSensorMessage,
+  detectSensorMessageVersion,
+  CURRENT_SENSOR_MESSAGE_VERSION,
+  toOnChainTimestamp,
+  encodeOnChainData,
+} from './encoding/SensorMessage';
+export { canonicalize } from './encoding/CanonicalJson';
+export {
+  wrapOffchainMessage,
+  unwrapOffchainMessage,
+  isOffchainMessage,
+  encodeSigningPayload,
+  OffchainMessageFormat,
+  CURRENT_SIGNATURE_ENVELOPE,
+} from './encoding/OffchainMessage';
+export {
+  encodeSensorPayload,
+  hasPayloadSchema,
+  registerPayloadSchema,
+  SENSOR_PAYLOAD_SCHEMAS,
+  TRAJECTORY_POINT_SCHEMA,
+} from './encoding/SensorSchemas';
+export { BorshWriter, BorshReader } from './encoding/Borsh';
+
+// Merkle batching (matches the program's verify_merkle_proof)
+export {
+  buildMerkleTree,
+  getMerklePath,
+  computeMerkleRoot,
+  verifyMerklePath,
+  hashLeaf,
+  hashNode,
+} from './crypto/Merkle';
+export type { MerkleTree } from './crypto/Merkle';
+
+// Root-signed bundles (one signature per batch of unsigned readings)
+export {
+  buildBundle,
+  createBundleMessage,
+  getBundledReadingProof,
+  verifyBundledReading,
+  verifyRootSignedBundle,
+} from './crypto/RootSignedBundle';
+
 // Utilities
 export { 
   createSensorMessage,
   verifySensorProof,
   serializeProof,
   deserializeProof,
+  reviveProof,
+  reviveRootSignedBundle,
+  verifyProofDetailed,
+} from '../utils/proof-helpers';
+export type {
+  ProofCheck,
+  ProofCheckId,
+  ProofCheckStatus,
+  ProofVerificationReport,
 } from '../utils/proof-helpers';
 
 /**
@@ -60,17 +273,20 @@ export async function initializeDePIN(config: {
   cluster?: 'devnet' | 'mainnet-beta';
   sensorTypes?: string[];
   autoConnect?: boolean;
+  signer?: Signer;
 }) {
   const { SeedVaultSigner } = await import('./crypto/SeedVaultSigner');
   const { ProofGenerator } = await import('./crypto/ProofGenerator');
   const { SensorManager } = await import('./sensors/SensorManager');
+  const { deviceIdentity } = await import('./identity/DeviceIdentity');
 
-  const signer = new SeedVaultSigner();
-  const proofGenerator = new ProofGenerator(signer);
+  const signer = config.signer ?? new SeedVaultSigner();
+  const proofGenerator = new ProofGenerator(signer, { deviceIdentity });
   const sensorManager = new SensorManager();
 
   if (config.autoConnect) {
     await signer.authorize();
+    await deviceIdentity.register(signer);
   }
 
   return {
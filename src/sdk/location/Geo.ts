@@ -0,0 +1,94 @@
+/**
+ * Geo - Distance and bounding-box helpers shared by location features
+ * Pure math, no Expo imports.
+ */
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface LatLngBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+const EARTH_RADIUS_METERS = 6371e3;
+
+/**
+ * Great-circle distance in meters (Haversine formula)
+ */
+export function haversineDistance(coord1: LatLng, coord2: LatLng): number {
+  const φ1 = (coord1.latitude * Math.PI) / 180;
+  const φ2 = (coord2.latitude * Math.PI) / 180;
+  const Δφ = ((coord2.latitude - coord1.latitude) * Math.PI) / 180;
+  const Δλ = ((coord2.longitude - coord1.longitude) * Math.PI) / 180;
+
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return EARTH_RADIUS_METERS * c;
+}
+
+/**
+ * Position in meters east (x) and north (y) of an origin. Equirectangular,
+ * so only accurate over a few kilometers.
+ */
+export function toLocalMeters(origin: LatLng, point: LatLng): { x: number; y: number } {
+  const metersPerDegree = (Math.PI / 180) * EARTH_RADIUS_METERS;
+  return {
+    x: (point.longitude - origin.longitude) * metersPerDegree * Math.cos((origin.latitude * Math.PI) / 180),
+    y: (point.latitude - origin.latitude) * metersPerDegree,
+  };
+}
+
+export function getBoundsCenter(bounds: LatLngBounds): LatLng {
+  return {
+    latitude: (bounds.south + bounds.north) / 2,
+    longitude: (bounds.west + bounds.east) / 2,
+  };
+}
+
+export function getBoundsCorners(bounds: LatLngBounds): LatLng[] {
+  return [
+    { latitude: bounds.south, longitude: bounds.west },
+    { latitude: bounds.south, longitude: bounds.east },
+    { latitude: bounds.north, longitude: bounds.west },
+    { latitude: bounds.north, longitude: bounds.east },
+  ];
+}
+
+/**
+ * Farthest any point of the box can be from its centre
+ */
+export function getBoundsRadius(bounds: LatLngBounds): number {
+  const center = getBoundsCenter(bounds);
+  return Math.max(...getBoundsCorners(bounds).map((corner) => haversineDistance(center, corner)));
+}
+
+/**
+ * True when the whole box lies inside the circle
+ * A circle is convex, so checking the corners is enough.
+ */
+export function isBoundsWithinCircle(bounds: LatLngBounds, center: LatLng, radiusMeters: number): boolean {
+  return getBoundsCorners(bounds).every((corner) => haversineDistance(corner, center) <= radiusMeters);
+}
+
+/**
+ * True when the box and the circle share at least one point
+ */
+export function doesBoundsOverlapCircle(bounds: LatLngBounds, center: LatLng, radiusMeters: number): boolean {
+  const nearest: LatLng = {
+    latitude: clamp(center.latitude, bounds.south, bounds.north),
+    longitude: clamp(center.longitude, bounds.west, bounds.east),
+  };
+  return haversineDistance(nearest, center) <= radiusMeters;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
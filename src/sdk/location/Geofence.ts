@@ -0,0 +1,225 @@
+/**
+ * Geofence - Region geometry and enter/exit/dwell tracking
+ *
+ * A GeofenceTracker turns a stream of fixes (polling) or region transitions
+ * (native monitoring) into events, one region at a time:
+ * - enter: the first fix inside, including the very first fix of a session
+ * - exit:  the first fix clearly outside — while inside, a fix within its
+ *          accuracy of the boundary doesn't count as leaving, so GPS jitter
+ *          at the edge doesn't fire enter/exit pairs
+ * - dwell: still inside dwellMs after entering (once per visit)
+ */
+
+import { GeofenceEventType, GeofenceRegion, GeofenceShape } from '@/src/types';
+import { haversineDistance, LatLng, toLocalMeters } from './Geo';
+
+export interface GeofenceEvent {
+  type: GeofenceEventType;
+  region: GeofenceRegion;
+  timestamp: number;
+}
+
+interface RegionState {
+  inside: boolean;
+  enteredAt: number;
+  dwelled: boolean;
+}
+
+/**
+ * Check a region before it is stored or monitored
+ */
+export function validateGeofenceRegion(region: GeofenceRegion): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!region.id) errors.push('Missing region ID');
+  if (!region.name) errors.push('Missing region name');
+
+  const { shape } = region;
+  if (shape?.kind === 'circle') {
+    if (!isValidCoordinate(shape.center)) errors.push('Circle center is not a valid coordinate');
+    if (!(shape.radiusMeters > 0)) errors.push('Circle radius must be positive');
+  } else if (shape?.kind === 'polygon') {
+    if (!Array.isArray(shape.vertices) || shape.vertices.length < 3) {
+      errors.push('A polygon needs at least three vertices');
+    } else if (!shape.vertices.every(isValidCoordinate)) {
+      errors.push('Polygon has an invalid vertex');
+    }
+  } else {
+    errors.push('Shape must be a circle or a polygon');
+  }
+
+  if (region.dwellMs !== undefined && !(region.dwellMs > 0)) {
+    errors.push('Dwell time must be positive');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * Meters from a point to the region, 0 when the point is inside
+ */
+export function getDistanceToRegion(point: LatLng, shape: GeofenceShape): number {
+  if (shape.kind === 'circle') {
+    return Math.max(0, haversineDistance(point, shape.center) - shape.radiusMeters);
+  }
+
+  if (isPointInPolygon(point, shape.vertices)) return 0;
+
+  // Nearest edge, in meters around the point
+  const corners = shape.vertices.map((v) => toLocalMeters(point, v));
+  return Math.min(...corners.map((a, i) => distanceToSegment(a, corners[(i + 1) % corners.length])));
+}
+
+export function isInsideRegion(point: LatLng, shape: GeofenceShape): boolean {
+  return getDistanceToRegion(point, shape) === 0;
+}
+
+/**
+ * Ray casting in degrees — fine for regions that don't span the antimeridian
+ */
+export function isPointInPolygon(point: LatLng, vertices: LatLng[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude)
+      && point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Smallest circle around the region's vertices from their centroid
+ * (the circle itself for circular regions) — what native monitoring can watch
+ */
+export function getRegionCircle(shape: GeofenceShape): { center: LatLng; radiusMeters: number } {
+  if (shape.kind === 'circle') {
+    return { center: shape.center, radiusMeters: shape.radiusMeters };
+  }
+
+  const center = {
+    latitude: shape.vertices.reduce((sum, v) => sum + v.latitude, 0) / shape.vertices.length,
+    longitude: shape.vertices.reduce((sum, v) => sum + v.longitude, 0) / shape.vertices.length,
+  };
+  return {
+    center,
+    radiusMeters: Math.max(...shape.vertices.map((v) => haversineDistance(center, v))),
+  };
+}
+
+export class GeofenceTracker {
+  private regions: GeofenceRegion[];
+  private states = new Map<string, RegionState>();
+
+  constructor(regions: GeofenceRegion[] = []) {
+    this.regions = regions;
+  }
+
+  getRegions(): GeofenceRegion[] {
+    return [...this.regions];
+  }
+
+  /**
+   * Replace the regions; kept regions keep their state
+   */
+  setRegions(regions: GeofenceRegion[]): void {
+    this.regions = regions;
+    const ids = new Set(regions.map((r) => r.id));
+    for (const id of [...this.states.keys()]) {
+      if (!ids.has(id)) this.states.delete(id);
+    }
+  }
+
+  isInside(regionId: string): boolean {
+    return this.states.get(regionId)?.inside ?? false;
+  }
+
+  /**
+   * Whether the device has been placed inside or outside the region yet
+   */
+  hasState(regionId: string): boolean {
+    return this.states.has(regionId);
+  }
+
+  /**
+   * Events caused by a new fix
+   */
+  update(fix: LatLng & { accuracy?: number | null }, timestamp: number): GeofenceEvent[] {
+    const margin = fix.accuracy ?? 0;
+
+    return this.regions.flatMap((region) => {
+      const distance = getDistanceToRegion(fix, region.shape);
+      const wasInside = this.isInside(region.id);
+      return this.transition(region, wasInside ? distance <= margin : distance === 0, timestamp);
+    });
+  }
+
+  /**
+   * Events caused by a region transition reported by native monitoring
+   */
+  setInside(regionId: string, inside: boolean, timestamp: number): GeofenceEvent[] {
+    const region = this.regions.find((r) => r.id === regionId);
+    return region ? this.transition(region, inside, timestamp) : [];
+  }
+
+  /**
+   * Dwell events due by `now`, for callers that check on a timer rather
+   * than waiting for the next fix
+   */
+  checkDwell(now: number): GeofenceEvent[] {
+    return this.regions.flatMap((region) => {
+      const state = this.states.get(region.id);
+      return state?.inside ? this.dwellEvents(region, state, now) : [];
+    });
+  }
+
+  private transition(region: GeofenceRegion, inside: boolean, timestamp: number): GeofenceEvent[] {
+    const state = this.states.get(region.id);
+    const events: GeofenceEvent[] = [];
+
+    if (inside && !state?.inside) {
+      const entered: RegionState = { inside: true, enteredAt: timestamp, dwelled: false };
+      this.states.set(region.id, entered);
+      events.push({ type: 'enter', region, timestamp });
+      events.push(...this.dwellEvents(region, entered, timestamp));
+    } else if (inside && state) {
+      events.push(...this.dwellEvents(region, state, timestamp));
+    } else if (!inside && state?.inside) {
+      this.states.set(region.id, { inside: false, enteredAt: 0, dwelled: false });
+      events.push({ type: 'exit', region, timestamp });
+    } else if (!state) {
+      this.states.set(region.id, { inside: false, enteredAt: 0, dwelled: false });
+    }
+
+    return events.filter((event) => !region.triggers || region.triggers.includes(event.type));
+  }
+
+  private dwellEvents(region: GeofenceRegion, state: RegionState, now: number): GeofenceEvent[] {
+    if (!region.dwellMs || state.dwelled || now - state.enteredAt < region.dwellMs) return [];
+    state.dwelled = true;
+    return [{ type: 'dwell', region, timestamp: now }];
+  }
+}
+
+function isValidCoordinate(point: LatLng | undefined): boolean {
+  return !!point
+    && Number.isFinite(point.latitude) && Math.abs(point.latitude) <= 90
+    && Number.isFinite(point.longitude) && Math.abs(point.longitude) <= 180;
+}
+
+function distanceToSegment(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  // Distance from the origin (the point) to segment ab
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, -(a.x * dx + a.y * dy) / lengthSquared));
+  return Math.hypot(a.x + t * dx, a.y + t * dy);
+}
@@ -0,0 +1,341 @@
+/**
+ * GeofenceMonitor - Generate proofs when the device enters, leaves or
+ * dwells in a region
+ *
+ * Regions are stored in ProofStorage settings. A running monitor watches
+ * them one of two ways:
+ * - native:  expo-location region monitoring (TaskManager geofencing task),
+ *            used when the task manager is available, background location is
+ *            granted and every region is a circle
+ * - polling: a foreground location watch fed to a GeofenceTracker
+ * On every event a fresh GPS fix is signed with the event in
+ * context.geofence and saved to ProofStorage. Native dwell events use a
+ * timer, so they only fire while the app is running.
+ *
+ * A wallet can't sign without the user, so with a wallet signer, events in
+ * the background are queued in ProofStorage as unsigned readings, the same
+ * queue BackgroundCollector.signWithWallet() signs. When the OS relaunches
+ * the app for a native event, the task rebuilds the monitor from the
+ * settings start() stored; that monitor has no signer and queues everything.
+ */
+
+import { AppState } from 'react-native';
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { GeofenceRegion, GeofenceTrigger, SensorData, SensorProof } from '@/src/types';
+import { isHardwareSignerKind, Signer } from '../crypto/Signer';
+import { seedVaultSigner } from '../crypto/SeedVaultSigner';
+import { ProofGenerator, ProofGeneratorOptions } from '../crypto/ProofGenerator';
+import { deviceIdentity } from '../identity/DeviceIdentity';
+import { proofStorage } from '../storage/ProofStorage';
+import { GPSProofGenerator, LocationProofOptions } from '../sensors/GPSProof';
+import { GeofenceEvent, GeofenceTracker, getRegionCircle, validateGeofenceRegion } from './Geofence';
+
+export const GEOFENCE_TASK = 'depin-go-geofence';
+
+const GEOFENCES_SETTING = 'geofences';
+// What a relaunched process needs to keep monitoring natively
+const MONITOR_SETTING = 'geofenceMonitor';
+
+export type GeofenceMonitorMode = 'native' | 'polling';
+
+export interface GeofenceMonitorOptions {
+  mode?: GeofenceMonitorMode | 'auto';     // default 'auto': native where available
+  timeInterval?: number;                   // polling: ms between fixes, default 15000
+  distanceInterval?: number;               // polling: meters between fixes, default 20
+  maxAccuracy?: number;                    // polling: ignore fixes worse than this, default 100
+  locationOptions?: LocationProofOptions;  // for the proof's fix
+  onEvent?: (event: GeofenceEvent, proof: SensorProof | null) => void;  // null: queued unsigned
+}
+
+// The native task is defined once for the app, so only one monitor can run
+let activeMonitor: GeofenceMonitor | null = null;
+
+TaskManager.defineTask<{ eventType: Location.GeofencingEventType; region: Location.LocationRegion }>(
+  GEOFENCE_TASK,
+  async ({ data, error }) => {
+    if (error) {
+      console.error('[GeofenceMonitor] Geofencing task failed:', error);
+      return;
+    }
+    if (!data?.region?.identifier) return;
+    try {
+      const monitor = activeMonitor ?? (await GeofenceMonitor.restore());
+      monitor?.handleRegionEvent(
+        data.region.identifier,
+        data.eventType === Location.GeofencingEventType.Enter
+      );
+    } catch (restoreError) {
+      console.error('[GeofenceMonitor] Failed to restore the monitor:', restoreError);
+    }
+  }
+);
+
+/**
+ * Stored geofence regions
+ */
+export async function loadGeofences(): Promise<GeofenceRegion[]> {
+  return getStoredRegions(await proofStorage.getSettings());
+}
+
+/**
+ * Store a region, replacing any region with the same ID
+ */
+export async function saveGeofence(region: GeofenceRegion): Promise<void> {
+  const { isValid, errors } = validateGeofenceRegion(region);
+  if (!isValid) {
+    throw new Error(`Invalid geofence: ${errors.join('; ')}`);
+  }
+
+  await proofStorage.updateSettings((settings) => ({
+    ...settings,
+    [GEOFENCES_SETTING]: [...getStoredRegions(settings).filter((r) => r.id !== region.id), region],
+  }));
+  await activeMonitor?.refresh();
+}
+
+export async function removeGeofence(regionId: string): Promise<void> {
+  await proofStorage.updateSettings((settings) => ({
+    ...settings,
+    [GEOFENCES_SETTING]: getStoredRegions(settings).filter((r) => r.id !== regionId),
+  }));
+  await activeMonitor?.refresh();
+}
+
+function getStoredRegions(settings: Record<string, any>): GeofenceRegion[] {
+  return Array.isArray(settings[GEOFENCES_SETTING]) ? settings[GEOFENCES_SETTING] : [];
+}
+
+export class GeofenceMonitor {
+  private signer: Signer;
+  private gps: GPSProofGenerator;
+  private proofGen: ProofGenerator;
+  private tracker = new GeofenceTracker();
+  private options: GeofenceMonitorOptions = {};
+  private mode: GeofenceMonitorMode | null = null;
+  private watch: { remove: () => void } | null = null;
+  private dwellTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private queue: Promise<void> = Promise.resolve();
+  private restored = false;
+
+  constructor(signer: Signer, options?: ProofGeneratorOptions) {
+    this.signer = signer;
+    this.gps = new GPSProofGenerator(signer, options);
+    this.proofGen = new ProofGenerator(signer, { deviceIdentity, ...options });
+  }
+
+  /**
+   * Rebuild the native monitor in a process the OS started for a geofencing
+   * event, or null if none was running. Which regions the device was in is
+   * lost with the old process; the OS-reported transition is trusted instead.
+   */
+  static async restore(): Promise<GeofenceMonitor | null> {
+    const settings = await proofStorage.getSettings();
+    const stored = settings[MONITOR_SETTING];
+    if (!stored || activeMonitor) return activeMonitor;
+
+    const monitor = new GeofenceMonitor(seedVaultSigner);
+    monitor.restored = true;
+    monitor.options = { locationOptions: stored.locationOptions };
+    monitor.tracker.setRegions(getStoredRegions(settings));
+    monitor.mode = 'native';
+    activeMonitor = monitor;
+    return monitor;
+  }
+
+  /**
+   * How the monitor is watching, or null when stopped
+   */
+  getMode(): GeofenceMonitorMode | null {
+    return this.mode;
+  }
+
+  getRegions(): GeofenceRegion[] {
+    return this.tracker.getRegions();
+  }
+
+  /**
+   * Start watching the stored regions
+   */
+  async start(options?: GeofenceMonitorOptions): Promise<GeofenceMonitorMode> {
+    if (activeMonitor && activeMonitor !== this) {
+      if (!activeMonitor.restored) {
+        throw new Error('Another geofence monitor is already running');
+      }
+      // Take over from a monitor rebuilt by the geofencing task
+      await activeMonitor.stop();
+    }
+    if (this.mode) await this.stop();
+
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      throw new Error('Location permission is required for geofences');
+    }
+
+    this.options = options || {};
+    this.tracker.setRegions(await loadGeofences());
+    activeMonitor = this;
+
+    try {
+      const { mode = 'auto' } = this.options;
+      this.mode = mode === 'auto'
+        ? (await this.canMonitorNatively()) ? 'native' : 'polling'
+        : mode;
+      await this.watchRegions();
+      if (this.mode === 'native') {
+        const { locationOptions } = this.options;
+        await proofStorage.updateSettings((settings) => ({ ...settings, [MONITOR_SETTING]: { locationOptions } }));
+      }
+      return this.mode;
+    } catch (error) {
+      console.error('[GeofenceMonitor] Failed to start:', error);
+      await this.stop();
+      throw error;
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.watch?.remove();
+    this.watch = null;
+    for (const timer of this.dwellTimers.values()) clearTimeout(timer);
+    this.dwellTimers.clear();
+
+    if (this.mode === 'native') {
+      if (await Location.hasStartedGeofencingAsync(GEOFENCE_TASK)) {
+        await Location.stopGeofencingAsync(GEOFENCE_TASK);
+      }
+      await proofStorage.updateSettings(({ [MONITOR_SETTING]: _monitor, ...settings }) => settings);
+    }
+
+    this.mode = null;
+    if (activeMonitor === this) activeMonitor = null;
+  }
+
+  /**
+   * Pick up stored regions that were added or removed while running
+   */
+  async refresh(): Promise<void> {
+    if (!this.mode) return;
+
+    this.tracker.setRegions(await loadGeofences());
+    if (this.mode === 'native') {
+      if (this.tracker.getRegions().some((r) => r.shape.kind !== 'circle')) {
+        // Native monitoring can't watch polygons
+        await this.start({ ...this.options, mode: 'polling' });
+        return;
+      }
+      await this.watchRegions();
+    }
+  }
+
+  /**
+   * A transition reported by the native geofencing task
+   */
+  handleRegionEvent(regionId: string, inside: boolean): void {
+    const now = Date.now();
+    // The OS only reports crossings: a region not seen yet was on the other side
+    if (!this.tracker.hasState(regionId)) {
+      this.tracker.setInside(regionId, !inside, now);
+    }
+    this.dispatch(this.tracker.setInside(regionId, inside, now));
+
+    clearTimeout(this.dwellTimers.get(regionId));
+    this.dwellTimers.delete(regionId);
+
+    const region = this.tracker.getRegions().find((r) => r.id === regionId);
+    if (inside && region?.dwellMs) {
+      this.dwellTimers.set(regionId, setTimeout(() => {
+        this.dwellTimers.delete(regionId);
+        this.dispatch(this.tracker.checkDwell(Date.now()));
+      }, region.dwellMs));
+    }
+  }
+
+  private async canMonitorNatively(): Promise<boolean> {
+    if (this.tracker.getRegions().some((r) => r.shape.kind !== 'circle')) return false;
+    if (!(await TaskManager.isAvailableAsync())) return false;
+
+    const { status } = await Location.getBackgroundPermissionsAsync();
+    return status === 'granted';
+  }
+
+  private async watchRegions(): Promise<void> {
+    const regions = this.tracker.getRegions();
+
+    if (this.mode === 'native') {
+      if (regions.length === 0) {
+        if (await Location.hasStartedGeofencingAsync(GEOFENCE_TASK)) {
+          await Location.stopGeofencingAsync(GEOFENCE_TASK);
+        }
+        return;
+      }
+      await Location.startGeofencingAsync(GEOFENCE_TASK, regions.map((region) => {
+        const { center, radiusMeters } = getRegionCircle(region.shape);
+        return { identifier: region.id, ...center, radius: radiusMeters, notifyOnEnter: true, notifyOnExit: true };
+      }));
+      return;
+    }
+
+    if (this.watch) return;
+    const { timeInterval = 15000, distanceInterval = 20, maxAccuracy = 100 } = this.options;
+    this.watch = await Location.watchPositionAsync(
+      { accuracy: Location.Accuracy.Balanced, timeInterval, distanceInterval },
+      (location) => {
+        const { latitude, longitude, accuracy } = location.coords;
+        if (accuracy !== null && accuracy > maxAccuracy) return;
+        this.dispatch(this.tracker.update({ latitude, longitude, accuracy }, location.timestamp));
+      }
+    );
+  }
+
+  /**
+   * Prove events one at a time, in order, so signer sessions never overlap
+   */
+  private dispatch(events: GeofenceEvent[]): void {
+    for (const event of events) {
+      this.queue = this.queue.then(() => this.proveEvent(event));
+    }
+  }
+
+  private async proveEvent(event: GeofenceEvent): Promise<void> {
+    let sensorData: SensorData;
+    try {
+      const reading = await this.gps.read(this.options.locationOptions);
+      const geofence: GeofenceTrigger = {
+        regionId: event.region.id,
+        name: event.region.name,
+        event: event.type,
+        shape: event.region.shape,
+      };
+      sensorData = { ...reading, context: { ...reading.context, geofence } };
+    } catch (error) {
+      console.error(`[GeofenceMonitor] Failed to read ${event.type} of ${event.region.name}:`, error);
+      return;
+    }
+
+    try {
+      if (this.canSign()) {
+        try {
+          const proof = await this.proofGen.generateProof(sensorData);
+          await proofStorage.saveProof(proof);
+          this.options.onEvent?.(event, proof);
+          return;
+        } catch (error) {
+          console.error(`[GeofenceMonitor] Failed to sign ${event.type} of ${event.region.name}, queueing:`, error);
+        }
+      }
+      await proofStorage.queueUnsignedReadings([sensorData]);
+      this.options.onEvent?.(event, null);
+    } catch (error) {
+      console.error(`[GeofenceMonitor] Failed to queue ${event.type} of ${event.region.name}:`, error);
+    }
+  }
+
+  /**
+   * A wallet signer needs the user, so it only signs while the app is in front
+   */
+  private canSign(): boolean {
+    if (this.restored) return false;
+    return !isHardwareSignerKind(this.signer.kind) || AppState.currentState === 'active';
+  }
+}
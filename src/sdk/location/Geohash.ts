@@ -0,0 +1,81 @@
+/**
+ * Geohash - Encode coordinates into geohash cells and back
+ * Standard base-32 geohash: each character halves the cell alternately in
+ * longitude and latitude, 5 bits per character.
+ */
+
+import { LatLng, LatLngBounds } from './Geo';
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+export const MAX_GEOHASH_PRECISION = 12;
+
+export function encodeGeohash(latitude: number, longitude: number, precision: number): string {
+  if (!Number.isInteger(precision) || precision < 1 || precision > MAX_GEOHASH_PRECISION) {
+    throw new Error(`Geohash precision must be 1–${MAX_GEOHASH_PRECISION}, got ${precision}`);
+  }
+
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let charIndex = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    const range = evenBit ? lng : lat;
+    const value = evenBit ? longitude : latitude;
+    const mid = (range[0] + range[1]) / 2;
+
+    charIndex <<= 1;
+    if (value >= mid) {
+      charIndex |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += BASE32[charIndex];
+      bits = 0;
+      charIndex = 0;
+    }
+  }
+
+  return hash;
+}
+
+export function decodeGeohashBounds(hash: string): LatLngBounds {
+  if (hash.length === 0) {
+    throw new Error('Empty geohash');
+  }
+
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let evenBit = true;
+
+  for (const char of hash.toLowerCase()) {
+    const index = BASE32.indexOf(char);
+    if (index < 0) {
+      throw new Error(`Invalid geohash character: ${char}`);
+    }
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = evenBit ? lng : lat;
+      const mid = (range[0] + range[1]) / 2;
+      if ((index >> bit) & 1) {
+        range[0] = mid;
+      } else {
+        range[1] = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { south: lat[0], west: lng[0], north: lat[1], east: lng[1] };
+}
+
+export function decodeGeohash(hash: string): LatLng {
+  const { south, west, north, east } = decodeGeohashBounds(hash);
+  return { latitude: (south + north) / 2, longitude: (west + east) / 2 };
+}
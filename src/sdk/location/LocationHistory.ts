@@ -0,0 +1,209 @@
+/**
+ * LocationHistory - Spoof detection across a device's GPS history
+ *
+ * One fix can look perfectly plausible; a faked feed gives itself away
+ * over several. Issues looked for:
+ * - mock_provider:      the OS reported the fix as coming from a mock
+ *                       location app (Android's location.mocked)
+ * - teleport:           faster between two fixes than anything travels
+ * - straight_path:      fixes on a perfectly straight line, as a scripted
+ *                       route produces; real GPS wanders by meters
+ * - frozen_coordinates: the exact same coordinates fix after fix; real
+ *                       GPS jitters even when standing still
+ * - constant_accuracy:  the same accuracy value fix after fix
+ *
+ * Coarsened fixes (see LocationPrivacy) are cell centres, so they only
+ * take part in the mock, teleport and accuracy checks.
+ */
+
+import { LocationPrivacyLevel, SensorData } from '@/src/types';
+import { getMinimumDistance } from './LocationPrivacy';
+import { toLocalMeters } from './Geo';
+
+export type LocationSpoofKind =
+  | 'mock_provider'
+  | 'teleport'
+  | 'straight_path'
+  | 'frozen_coordinates'
+  | 'constant_accuracy';
+
+export interface LocationSpoofIssue {
+  kind: LocationSpoofKind;
+  timestamp: number;   // the (last) fix the issue shows at
+  detail: string;
+}
+
+export interface LocationHistoryReport {
+  isSuspicious: boolean;
+  issues: LocationSpoofIssue[];
+  fixCount: number;
+}
+
+export interface LocationHistoryOptions {
+  maxSpeedMps?: number;                // default 150 (airliners excepted)
+  minRunLength?: number;               // fixes in a straight or frozen run, default 5
+  minAccuracyRunLength?: number;       // fixes with one accuracy value, default 10
+  straightToleranceMeters?: number;    // default 1
+  minStraightLengthMeters?: number;    // default 50
+}
+
+/**
+ * Look for spoofing patterns in a set of GPS readings (any order)
+ */
+export function analyzeLocationHistory(
+  readings: SensorData[],
+  options: LocationHistoryOptions = {}
+): LocationHistoryReport {
+  const {
+    maxSpeedMps = 150,
+    minRunLength = 5,
+    minAccuracyRunLength = 10,
+    straightToleranceMeters = 1,
+    minStraightLengthMeters = 50,
+  } = options;
+
+  const fixes = readings
+    .filter((r) => typeof r.data?.latitude === 'number' && typeof r.data?.longitude === 'number')
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const issues: LocationSpoofIssue[] = [
+    ...findMockedFixes(fixes),
+    ...findTeleports(fixes, maxSpeedMps),
+    ...findFrozenRuns(fixes.filter(isExact), minRunLength),
+    ...findStraightRuns(fixes.filter(isExact), minRunLength, straightToleranceMeters, minStraightLengthMeters),
+    ...findConstantAccuracyRuns(fixes, minAccuracyRunLength),
+  ];
+
+  return {
+    isSuspicious: issues.length > 0,
+    issues: issues.sort((a, b) => a.timestamp - b.timestamp),
+    fixCount: fixes.length,
+  };
+}
+
+function findMockedFixes(fixes: SensorData[]): LocationSpoofIssue[] {
+  const mocked = fixes.filter((f) => f.data.mocked === true);
+  if (mocked.length === 0) return [];
+
+  return [{
+    kind: 'mock_provider',
+    timestamp: mocked[mocked.length - 1].timestamp,
+    detail: `${mocked.length} of ${fixes.length} fixes came from a mock location provider`,
+  }];
+}
+
+function findTeleports(fixes: SensorData[], maxSpeedMps: number): LocationSpoofIssue[] {
+  const issues: LocationSpoofIssue[] = [];
+
+  for (let i = 1; i < fixes.length; i++) {
+    const seconds = (fixes[i].timestamp - fixes[i - 1].timestamp) / 1000;
+    if (seconds <= 0) continue;
+
+    const distance = getMinimumDistance(fixes[i - 1], fixes[i]);
+    const speed = distance / seconds;
+    if (speed > maxSpeedMps) {
+      issues.push({
+        kind: 'teleport',
+        timestamp: fixes[i].timestamp,
+        detail: `Moved ${formatDistance(distance)} in ${seconds.toFixed(0)} s ` +
+          `(${speed.toFixed(0)} m/s > ${maxSpeedMps} m/s)`,
+      });
+    }
+  }
+  return issues;
+}
+
+function findFrozenRuns(fixes: SensorData[], minRunLength: number): LocationSpoofIssue[] {
+  return findRuns(fixes, minRunLength, (run) =>
+    run.every((f) => f.data.latitude === run[0].data.latitude && f.data.longitude === run[0].data.longitude)
+  ).map((run) => ({
+    kind: 'frozen_coordinates' as const,
+    timestamp: run[run.length - 1].timestamp,
+    detail: `${run.length} fixes at exactly ${run[0].data.latitude}, ${run[0].data.longitude}`,
+  }));
+}
+
+function findStraightRuns(
+  fixes: SensorData[],
+  minRunLength: number,
+  toleranceMeters: number,
+  minLengthMeters: number
+): LocationSpoofIssue[] {
+  return findRuns(fixes, minRunLength, (run) => {
+    const deviation = getMaxDeviationFromLine(run);
+    return deviation !== null && deviation.length >= minLengthMeters && deviation.max < toleranceMeters;
+  }).map((run) => {
+    const { length, max } = getMaxDeviationFromLine(run)!;
+    return {
+      kind: 'straight_path' as const,
+      timestamp: run[run.length - 1].timestamp,
+      detail: `${run.length} fixes over ${formatDistance(length)} lie within ${max.toFixed(2)} m of a straight line`,
+    };
+  });
+}
+
+function findConstantAccuracyRuns(fixes: SensorData[], minRunLength: number): LocationSpoofIssue[] {
+  const withAccuracy = fixes.filter((f) => typeof f.data.accuracy === 'number');
+
+  return findRuns(withAccuracy, minRunLength, (run) =>
+    run.every((f) => f.data.accuracy === run[0].data.accuracy)
+  ).map((run) => ({
+    kind: 'constant_accuracy' as const,
+    timestamp: run[run.length - 1].timestamp,
+    detail: `${run.length} fixes in a row report an accuracy of exactly ${run[0].data.accuracy} m`,
+  }));
+}
+
+/**
+ * Longest non-overlapping runs of consecutive fixes, at least minLength
+ * long, for which the predicate holds
+ */
+function findRuns(
+  fixes: SensorData[],
+  minLength: number,
+  holds: (run: SensorData[]) => boolean
+): SensorData[][] {
+  const runs: SensorData[][] = [];
+  let start = 0;
+
+  while (start + minLength <= fixes.length) {
+    let end = start + minLength;
+    if (!holds(fixes.slice(start, end))) {
+      start++;
+      continue;
+    }
+    while (end < fixes.length && holds(fixes.slice(start, end + 1))) end++;
+    runs.push(fixes.slice(start, end));
+    start = end;
+  }
+  return runs;
+}
+
+/**
+ * How far the inner fixes stray from the line through the first and last
+ * one, and that line's length (meters). Null unless every fix moves on
+ * along the line — a route, not a fix standing still or pacing back and forth.
+ */
+function getMaxDeviationFromLine(run: SensorData[]): { max: number; length: number } | null {
+  const origin = run[0].data;
+  const points = run.map((f) => toLocalMeters(origin, f.data));
+  const end = points[points.length - 1];
+  const length = Math.hypot(end.x, end.y);
+  if (length === 0) return null;
+
+  const progress = points.map((p) => (p.x * end.x + p.y * end.y) / length);
+  if (progress.some((d, i) => i > 0 && d <= progress[i - 1])) return null;
+
+  // Perpendicular distance to the line through the origin and `end`
+  const max = Math.max(...points.map((p) => Math.abs(p.x * end.y - p.y * end.x) / length));
+  return { max, length };
+}
+
+function isExact(fix: SensorData): boolean {
+  const level = fix.context?.locationPrivacy?.level;
+  return !level || level === LocationPrivacyLevel.EXACT;
+}
+
+function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters.toFixed(0)} m`;
+}
@@ -0,0 +1,223 @@
+/**
+ * LocationPrivacy - Coarsen GPS readings before they are signed
+ *
+ * Levels (see LocationPrivacyLevel):
+ * - exact:   coordinates as measured
+ * - grid:    snapped to the centre of a gridDegrees × gridDegrees cell
+ * - geohash: centre of a geohash cell of the chosen precision
+ * - region:  region and country only, coordinates on a 1° grid
+ *
+ * Coarsened readings also drop altitude, heading and speed, and the address
+ * loses its postal code (and, for region, its city). The level and the
+ * resulting precision are signed in context.locationPrivacy, so verifiers
+ * know the reported point is a cell centre, and geofence checks work on the
+ * whole cell rather than the point.
+ *
+ * A bounding box (a trajectory's) is widened to the edges of the cells its
+ * corners fall in, so it says no more than coarsened points would.
+ */
+
+import { LocationPrivacy, LocationPrivacyLevel, SensorData } from '@/src/types';
+import {
+  doesBoundsOverlapCircle,
+  getBoundsCenter,
+  getBoundsRadius,
+  haversineDistance,
+  isBoundsWithinCircle,
+  LatLng,
+  LatLngBounds,
+} from './Geo';
+import { decodeGeohashBounds, encodeGeohash } from './Geohash';
+
+export const DEFAULT_GRID_DEGREES = 0.01;      // ≈ 1.1 km of latitude
+export const DEFAULT_GEOHASH_PRECISION = 6;    // ≈ 1.2 km × 0.6 km
+export const REGION_GRID_DEGREES = 1;
+
+export interface LocationPrivacySetting {
+  level: LocationPrivacyLevel;
+  gridDegrees?: number;        // grid only
+  geohashPrecision?: number;   // geohash only
+}
+
+export type GeofenceMode =
+  | 'contained'   // the whole cell is inside the fence: the device certainly was
+  | 'overlaps';   // some of the cell is inside: the device may have been
+
+const COARSE_DROPPED_FIELDS = ['altitude', 'altitudeAccuracy', 'heading', 'speed'];
+
+/**
+ * Coarsen a GPS payload and describe what was done
+ */
+export function applyLocationPrivacy(
+  data: Record<string, any>,
+  setting: LocationPrivacySetting
+): {
+  data: Record<string, any>;
+  privacy: LocationPrivacy;
+} {
+  if (setting.level === LocationPrivacyLevel.EXACT) {
+    return { data, privacy: { level: LocationPrivacyLevel.EXACT, precisionMeters: 0 } };
+  }
+
+  const { latitude, longitude } = data;
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') {
+    throw new Error('GPS data needs numeric latitude and longitude');
+  }
+
+  const { bounds, privacy } = getPrivacyCell(latitude, longitude, setting);
+  const center = getBoundsCenter(bounds);
+  const coarse: Record<string, any> = {
+    ...data,
+    latitude: roundDegrees(center.latitude),
+    longitude: roundDegrees(center.longitude),
+  };
+  for (const field of COARSE_DROPPED_FIELDS) delete coarse[field];
+  if (data.address) {
+    coarse.address = coarsenAddress(data.address, setting.level);
+  }
+
+  return {
+    data: coarse,
+    privacy: { ...privacy, precisionMeters: getBoundsRadius(bounds) },
+  };
+}
+
+/**
+ * Widen a bounding box to the privacy cells of its south-west and north-east
+ * corners and describe what was done
+ */
+export function applyBoundsPrivacy(
+  bounds: LatLngBounds,
+  setting: LocationPrivacySetting
+): {
+  bounds: LatLngBounds;
+  privacy: LocationPrivacy;
+} {
+  if (setting.level === LocationPrivacyLevel.EXACT) {
+    return { bounds, privacy: { level: LocationPrivacyLevel.EXACT, precisionMeters: 0 } };
+  }
+
+  const southWest = getPrivacyCell(bounds.south, bounds.west, setting);
+  const northEast = getPrivacyCell(bounds.north, bounds.east, setting);
+  const { geohash, ...privacy } = southWest.privacy;
+
+  return {
+    bounds: {
+      south: southWest.bounds.south,
+      west: southWest.bounds.west,
+      north: northEast.bounds.north,
+      east: northEast.bounds.east,
+    },
+    privacy: {
+      ...privacy,
+      ...(geohash !== undefined && { geohashPrecision: geohash.length }),
+      // An edge moves by at most one cell
+      precisionMeters: 2 * Math.max(getBoundsRadius(southWest.bounds), getBoundsRadius(northEast.bounds)),
+    },
+  };
+}
+
+/**
+ * The area a GPS reading vouches for: its privacy cell, or just the point
+ * for exact readings
+ */
+export function getLocationBounds(sensorData: SensorData): LatLngBounds {
+  const { latitude, longitude } = sensorData.data;
+  const privacy = sensorData.context?.locationPrivacy;
+
+  if (privacy?.level === LocationPrivacyLevel.GEOHASH && privacy.geohash) {
+    return decodeGeohashBounds(privacy.geohash);
+  }
+  if (privacy?.gridDegrees) {
+    const half = privacy.gridDegrees / 2;
+    return {
+      south: Math.max(-90, latitude - half),
+      west: longitude - half,
+      north: Math.min(90, latitude + half),
+      east: longitude + half,
+    };
+  }
+  return { south: latitude, west: longitude, north: latitude, east: longitude };
+}
+
+/**
+ * Geofence check that respects the reading's precision
+ */
+export function isLocationWithinGeofence(
+  sensorData: SensorData,
+  center: LatLng,
+  radiusMeters: number,
+  mode: GeofenceMode = 'contained'
+): boolean {
+  const bounds = getLocationBounds(sensorData);
+  return mode === 'contained'
+    ? isBoundsWithinCircle(bounds, center, radiusMeters)
+    : doesBoundsOverlapCircle(bounds, center, radiusMeters);
+}
+
+/**
+ * Smallest distance two readings can be apart given their precision
+ */
+export function getMinimumDistance(a: SensorData, b: SensorData): number {
+  const distance = haversineDistance(a.data as LatLng, b.data as LatLng);
+  const slack = (a.context?.locationPrivacy?.precisionMeters ?? 0)
+    + (b.context?.locationPrivacy?.precisionMeters ?? 0);
+  return Math.max(0, distance - slack);
+}
+
+function getPrivacyCell(
+  latitude: number,
+  longitude: number,
+  setting: LocationPrivacySetting
+): {
+  bounds: LatLngBounds;
+  privacy: Omit<LocationPrivacy, 'precisionMeters'>;
+} {
+  switch (setting.level) {
+    case LocationPrivacyLevel.GRID: {
+      const gridDegrees = setting.gridDegrees ?? DEFAULT_GRID_DEGREES;
+      return {
+        bounds: getGridCell(latitude, longitude, gridDegrees),
+        privacy: { level: setting.level, gridDegrees },
+      };
+    }
+    case LocationPrivacyLevel.GEOHASH: {
+      const geohash = encodeGeohash(latitude, longitude, setting.geohashPrecision ?? DEFAULT_GEOHASH_PRECISION);
+      return { bounds: decodeGeohashBounds(geohash), privacy: { level: setting.level, geohash } };
+    }
+    case LocationPrivacyLevel.REGION:
+      return {
+        bounds: getGridCell(latitude, longitude, REGION_GRID_DEGREES),
+        privacy: { level: setting.level, gridDegrees: REGION_GRID_DEGREES },
+      };
+    default:
+      throw new Error(`Unknown location privacy level: ${setting.level}`);
+  }
+}
+
+function getGridCell(latitude: number, longitude: number, gridDegrees: number): LatLngBounds {
+  if (!(gridDegrees > 0)) {
+    throw new Error(`Grid size must be positive, got ${gridDegrees}`);
+  }
+  const south = Math.floor(latitude / gridDegrees) * gridDegrees;
+  const west = Math.floor(longitude / gridDegrees) * gridDegrees;
+  return {
+    south: roundDegrees(Math.max(-90, south)),
+    west: roundDegrees(west),
+    north: roundDegrees(Math.min(90, south + gridDegrees)),
+    east: roundDegrees(west + gridDegrees),
+  };
+}
+
+/**
+ * Strip float noise (0.01 * 3872 = 38.720000000000006) so cell edges and
+ * centres sign as the short decimals they are
+ */
+function roundDegrees(value: number): number {
+  return Number(value.toFixed(9));
+}
+
+function coarsenAddress(address: Record<string, any>, level: LocationPrivacyLevel): Record<string, any> {
+  const { postalCode: _postalCode, city, ...rest } = address;
+  return level === LocationPrivacyLevel.REGION ? rest : { ...rest, city };
+}
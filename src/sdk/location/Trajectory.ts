@@ -0,0 +1,197 @@
+/**
+ * Trajectory - A whole GPS track proven with one signature
+ *
+ * Signing every fix of a commute separately costs hundreds of wallet
+ * signatures and still says nothing about the route. A trajectory proof signs
+ * a summary instead: the Merkle root over the track's points (each point's
+ * Borsh encoding is a leaf, see Merkle.ts), the distance, the duration, the
+ * bounding box and how many points came from a mock location provider. The
+ * holder keeps the points; any one of them can later be shown to belong to
+ * the track through its inclusion path, without revealing the others.
+ *
+ * Tracks export as GPX 1.1 or as a GeoJSON LineString feature.
+ */
+
+import { TrajectoryData, TrajectoryPoint, TrajectoryPointProof } from '@/src/types';
+import { BorshWriter } from '../encoding/Borsh';
+import { TRAJECTORY_POINT_SCHEMA } from '../encoding/SensorSchemas';
+import { buildMerkleTree, fromHex, getMerklePath, hashLeaf, MerkleTree, toHex, verifyMerklePath } from '../crypto/Merkle';
+import { haversineDistance } from './Geo';
+
+/**
+ * Leaf bytes of one point
+ */
+export function encodeTrajectoryPoint(point: TrajectoryPoint): Uint8Array {
+  const writer = new BorshWriter();
+  writer.writeStruct(TRAJECTORY_POINT_SCHEMA, point, 'point');
+  return writer.toBytes();
+}
+
+/**
+ * The payload a trajectory proof signs. Points must be in time order.
+ */
+export function summarizeTrajectory(points: TrajectoryPoint[]): TrajectoryData {
+  const tree = buildTrajectoryTree(points);
+
+  let distanceMeters = 0;
+  for (let i = 1; i < points.length; i++) {
+    distanceMeters += haversineDistance(points[i - 1], points[i]);
+  }
+
+  const latitudes = points.map((p) => p.latitude);
+  const longitudes = points.map((p) => p.longitude);
+  const startTime = points[0].timestamp;
+  const endTime = points[points.length - 1].timestamp;
+
+  return {
+    merkleRoot: toHex(tree.root),
+    pointCount: points.length,
+    distanceMeters: parseFloat(distanceMeters.toFixed(2)),
+    durationMs: endTime - startTime,
+    startTime,
+    endTime,
+    bounds: {
+      south: Math.min(...latitudes),
+      west: Math.min(...longitudes),
+      north: Math.max(...latitudes),
+      east: Math.max(...longitudes),
+    },
+    mockedPointCount: points.filter((p) => p.mocked === true).length,
+  };
+}
+
+/**
+ * Cut one point out of a track together with its inclusion path
+ */
+export function getTrajectoryPointProof(
+  points: TrajectoryPoint[],
+  leafIndex: number
+): TrajectoryPointProof {
+  const tree = buildTrajectoryTree(points);
+  return {
+    point: points[leafIndex],
+    leafIndex,
+    merklePath: getMerklePath(tree, leafIndex).map(toHex),
+  };
+}
+
+/**
+ * Check that a point belongs to a signed track: its path leads to the
+ * signed root, and it lies within the track's time range and bounds.
+ * Verify the trajectory proof's own signature separately.
+ */
+export function verifyTrajectoryPoint(
+  pointProof: TrajectoryPointProof,
+  trajectory: TrajectoryData
+): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const { point, leafIndex } = pointProof;
+
+  if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= trajectory.pointCount) {
+    errors.push(`Leaf index ${leafIndex} is outside a track of ${trajectory.pointCount} points`);
+  }
+
+  if (point.timestamp < trajectory.startTime || point.timestamp > trajectory.endTime) {
+    errors.push('Point timestamp is outside the track\'s time range');
+  }
+
+  const { south, west, north, east } = trajectory.bounds;
+  if (point.latitude < south || point.latitude > north || point.longitude < west || point.longitude > east) {
+    errors.push('Point lies outside the track\'s bounding box');
+  }
+
+  try {
+    const included = verifyMerklePath(
+      hashLeaf(encodeTrajectoryPoint(point)),
+      pointProof.merklePath.map(fromHex),
+      leafIndex,
+      fromHex(trajectory.merkleRoot)
+    );
+    if (!included) errors.push('Merkle path does not lead to the signed root');
+  } catch (error) {
+    errors.push(`Merkle path could not be checked: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * GPX 1.1 document with the points as one track segment. When the signed
+ * summary is given, its Merkle root goes in the track description.
+ */
+export function trajectoryToGPX(
+  points: TrajectoryPoint[],
+  options?: { name?: string; trajectory?: TrajectoryData }
+): string {
+  const { name = 'DePIN-Go track', trajectory } = options || {};
+
+  const trackPoints = points.map((p) => {
+    const elevation = p.altitude !== null ? `<ele>${p.altitude}</ele>` : '';
+    return `      <trkpt lat="${p.latitude}" lon="${p.longitude}">${elevation}` +
+      `<time>${new Date(p.timestamp).toISOString()}</time></trkpt>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="DePIN-Go" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...(trajectory ? [`    <desc>Merkle root: ${escapeXml(trajectory.merkleRoot)}</desc>`] : []),
+    '    <trkseg>',
+    ...trackPoints,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * GeoJSON LineString feature. Point times go in the coordTimes property, as
+ * GPX converters do; altitude is included only when every point has one.
+ */
+export function trajectoryToGeoJSON(
+  points: TrajectoryPoint[],
+  properties: Record<string, any> = {}
+): {
+  type: 'Feature';
+  geometry: { type: 'LineString'; coordinates: number[][] };
+  properties: Record<string, any>;
+} {
+  const withAltitude = points.every((p) => p.altitude !== null);
+
+  return {
+    type: 'Feature',
+    geometry: {
+      type: 'LineString',
+      coordinates: points.map((p) =>
+        withAltitude ? [p.longitude, p.latitude, p.altitude as number] : [p.longitude, p.latitude]
+      ),
+    },
+    properties: {
+      ...properties,
+      coordTimes: points.map((p) => new Date(p.timestamp).toISOString()),
+    },
+  };
+}
+
+function buildTrajectoryTree(points: TrajectoryPoint[]): MerkleTree {
+  if (points.length < 2) {
+    throw new Error('A trajectory needs at least two points');
+  }
+  return buildMerkleTree(points.map(encodeTrajectoryPoint));
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -4,22 +4,46 @@
  */
 
 import * as Sensors from 'expo-sensors';
-import { SensorData, SensorType, AccelerometerData } from '@/src/types';
-import { SeedVaultSigner } from '../crypto/SeedVaultSigner';
-import { ProofGenerator } from '../crypto/ProofGenerator';
-import * as Device from 'expo-device';
-
-export class AccelerometerProofGenerator {
-  private signer: SeedVaultSigner;
-  private proofGen: ProofGenerator;
-  private deviceId: string;
-  private subscription: any = null;
+import { SensorData, SensorType, AccelerometerData, RootSignedBundle } from '@/src/types';
+import { SamplingOptions, SensorProofSource } from './SensorProofSource';
+import { ActivityClass, classifyActivity } from '../consistency/ConsistencyEngine';
+
+/**
+ * Counts steps as upward crossings of a magnitude threshold (in g), at most
+ * one per minimum interval. Shaking the phone also crosses it — see
+ * PedometerProof.ts for the cross-check against the hardware step counter.
+ */
+export class StepCounter {
+  steps = 0;
+  private lastMagnitude = 0;
+  private lastStepTime = 0;
+  private threshold: number;
+  private minTimeBetweenSteps: number;
+
+  constructor(threshold: number = 1.2, minTimeBetweenSteps: number = 200) {
+    this.threshold = threshold;
+    this.minTimeBetweenSteps = minTimeBetweenSteps;
+  }
+
+  push(data: AccelerometerData, now: number = Date.now()): void {
+    const magnitude = Math.sqrt(data.x ** 2 + data.y ** 2 + data.z ** 2);
+
+    if (
+      magnitude > this.threshold &&
+      this.lastMagnitude <= this.threshold &&
+      now - this.lastStepTime > this.minTimeBetweenSteps
+    ) {
+      this.steps++;
+      this.lastStepTime = now;
+    }
 
-  constructor(signer: SeedVaultSigner) {
-    this.signer = signer;
-    this.proofGen = new ProofGenerator(signer);
-    this.deviceId = Device.modelId || 'unknown';
+    this.lastMagnitude = magnitude;
   }
+}
+
+export class AccelerometerProofGenerator extends SensorProofSource<AccelerometerData, SamplingOptions> {
+  readonly sensorType = SensorType.ACCELEROMETER;
+  private subscription: any = null;
 
   /**
    * Check if accelerometer is available on device
@@ -56,87 +80,83 @@ export class AccelerometerProofGenerator {
 
   /**
    * Generate a single movement proof by averaging multiple samples.
-   *
-   * Fix: added an overall timeout (duration + 3s buffer) so the promise
-   * never hangs indefinitely if the sensor fires fewer events than expected
-   * (common on simulators or devices with slow sensor init).
+   * Sampling stops after duration + 3s even if the sensor fires fewer events
+   * than expected (common on simulators or devices with slow sensor init).
    */
-  async generateMovementProof(options?: {
-    duration?: number; // milliseconds to sample
-    samples?: number;  // number of samples to collect
-  }): Promise<any> {
-    const { duration = 1000, samples = 10 } = options || {};
+  async generateMovementProof(options?: SamplingOptions): Promise<any> {
+    return await this.generateProof(options);
+  }
 
-    return new Promise(async (resolve, reject) => {
-      const readings: AccelerometerData[] = [];
-      let count = 0;
-      let resolved = false;
+  async capture(options?: SamplingOptions): Promise<AccelerometerData[]> {
+    const { duration = 1000, samples = 10 } = options || {};
 
-      const interval = Math.max(50, Math.floor(duration / samples));
-      this.setUpdateInterval(interval);
+    const readings = await this.sampleListener(Sensors.Accelerometer, {
+      samples,
+      intervalMs: Math.max(50, Math.floor(duration / samples)),
+      timeoutMs: duration + 3000,
+      noDataMessage: 'No accelerometer data received — is the sensor available?',
+    });
+    return readings.map((data) => ({ x: data.x, y: data.y, z: data.z }));
+  }
 
-      // Timeout guard: fire after duration + 3s buffer regardless
-      const hardTimeout = setTimeout(async () => {
-        if (resolved) return;
-        resolved = true;
-        accelSubscription.remove();
+  summarize(readings: AccelerometerData[], options?: SamplingOptions): Record<string, any> {
+    const { duration = 1000 } = options || {};
+    const avgReading = this.averageReadings(readings);
 
-        if (readings.length === 0) {
-          return reject(new Error('No accelerometer data received — is the sensor available?'));
-        }
+    // Averaging cancels the back-and-forth of motion, so how far each
+    // sample strays from 1 g is kept separately
+    const motionIntensity =
+      readings.reduce((sum, r) => sum + Math.abs(this.calculateMagnitude(r) - 1), 0) / readings.length;
 
-        try {
-          resolve(await this.buildMovementProof(readings, samples, duration));
-        } catch (err) {
-          reject(err);
-        }
-      }, duration + 3000);
+    return {
+      ...avgReading,
+      magnitude: this.calculateMagnitude(avgReading),
+      sampleCount: readings.length, // actual collected, not requested
+      duration,
+      motionIntensity: parseFloat(motionIntensity.toFixed(4)),
+    };
+  }
 
-      const accelSubscription = Sensors.Accelerometer.addListener(async (data) => {
-        if (resolved) return;
+  /**
+   * Record every raw sample for a while and prove them all with one signature.
+   * Each sample is its own reading in a root-signed bundle, so any one of
+   * them can later be verified individually (see RootSignedBundle.ts).
+   */
+  async collectBundle(options?: {
+    duration?: number;        // milliseconds to record
+    updateInterval?: number;  // milliseconds between samples
+  }): Promise<RootSignedBundle> {
+    const { duration = 10000, updateInterval = 50 } = options || {};
+    const deviceId = await this.getDeviceId();
 
-        readings.push({ x: data.x, y: data.y, z: data.z });
-        count++;
+    return new Promise((resolve, reject) => {
+      const readings: SensorData[] = [];
 
-        if (count >= samples) {
-          resolved = true;
-          clearTimeout(hardTimeout);
-          accelSubscription.remove();
+      this.setUpdateInterval(updateInterval);
 
-          try {
-            resolve(await this.buildMovementProof(readings, samples, duration));
-          } catch (err) {
-            reject(err);
-          }
-        }
+      const subscription = Sensors.Accelerometer.addListener((data) => {
+        readings.push({
+          type: SensorType.ACCELEROMETER,
+          timestamp: Date.now(),
+          data: { x: data.x, y: data.y, z: data.z },
+          deviceId,
+        });
       });
-    });
-  }
 
-  /**
-   * Shared helper to build and sign a movement proof from collected readings
-   */
-  private async buildMovementProof(
-    readings: AccelerometerData[],
-    samples: number,
-    duration: number
-  ): Promise<any> {
-    const avgReading = this.averageReadings(readings);
-    const magnitude = this.calculateMagnitude(avgReading);
-
-    const sensorData: SensorData = {
-      type: SensorType.ACCELEROMETER,
-      timestamp: Date.now(),
-      data: {
-        ...avgReading,
-        magnitude,
-        sampleCount: readings.length, // actual collected, not requested
-        duration,
-      },
-      deviceId: this.deviceId,
-    };
+      setTimeout(async () => {
+        subscription.remove();
 
-    return await this.proofGen.generateProof(sensorData);
+        if (readings.length === 0) {
+          return reject(new Error('No accelerometer data received — is the sensor available?'));
+        }
+
+        try {
+          resolve(await this.proofGen.generateRootSignedBundle(readings));
+        } catch (error) {
+          reject(error);
+        }
+      }, duration);
+    });
   }
 
   /**
@@ -146,36 +166,20 @@ export class AccelerometerProofGenerator {
     durationMs: number = 60000
   ): Promise<{ steps: number; proof: any }> {
     return new Promise((resolve, reject) => {
-      let steps = 0;
-      let lastMagnitude = 0;
-      let lastStepTime = 0;
+      const counter = new StepCounter();
       const readings: AccelerometerData[] = [];
 
-      const minTimeBetweenSteps = 200;
-      const stepThreshold = 1.2;
-
       this.setUpdateInterval(100);
 
       const subscription = Sensors.Accelerometer.addListener((data) => {
         const accelData: AccelerometerData = { x: data.x, y: data.y, z: data.z };
         readings.push(accelData);
-
-        const magnitude = this.calculateMagnitude(accelData);
-
-        if (
-          magnitude > stepThreshold &&
-          lastMagnitude <= stepThreshold &&
-          Date.now() - lastStepTime > minTimeBetweenSteps
-        ) {
-          steps++;
-          lastStepTime = Date.now();
-        }
-
-        lastMagnitude = magnitude;
+        counter.push(accelData);
       });
 
       setTimeout(async () => {
         subscription.remove();
+        const { steps } = counter;
 
         const sensorData: SensorData = {
           type: SensorType.ACCELEROMETER,
@@ -185,7 +189,7 @@ export class AccelerometerProofGenerator {
             duration: durationMs,
             averageReading: this.averageReadings(readings),
           },
-          deviceId: this.deviceId,
+          deviceId: await this.getDeviceId(),
         };
 
         try {
@@ -239,7 +243,7 @@ export class AccelerometerProofGenerator {
               magnitude: this.calculateMagnitude(avgReading),
               sampleCount: proofInterval,
             },
-            deviceId: this.deviceId,
+            deviceId: await this.getDeviceId(),
           };
 
           const proof = await this.proofGen.generateProof(sensorData);
@@ -287,7 +291,7 @@ export class AccelerometerProofGenerator {
             type: SensorType.ACCELEROMETER,
             timestamp: Date.now(),
             data: { event: 'shake', maxMagnitude, threshold: thresholdG },
-            deviceId: this.deviceId,
+            deviceId: await this.getDeviceId(),
           };
 
           const proof = await this.proofGen.generateProof(sensorData);
@@ -328,11 +332,8 @@ export class AccelerometerProofGenerator {
   /**
    * Classify activity type from acceleration magnitude
    */
-  classifyActivity(magnitude: number): 'still' | 'walking' | 'running' | 'vehicle' {
-    if (magnitude < 0.2) return 'still';
-    if (magnitude < 1.5) return 'walking';
-    if (magnitude < 2.5) return 'running';
-    return 'vehicle';
+  classifyActivity(magnitude: number): ActivityClass {
+    return classifyActivity(magnitude);
   }
 
   /**
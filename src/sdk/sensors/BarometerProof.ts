@@ -5,21 +5,17 @@
  */
 
 import { Barometer } from 'expo-sensors';
-import { SensorData, SensorType, BarometerData } from '@/src/types';
-import { SeedVaultSigner } from '../crypto/SeedVaultSigner';
-import { ProofGenerator } from '../crypto/ProofGenerator';
-import * as Device from 'expo-device';
+import { SensorType, BarometerData } from '@/src/types';
+import { SensorProofSource } from './SensorProofSource';
+import { pressureToAltitude } from '../consistency/ConsistencyEngine';
 
-export class BarometerProofGenerator {
-  private signer: SeedVaultSigner;
-  private proofGen: ProofGenerator;
-  private deviceId: string;
+export interface PressureProofOptions {
+  samples?: number;      // readings to average (reduces sensor noise)
+  intervalMs?: number;
+}
 
-  constructor(signer: SeedVaultSigner) {
-    this.signer = signer;
-    this.proofGen = new ProofGenerator(signer);
-    this.deviceId = Device.modelId || 'unknown';
-  }
+export class BarometerProofGenerator extends SensorProofSource<BarometerData, PressureProofOptions> {
+  readonly sensorType = SensorType.BAROMETER;
 
   async isAvailable(): Promise<boolean> {
     return await Barometer.isAvailableAsync();
@@ -31,54 +27,26 @@ export class BarometerProofGenerator {
    * for a decentralised weather oracle — proving "this pressure was measured
    * at this location at this time by a real device."
    */
-  async generatePressureProof(options?: {
-    samples?: number;      // readings to average (reduces sensor noise)
-    intervalMs?: number;
-  }): Promise<any> {
-    const { samples = 5, intervalMs = 200 } = options || {};
-
-    return new Promise(async (resolve, reject) => {
-      const readings: BarometerData[] = [];
-      let count = 0;
-      let resolved = false;
-
-      Barometer.setUpdateInterval(intervalMs);
-
-      const hardTimeout = setTimeout(() => {
-        if (resolved) return;
-        resolved = true;
-        sub.remove();
-        if (readings.length === 0) {
-          return reject(new Error('No barometer data received — device may not have a barometer.'));
-        }
-        buildAndResolve();
-      }, intervalMs * samples + 3000);
-
-      const buildAndResolve = async () => {
-        try { resolve(await this.buildProof(readings)); }
-        catch (err) { reject(err); }
-      };
-
-      const sub = Barometer.addListener(async (data) => {
-        if (resolved) return;
+  async generatePressureProof(options?: PressureProofOptions): Promise<any> {
+    return await this.generateProof(options);
+  }
 
-        readings.push({
-          pressure: data.pressure,
-          relativeAltitude: (data as any).relativeAltitude ?? undefined,
-        });
+  async capture(options?: PressureProofOptions): Promise<BarometerData[]> {
+    const { samples = 5, intervalMs = 200 } = options || {};
 
-        count++;
-        if (count >= samples) {
-          resolved = true;
-          clearTimeout(hardTimeout);
-          sub.remove();
-          await buildAndResolve();
-        }
-      });
+    const readings = await this.sampleListener(Barometer, {
+      samples,
+      intervalMs,
+      timeoutMs: intervalMs * samples + 3000,
+      noDataMessage: 'No barometer data received — device may not have a barometer.',
     });
+    return readings.map((data) => ({
+      pressure: data.pressure,
+      relativeAltitude: (data as any).relativeAltitude ?? undefined,
+    }));
   }
 
-  private async buildProof(readings: BarometerData[]): Promise<any> {
+  summarize(readings: BarometerData[]): Record<string, any> {
     // Average out sensor noise
     const avgPressure = readings.reduce((s, r) => s + r.pressure, 0) / readings.length;
     const avgAltitude = readings.some(r => r.relativeAltitude !== undefined)
@@ -90,18 +58,11 @@ export class BarometerProofGenerator {
       ...(avgAltitude !== undefined ? { relativeAltitude: parseFloat(avgAltitude.toFixed(2)) } : {}),
     };
 
-    const sensorData: SensorData = {
-      type: SensorType.BAROMETER,
-      timestamp: Date.now(),
-      data: {
-        ...data,
-        weatherCondition: this.classifyWeather(avgPressure),
-        sampleCount: readings.length,
-      },
-      deviceId: this.deviceId,
+    return {
+      ...data,
+      weatherCondition: this.classifyWeather(avgPressure),
+      sampleCount: readings.length,
     };
-
-    return await this.proofGen.generateProof(sensorData);
   }
 
   /**
@@ -119,6 +80,6 @@ export class BarometerProofGenerator {
    * Convert hPa to approximate altitude above sea level (barometric formula)
    */
   pressureToAltitude(pressureHpa: number, seaLevelHpa: number = 1013.25): number {
-    return 44330 * (1 - Math.pow(pressureHpa / seaLevelHpa, 0.1903));
+    return pressureToAltitude(pressureHpa, seaLevelHpa);
   }
 }
\ No newline at end of file
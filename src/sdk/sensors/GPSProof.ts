@@ -4,20 +4,49 @@
  */
 
 import * as Location from 'expo-location';
-import { SensorData, SensorType, GPSData } from '@/src/types';
-import { SeedVaultSigner } from '../crypto/SeedVaultSigner';
-import { ProofGenerator } from '../crypto/ProofGenerator';
-import * as Device from 'expo-device';
-
-export class GPSProofGenerator {
-  private signer: SeedVaultSigner;
-  private proofGen: ProofGenerator;
-  private deviceId: string;
-
-  constructor(signer: SeedVaultSigner) {
-    this.signer = signer;
-    this.proofGen = new ProofGenerator(signer);
-    this.deviceId = Device.modelId || 'unknown';
+import { SensorData, SensorType, GPSData, LocationPrivacyLevel } from '@/src/types';
+import { haversineDistance, LatLng } from '../location/Geo';
+import {
+  applyLocationPrivacy,
+  GeofenceMode,
+  getMinimumDistance,
+  isLocationWithinGeofence,
+  LocationPrivacySetting,
+} from '../location/LocationPrivacy';
+import { SensorProofSource } from './SensorProofSource';
+import { checkConsistency, ConsistencyOptions } from '../consistency/ConsistencyEngine';
+import {
+  analyzeLocationHistory,
+  LocationHistoryOptions,
+  LocationHistoryReport,
+} from '../location/LocationHistory';
+import { proofStorage } from '../storage/ProofStorage';
+
+export interface LocationProofOptions {
+  includeAltitude?: boolean;
+  includeSpeed?: boolean;
+  includeHeading?: boolean;
+  minAccuracy?: number; // meters — proof is still generated above this, just flagged
+  privacy?: LocationPrivacySetting;
+}
+
+export class GPSProofGenerator extends SensorProofSource<Location.LocationObject, LocationProofOptions> {
+  readonly sensorType = SensorType.GPS;
+  private privacy?: LocationPrivacySetting;
+
+  /**
+   * Location services are on; permission is asked for in requestPermissions()
+   */
+  async isAvailable(): Promise<boolean> {
+    return await Location.hasServicesEnabledAsync();
+  }
+
+  /**
+   * Default privacy level for proofs that don't pass their own
+   * Unset means exact coordinates with no level recorded.
+   */
+  setLocationPrivacy(setting: LocationPrivacySetting | undefined): void {
+    this.privacy = setting;
   }
 
   /**
@@ -58,12 +87,20 @@ export class GPSProofGenerator {
    * Rather than hard-rejecting, we attach an accuracyWarning to the proof
    * and let the caller decide how to handle low-accuracy readings.
    */
-  async generateLocationProof(options?: {
-    includeAltitude?: boolean;
-    includeSpeed?: boolean;
-    includeHeading?: boolean;
-    minAccuracy?: number; // meters — proof is still generated above this, just flagged
-  }): Promise<any> {
+  async generateLocationProof(options?: LocationProofOptions): Promise<any> {
+    try {
+      return await this.generateProof(options);
+    } catch (error) {
+      console.error('[GPSProof] Failed to generate GPS proof:', error);
+      throw error;
+    }
+  }
+
+  async capture(): Promise<Location.LocationObject[]> {
+    return [await this.getCurrentLocation()];
+  }
+
+  summarize([location]: Location.LocationObject[], options?: LocationProofOptions): Record<string, any> {
     const {
       includeAltitude = true,
       includeSpeed = true,
@@ -71,41 +108,37 @@ export class GPSProofGenerator {
       minAccuracy = 200, // raised from 50m — real-world GPS is often 100–150m indoors
     } = options || {};
 
-    try {
-      const location = await this.getCurrentLocation();
+    // Warn instead of throwing — still generate proof but flag low accuracy
+    let accuracyWarning: string | null = null;
+    if (location.coords.accuracy && location.coords.accuracy > minAccuracy) {
+      accuracyWarning = `Low accuracy: ${location.coords.accuracy.toFixed(1)}m exceeds threshold of ${minAccuracy}m`;
+      console.warn('[GPSProof]', accuracyWarning);
+    }
 
-      // Warn instead of throwing — still generate proof but flag low accuracy
-      let accuracyWarning: string | null = null;
-      if (location.coords.accuracy && location.coords.accuracy > minAccuracy) {
-        accuracyWarning = `Low accuracy: ${location.coords.accuracy.toFixed(1)}m exceeds threshold of ${minAccuracy}m`;
-        console.warn('[GPSProof]', accuracyWarning);
-      }
+    const gpsData: GPSData = {
+      latitude: location.coords.latitude,
+      longitude: location.coords.longitude,
+      altitude: includeAltitude ? location.coords.altitude : null,
+      accuracy: location.coords.accuracy,
+      heading: includeHeading ? location.coords.heading : null,
+      speed: includeSpeed ? location.coords.speed : null,
+      ...getMockedFlag(location),
+    };
 
-      const gpsData: GPSData = {
-        latitude: location.coords.latitude,
-        longitude: location.coords.longitude,
-        altitude: includeAltitude ? location.coords.altitude : null,
-        accuracy: location.coords.accuracy,
-        heading: includeHeading ? location.coords.heading : null,
-        speed: includeSpeed ? location.coords.speed : null,
-      };
-
-      const sensorData: SensorData = {
-        type: SensorType.GPS,
-        timestamp: location.timestamp,
-        data: {
-          ...gpsData,
-          ...(accuracyWarning ? { accuracyWarning } : {}),
-        },
-        deviceId: this.deviceId,
-      };
-
-      const proof = await this.proofGen.generateProof(sensorData);
-      return proof;
-    } catch (error) {
-      console.error('[GPSProof] Failed to generate GPS proof:', error);
-      throw error;
-    }
+    return {
+      ...gpsData,
+      ...(accuracyWarning ? { accuracyWarning } : {}),
+    };
+  }
+
+  /**
+   * Stamped with the fix time rather than the time of summarizing, and
+   * coarsened to the privacy level before anything signs it
+   */
+  async read(options?: LocationProofOptions): Promise<SensorData> {
+    const samples = await this.capture();
+    const sensorData = await this.toSensorData(this.summarize(samples, options), samples[0].timestamp);
+    return await this.applyPrivacy(sensorData, options?.privacy ?? this.privacy);
   }
 
   /**
@@ -118,12 +151,14 @@ export class GPSProofGenerator {
       distanceInterval?: number; // meters
       timeInterval?: number;     // milliseconds
       accuracy?: Location.Accuracy;
+      privacy?: LocationPrivacySetting;
     }
   ): Promise<{ remove: () => void }> {
     const {
       distanceInterval = 10,
       timeInterval = 5000,
       accuracy = Location.Accuracy.High,
+      privacy = this.privacy,
     } = options || {};
 
     const subscription = await Location.watchPositionAsync(
@@ -137,16 +172,17 @@ export class GPSProofGenerator {
             accuracy: location.coords.accuracy,
             heading: location.coords.heading,
             speed: location.coords.speed,
+            ...getMockedFlag(location),
           };
 
           const sensorData: SensorData = {
             type: SensorType.GPS,
             timestamp: location.timestamp,
             data: gpsData,
-            deviceId: this.deviceId,
+            deviceId: await this.getDeviceId(),
           };
 
-          const proof = await this.proofGen.generateProof(sensorData);
+          const proof = await this.proofGen.generateProof(await this.applyPrivacy(sensorData, privacy));
           callback(proof);
         } catch (error) {
           console.error('[GPSProof] Failed to generate location proof in watch:', error);
@@ -160,43 +196,30 @@ export class GPSProofGenerator {
   /**
    * Calculate distance between two coordinates (Haversine formula)
    */
-  calculateDistance(
-    coord1: { latitude: number; longitude: number },
-    coord2: { latitude: number; longitude: number }
-  ): number {
-    const R = 6371e3;
-    const φ1 = (coord1.latitude * Math.PI) / 180;
-    const φ2 = (coord2.latitude * Math.PI) / 180;
-    const Δφ = ((coord2.latitude - coord1.latitude) * Math.PI) / 180;
-    const Δλ = ((coord2.longitude - coord1.longitude) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
+  calculateDistance(coord1: LatLng, coord2: LatLng): number {
+    return haversineDistance(coord1, coord2);
   }
 
   /**
    * Verify location proof is within a geofence
+   * Coarsened proofs are checked by their whole privacy cell: 'contained'
+   * (default) needs all of it inside the fence, 'overlaps' any part of it.
+   * Exact proofs behave the same in both modes.
    */
   isWithinGeofence(
     proof: any,
-    center: { latitude: number; longitude: number },
-    radiusMeters: number
+    center: LatLng,
+    radiusMeters: number,
+    options?: { mode?: GeofenceMode }
   ): boolean {
-    const proofLocation = {
-      latitude: proof.sensorData.data.latitude,
-      longitude: proof.sensorData.data.longitude,
-    };
-
-    return this.calculateDistance(proofLocation, center) <= radiusMeters;
+    return isLocationWithinGeofence(proof.sensorData, center, radiusMeters, options?.mode);
   }
 
   /**
    * Detect if location is likely spoofed.
-   * Checks for impossible speeds and accuracy anomalies.
+   * Checks for impossible speeds and accuracy anomalies. Speeds between
+   * coarsened proofs use the shortest distance their cells allow. Readings
+   * of other sensors taken alongside add the cross-sensor consistency checks.
    */
   detectSpoofing(
     currentProof: any,
@@ -204,28 +227,25 @@ export class GPSProofGenerator {
     options?: {
       maxSpeedMps?: number;
       maxAccuracy?: number;
+      readings?: SensorData[];            // e.g. barometer, accelerometer, magnetometer, network
+      consistency?: ConsistencyOptions;
     }
   ): { isSuspicious: boolean; reasons: string[] } {
-    const { maxSpeedMps = 150, maxAccuracy = 300 } = options || {};
+    const { maxSpeedMps = 150, maxAccuracy = 300, readings = [], consistency } = options || {};
 
     const reasons: string[] = [];
 
+    if (currentProof.sensorData.data.mocked === true) {
+      reasons.push('Reported by a mock location provider');
+    }
+
     const accuracy = currentProof.sensorData.data.accuracy;
     if (accuracy && accuracy > maxAccuracy) {
       reasons.push(`Low accuracy: ${accuracy}m > ${maxAccuracy}m`);
     }
 
     if (previousProof) {
-      const currentLoc = {
-        latitude: currentProof.sensorData.data.latitude,
-        longitude: currentProof.sensorData.data.longitude,
-      };
-      const previousLoc = {
-        latitude: previousProof.sensorData.data.latitude,
-        longitude: previousProof.sensorData.data.longitude,
-      };
-
-      const distance = this.calculateDistance(currentLoc, previousLoc);
+      const distance = getMinimumDistance(currentProof.sensorData, previousProof.sensorData);
       const timeDiff =
         (currentProof.sensorData.timestamp - previousProof.sensorData.timestamp) / 1000;
 
@@ -244,13 +264,58 @@ export class GPSProofGenerator {
       }
     }
 
+    if (readings.length > 0) {
+      const report = checkConsistency([currentProof.sensorData, ...readings], consistency);
+      for (const verdict of report.verdicts) {
+        if (verdict.status === 'inconsistent') reasons.push(verdict.explanation);
+      }
+    }
+
     return { isSuspicious: reasons.length > 0, reasons };
   }
 
+  /**
+   * Detect spoofing across the GPS proofs in ProofStorage: mock provider
+   * fixes, teleports, scripted straight paths, frozen coordinates and
+   * accuracy that never changes (see LocationHistory.ts). A proof that
+   * isn't stored yet can be passed to include it.
+   */
+  async detectSpoofingFromHistory(
+    currentProof?: any,
+    options?: LocationHistoryOptions & {
+      limit?: number;     // most recent proofs to look at
+      maxAgeMs?: number;  // ignore proofs older than this
+    }
+  ): Promise<LocationHistoryReport> {
+    const { limit = 50, maxAgeMs = 24 * 60 * 60 * 1000, ...analysis } = options || {};
+
+    try {
+      const since = Date.now() - maxAgeMs;
+      const stored = await proofStorage.getProofsBySensorType(SensorType.GPS);
+      const readings = stored
+        .map((sp) => sp.proof.sensorData)
+        .filter((sensorData) => sensorData.timestamp >= since)
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, limit);
+
+      if (currentProof && !stored.some((sp) => sp.proof.proofHash === currentProof.proofHash)) {
+        readings.push(currentProof.sensorData);
+      }
+
+      return analyzeLocationHistory(readings, analysis);
+    } catch (error) {
+      console.error('[GPSProof] Failed to analyze location history:', error);
+      throw error;
+    }
+  }
+
   /**
    * Generate a proof with reverse-geocoded address context
    */
-  async generateEnrichedLocationProof(): Promise<any> {
+  async generateEnrichedLocationProof(options?: {
+    privacy?: LocationPrivacySetting;
+  }): Promise<any> {
+    const { privacy = this.privacy } = options || {};
     const location = await this.getCurrentLocation();
 
     const reverseGeocode = await Location.reverseGeocodeAsync({
@@ -262,6 +327,7 @@ export class GPSProofGenerator {
 
     const enrichedData = {
       ...location.coords,
+      ...getMockedFlag(location),
       address: address
         ? {
             city: address.city,
@@ -276,9 +342,50 @@ export class GPSProofGenerator {
       type: SensorType.GPS,
       timestamp: location.timestamp,
       data: enrichedData,
-      deviceId: this.deviceId,
+      deviceId: await this.getDeviceId(),
     };
 
-    return await this.proofGen.generateProof(sensorData);
+    return await this.proofGen.generateProof(await this.applyPrivacy(sensorData, privacy));
+  }
+
+  /**
+   * Coarsen a reading and record the level in its signed context
+   * Region-only proofs are reverse-geocoded here when they don't carry an
+   * address yet — without one they'd say nothing beyond the 1° cell.
+   */
+  private async applyPrivacy(
+    sensorData: SensorData,
+    setting: LocationPrivacySetting | undefined
+  ): Promise<SensorData> {
+    if (!setting) return sensorData;
+
+    let data = sensorData.data;
+    if (setting.level === LocationPrivacyLevel.REGION && !data.address) {
+      try {
+        const [address] = await Location.reverseGeocodeAsync({
+          latitude: data.latitude,
+          longitude: data.longitude,
+        });
+        if (address) {
+          data = { ...data, address: { region: address.region, country: address.country } };
+        }
+      } catch (error) {
+        console.warn('[GPSProof] Reverse geocoding failed, region proof has coordinates only:', error);
+      }
+    }
+
+    const coarse = applyLocationPrivacy(data, setting);
+    return {
+      ...sensorData,
+      data: coarse.data,
+      context: { ...sensorData.context, locationPrivacy: coarse.privacy },
+    };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Android marks fixes from mock location apps; iOS has no such flag
+ */
+function getMockedFlag(location: Location.LocationObject): { mocked?: boolean } {
+  return location.mocked === undefined ? {} : { mocked: location.mocked };
+}
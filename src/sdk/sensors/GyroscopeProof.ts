@@ -4,23 +4,13 @@
  */
 
 import * as Sensors from 'expo-sensors';
-import { SensorData, SensorType, GyroscopeData } from '@/src/types';
-import { SeedVaultSigner } from '../crypto/SeedVaultSigner';
-import { ProofGenerator } from '../crypto/ProofGenerator';
-import * as Device from 'expo-device';
+import { SensorType, GyroscopeData } from '@/src/types';
+import { SamplingOptions, SensorProofSource } from './SensorProofSource';
 
-export class GyroscopeProofGenerator {
-  private signer: SeedVaultSigner;
-  private proofGen: ProofGenerator;
-  private deviceId: string;
+export class GyroscopeProofGenerator extends SensorProofSource<GyroscopeData, SamplingOptions> {
+  readonly sensorType = SensorType.GYROSCOPE;
   private subscription: any = null;
 
-  constructor(signer: SeedVaultSigner) {
-    this.signer = signer;
-    this.proofGen = new ProofGenerator(signer);
-    this.deviceId = Device.modelId || 'unknown';
-  }
-
   async isAvailable(): Promise<boolean> {
     return await Sensors.Gyroscope.isAvailableAsync();
   }
@@ -34,58 +24,28 @@ export class GyroscopeProofGenerator {
    * Useful for road quality sensing — bumps and vibrations produce
    * characteristic rotation spikes that can be mapped to GPS coordinates.
    */
-  async generateRotationProof(options?: {
-    duration?: number;
-    samples?: number;
-  }): Promise<any> {
-    const { duration = 1000, samples = 10 } = options || {};
-
-    return new Promise(async (resolve, reject) => {
-      const readings: GyroscopeData[] = [];
-      let count = 0;
-      let resolved = false;
-
-      const interval = Math.max(50, Math.floor(duration / samples));
-      this.setUpdateInterval(interval);
+  async generateRotationProof(options?: SamplingOptions): Promise<any> {
+    return await this.generateProof(options);
+  }
 
-      const hardTimeout = setTimeout(async () => {
-        if (resolved) return;
-        resolved = true;
-        sub.remove();
-        if (readings.length === 0) {
-          return reject(new Error('No gyroscope data received.'));
-        }
-        try { resolve(await this.buildProof(readings, duration)); }
-        catch (err) { reject(err); }
-      }, duration + 3000);
+  async capture(options?: SamplingOptions): Promise<GyroscopeData[]> {
+    const { duration = 1000, samples = 10 } = options || {};
 
-      const sub = Sensors.Gyroscope.addListener(async (data) => {
-        if (resolved) return;
-        readings.push({ x: data.x, y: data.y, z: data.z });
-        count++;
-        if (count >= samples) {
-          resolved = true;
-          clearTimeout(hardTimeout);
-          sub.remove();
-          try { resolve(await this.buildProof(readings, duration)); }
-          catch (err) { reject(err); }
-        }
-      });
+    const readings = await this.sampleListener(Sensors.Gyroscope, {
+      samples,
+      intervalMs: Math.max(50, Math.floor(duration / samples)),
+      timeoutMs: duration + 3000,
+      noDataMessage: 'No gyroscope data received.',
     });
+    return readings.map((data) => ({ x: data.x, y: data.y, z: data.z }));
   }
 
-  private async buildProof(readings: GyroscopeData[], duration: number): Promise<any> {
+  summarize(readings: GyroscopeData[], options?: SamplingOptions): Record<string, any> {
+    const { duration = 1000 } = options || {};
     const avg = this.average(readings);
     const magnitude = Math.sqrt(avg.x ** 2 + avg.y ** 2 + avg.z ** 2);
 
-    const sensorData: SensorData = {
-      type: SensorType.GYROSCOPE,
-      timestamp: Date.now(),
-      data: { ...avg, magnitude, sampleCount: readings.length, duration },
-      deviceId: this.deviceId,
-    };
-
-    return await this.proofGen.generateProof(sensorData);
+    return { ...avg, magnitude, sampleCount: readings.length, duration };
   }
 
   private average(readings: GyroscopeData[]): GyroscopeData {
@@ -0,0 +1,66 @@
+/**
+ * LightProof - Generate proofs from ambient light sensor data
+ * Illuminance in lux — pairs with pressure readings for urban sensing
+ * (street lighting, shade mapping, daylight exposure). Android only:
+ * expo-sensors has no light sensor on iOS, so isAvailable() is false there.
+ */
+
+import { LightSensor } from 'expo-sensors';
+import { SensorType, LightCondition, LightData } from '@/src/types';
+import { SamplingOptions, SensorProofSource } from './SensorProofSource';
+
+export class LightProofGenerator extends SensorProofSource<LightData, SamplingOptions> {
+  readonly sensorType = SensorType.LIGHT;
+
+  async isAvailable(): Promise<boolean> {
+    return await LightSensor.isAvailableAsync();
+  }
+
+  /**
+   * Generate a signed light proof.
+   * Lux is averaged over the window so a passing shadow or a flicker
+   * doesn't decide the reading; min and max are kept alongside.
+   */
+  async generateLightProof(options?: SamplingOptions): Promise<any> {
+    return await this.generateProof(options);
+  }
+
+  async capture(options?: SamplingOptions): Promise<LightData[]> {
+    const { duration = 2000, samples = 10 } = options || {};
+
+    const readings = await this.sampleListener(LightSensor, {
+      samples,
+      intervalMs: Math.max(50, Math.floor(duration / samples)),
+      timeoutMs: duration + 3000,
+      noDataMessage: 'No light sensor data received — device may not have a light sensor.',
+    });
+    return readings.map((data) => ({ illuminance: data.illuminance }));
+  }
+
+  summarize(readings: LightData[], options?: SamplingOptions): LightData {
+    const { duration = 2000 } = options || {};
+    const values = readings.map((r) => r.illuminance);
+    const avg = values.reduce((s, v) => s + v, 0) / values.length;
+
+    return {
+      illuminance: parseFloat(avg.toFixed(2)),
+      minIlluminance: Math.min(...values),
+      maxIlluminance: Math.max(...values),
+      lightCondition: this.classifyLight(avg),
+      sampleCount: readings.length,
+      duration,
+    };
+  }
+
+  /**
+   * Rough lighting conditions from lux.
+   * Offices are lit to ~300–500 lux, an overcast sky gives 1,000–10,000,
+   * daylight 10,000 and up (direct sun ~100,000).
+   */
+  classifyLight(lux: number): LightCondition {
+    if (lux < 10)     return 'dark';
+    if (lux < 1000)   return 'indoor';
+    if (lux < 10000)  return 'overcast';
+    return 'daylight';
+  }
+}
@@ -5,23 +5,13 @@
  */
 
 import * as Sensors from 'expo-sensors';
-import { SensorData, SensorType, MagnetometerData } from '@/src/types';
-import { SeedVaultSigner } from '../crypto/SeedVaultSigner';
-import { ProofGenerator } from '../crypto/ProofGenerator';
-import * as Device from 'expo-device';
+import { SensorType, MagnetometerData } from '@/src/types';
+import { SamplingOptions, SensorProofSource } from './SensorProofSource';
 
-export class MagnetometerProofGenerator {
-  private signer: SeedVaultSigner;
-  private proofGen: ProofGenerator;
-  private deviceId: string;
+export class MagnetometerProofGenerator extends SensorProofSource<MagnetometerData, SamplingOptions> {
+  readonly sensorType = SensorType.MAGNETOMETER;
   private subscription: any = null;
 
-  constructor(signer: SeedVaultSigner) {
-    this.signer = signer;
-    this.proofGen = new ProofGenerator(signer);
-    this.deviceId = Device.modelId || 'unknown';
-  }
-
   async isAvailable(): Promise<boolean> {
     return await Sensors.Magnetometer.isAvailableAsync();
   }
@@ -35,46 +25,23 @@ export class MagnetometerProofGenerator {
    * Includes compass heading — useful for navigation DePIN apps and
    * detecting magnetic anomalies near infrastructure (power lines, sensors).
    */
-  async generateMagneticProof(options?: {
-    duration?: number;
-    samples?: number;
-  }): Promise<any> {
-    const { duration = 800, samples = 8 } = options || {};
-
-    return new Promise(async (resolve, reject) => {
-      const readings: MagnetometerData[] = [];
-      let count = 0;
-      let resolved = false;
-
-      this.setUpdateInterval(Math.max(50, Math.floor(duration / samples)));
+  async generateMagneticProof(options?: SamplingOptions): Promise<any> {
+    return await this.generateProof(options);
+  }
 
-      const hardTimeout = setTimeout(async () => {
-        if (resolved) return;
-        resolved = true;
-        sub.remove();
-        if (readings.length === 0) {
-          return reject(new Error('No magnetometer data received.'));
-        }
-        try { resolve(await this.buildProof(readings)); }
-        catch (err) { reject(err); }
-      }, duration + 3000);
+  async capture(options?: SamplingOptions): Promise<MagnetometerData[]> {
+    const { duration = 800, samples = 8 } = options || {};
 
-      const sub = Sensors.Magnetometer.addListener(async (data) => {
-        if (resolved) return;
-        readings.push({ x: data.x, y: data.y, z: data.z });
-        count++;
-        if (count >= samples) {
-          resolved = true;
-          clearTimeout(hardTimeout);
-          sub.remove();
-          try { resolve(await this.buildProof(readings)); }
-          catch (err) { reject(err); }
-        }
-      });
+    const readings = await this.sampleListener(Sensors.Magnetometer, {
+      samples,
+      intervalMs: Math.max(50, Math.floor(duration / samples)),
+      timeoutMs: duration + 3000,
+      noDataMessage: 'No magnetometer data received.',
     });
+    return readings.map((data) => ({ x: data.x, y: data.y, z: data.z }));
   }
 
-  private async buildProof(readings: MagnetometerData[]): Promise<any> {
+  summarize(readings: MagnetometerData[]): Record<string, any> {
     const avg = this.average(readings);
     const magnitude = Math.sqrt(avg.x ** 2 + avg.y ** 2 + avg.z ** 2);
 
@@ -82,19 +49,12 @@ export class MagnetometerProofGenerator {
     let heading = Math.atan2(avg.y, avg.x) * (180 / Math.PI);
     if (heading < 0) heading += 360;
 
-    const sensorData: SensorData = {
-      type: SensorType.MAGNETOMETER,
-      timestamp: Date.now(),
-      data: {
-        ...avg,
-        magnitude: parseFloat(magnitude.toFixed(4)),
-        heading: parseFloat(heading.toFixed(2)),
-        sampleCount: readings.length,
-      },
-      deviceId: this.deviceId,
+    return {
+      ...avg,
+      magnitude: parseFloat(magnitude.toFixed(4)),
+      heading: parseFloat(heading.toFixed(2)),
+      sampleCount: readings.length,
     };
-
-    return await this.proofGen.generateProof(sensorData);
   }
 
   private average(readings: MagnetometerData[]): MagnetometerData {
@@ -4,26 +4,22 @@
  * location are the core data primitive for a Helium-style coverage map on Solana.
  */
 
-import NetInfo from '@react-native-community/netinfo';
-import { SensorData, SensorType, NetworkSpeedData } from '@/src/types';
-import { SeedVaultSigner } from '../crypto/SeedVaultSigner';
-import { ProofGenerator } from '../crypto/ProofGenerator';
-import * as Device from 'expo-device';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { SensorType, NetworkSpeedData } from '@/src/types';
+import { SensorProofSource } from './SensorProofSource';
 
 // Public servers used for latency + download tests — no auth required
 const SPEED_TEST_URL = 'https://httpbin.org/bytes/500000'; // ~500 KB payload
 const LATENCY_URL    = 'https://httpbin.org/get';
 
-export class NetworkSpeedProofGenerator {
-  private signer: SeedVaultSigner;
-  private proofGen: ProofGenerator;
-  private deviceId: string;
+interface NetworkMeasurement {
+  netState: NetInfoState;
+  latencyMs: number;
+  downloadMbps: number;
+}
 
-  constructor(signer: SeedVaultSigner) {
-    this.signer = signer;
-    this.proofGen = new ProofGenerator(signer);
-    this.deviceId = Device.modelId || 'unknown';
-  }
+export class NetworkSpeedProofGenerator extends SensorProofSource<NetworkMeasurement, void> {
+  readonly sensorType = SensorType.NETWORK_SPEED;
 
   /**
    * Network is always "available" as a sensor — no special permissions needed.
@@ -46,12 +42,19 @@ export class NetworkSpeedProofGenerator {
    * it proves that a real device measured real network conditions at a real place.
    */
   async generateCoverageProof(): Promise<any> {
+    return await this.generateProof();
+  }
+
+  async capture(): Promise<NetworkMeasurement[]> {
     const [netState, latencyMs, downloadMbps] = await Promise.all([
       NetInfo.fetch(),
       this.measureLatency(),
       this.measureDownloadSpeed(),
     ]);
+    return [{ netState, latencyMs, downloadMbps }];
+  }
 
+  summarize([{ netState, latencyMs, downloadMbps }]: NetworkMeasurement[]): Record<string, any> {
     const details = netState.details as any;
 
     const data: NetworkSpeedData = {
@@ -70,17 +73,10 @@ export class NetworkSpeedProofGenerator {
       } : {}),
     };
 
-    const sensorData: SensorData = {
-      type: SensorType.NETWORK_SPEED,
-      timestamp: Date.now(),
-      data: {
-        ...data,
-        coverageRating: this.rateCoverage(data),
-      },
-      deviceId: this.deviceId,
+    return {
+      ...data,
+      coverageRating: this.rateCoverage(data),
     };
-
-    return await this.proofGen.generateProof(sensorData);
   }
 
   /**
@@ -0,0 +1,120 @@
+/**
+ * PedometerProof - Generate step proofs from the hardware step counter
+ * The move-to-earn primitive. The phone's pedometer (a motion coprocessor
+ * on most devices) counts steps while accelerometer steps are counted in
+ * parallel over the same window; both counts and how far they disagree are
+ * signed together. Shaking the phone trips the accelerometer count but not
+ * the hardware one, so a large disagreement marks a suspect proof.
+ */
+
+import { Accelerometer, Pedometer } from 'expo-sensors';
+import { SensorType, PedometerData } from '@/src/types';
+import { SensorProofSource } from './SensorProofSource';
+import { StepCounter } from './AccelerometerProof';
+
+/**
+ * Disagreement above which a step proof should not be trusted
+ */
+export const MAX_STEP_DISAGREEMENT = 0.3;
+
+export interface StepProofOptions {
+  duration?: number; // milliseconds to count steps for
+}
+
+interface StepWindow {
+  pedometerSteps: number;
+  accelerometerSteps: number;
+  accelerometerSamples: number;
+}
+
+/**
+ * Relative difference of two step counts, 0 (equal) to 1 (one of them is 0)
+ */
+export function getStepDisagreement(pedometerSteps: number, accelerometerSteps: number): number {
+  const larger = Math.max(pedometerSteps, accelerometerSteps);
+  if (larger === 0) return 0;
+  return parseFloat((Math.abs(pedometerSteps - accelerometerSteps) / larger).toFixed(4));
+}
+
+/**
+ * Whether a pedometer proof's two step counts agree well enough to trust.
+ * Recomputes the ratio rather than reading the signed one.
+ */
+export function isStepCountConsistent(
+  data: Pick<PedometerData, 'steps' | 'accelerometerSteps'>,
+  maxDisagreement: number = MAX_STEP_DISAGREEMENT
+): boolean {
+  return getStepDisagreement(data.steps, data.accelerometerSteps) <= maxDisagreement;
+}
+
+export class PedometerProofGenerator extends SensorProofSource<StepWindow, StepProofOptions> {
+  readonly sensorType = SensorType.PEDOMETER;
+
+  async isAvailable(): Promise<boolean> {
+    return await Pedometer.isAvailableAsync();
+  }
+
+  /**
+   * Android needs the activity recognition permission for step counts
+   */
+  async requestPermissions(): Promise<boolean> {
+    const { granted } = await Pedometer.requestPermissionsAsync();
+    return granted && (await this.isAvailable());
+  }
+
+  /**
+   * Count steps for a while and sign both counts.
+   * The window is long by default: the hardware counter reports in batches
+   * and skips the first few steps of a walk, so short windows disagree.
+   */
+  async generateStepProof(options?: StepProofOptions): Promise<any> {
+    return await this.generateProof(options);
+  }
+
+  async capture(options?: StepProofOptions): Promise<StepWindow[]> {
+    const { duration = 30000 } = options || {};
+
+    return new Promise((resolve, reject) => {
+      const counter = new StepCounter();
+      let pedometerSteps = 0;
+      let accelerometerSamples = 0;
+
+      Accelerometer.setUpdateInterval(100);
+
+      // watchStepCount reports the running total since subscribing
+      const pedometer = Pedometer.watchStepCount((result) => {
+        pedometerSteps = result.steps;
+      });
+      const accelerometer = Accelerometer.addListener((data) => {
+        accelerometerSamples++;
+        counter.push({ x: data.x, y: data.y, z: data.z });
+      });
+
+      setTimeout(() => {
+        pedometer.remove();
+        accelerometer.remove();
+
+        if (accelerometerSamples === 0) {
+          return reject(new Error('No accelerometer data received — cannot cross-check pedometer steps.'));
+        }
+        resolve([{ pedometerSteps, accelerometerSteps: counter.steps, accelerometerSamples }]);
+      }, duration);
+    });
+  }
+
+  summarize([window]: StepWindow[], options?: StepProofOptions): Record<string, any> {
+    const { duration = 30000 } = options || {};
+
+    const data: PedometerData = {
+      steps: window.pedometerSteps,
+      accelerometerSteps: window.accelerometerSteps,
+      disagreement: getStepDisagreement(window.pedometerSteps, window.accelerometerSteps),
+      duration,
+    };
+
+    return {
+      ...data,
+      sampleCount: window.accelerometerSamples,
+    };
+  }
+}
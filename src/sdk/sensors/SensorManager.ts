@@ -1,15 +1,9 @@
 import * as Location from 'expo-location';
 import * as Sensors from 'expo-sensors';
 import { SensorType, SensorData, GPSData, AccelerometerData } from '@/src/types';
-import * as Device from 'expo-device';
+import { deviceIdentity } from '../identity/DeviceIdentity';
 
 export class SensorManager {
-  private deviceId: string;
-
-  constructor() {
-    this.deviceId = Device.modelId || 'unknown';
-  }
-
   async requestPermissions(): Promise<boolean> {
     const { status } = await Location.requestForegroundPermissionsAsync();
     return status === 'granted';
@@ -34,7 +28,7 @@ export class SensorManager {
         type: SensorType.GPS,
         timestamp: Date.now(),
         data: gpsData,
-        deviceId: this.deviceId,
+        deviceId: await deviceIdentity.getInstallId(),
       };
     } catch (error) {
       console.error('Failed to get GPS data:', error);
@@ -42,10 +36,12 @@ export class SensorManager {
     }
   }
 
-  subscribeToAccelerometer(
+  async subscribeToAccelerometer(
     callback: (data: SensorData) => void,
     interval: number = 100
-  ): { remove: () => void } {
+  ): Promise<{ remove: () => void }> {
+    // Resolved once up front, so a storage failure surfaces here and not on every sample
+    const deviceId = await deviceIdentity.getInstallId();
     Sensors.Accelerometer.setUpdateInterval(interval);
 
     const subscription = Sensors.Accelerometer.addListener((result) => {
@@ -59,7 +55,7 @@ export class SensorManager {
         type: SensorType.ACCELEROMETER,
         timestamp: Date.now(),
         data: accelData,
-        deviceId: this.deviceId,
+        deviceId,
       });
     });
 
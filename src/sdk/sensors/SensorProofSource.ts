@@ -0,0 +1,136 @@
+/**
+ * SensorProofSource - Base class of every sensor proof generator
+ *
+ * A source turns one sensor into proofs in three steps:
+ * - capture():   collect raw samples from the hardware
+ * - summarize(): reduce them to the payload that gets signed
+ * - read():      wrap the payload into SensorData (unsigned)
+ *
+ * generateProof() signs what read() returns. Hooks and the SensorRegistry
+ * only use these methods, so a new sensor works everywhere once it is
+ * registered — see SensorRegistry.ts.
+ */
+
+import { SensorData, SensorProof, SensorTypeId } from '@/src/types';
+import { Signer } from '../crypto/Signer';
+import { ProofGenerator, ProofGeneratorOptions } from '../crypto/ProofGenerator';
+import { DeviceIdentity, deviceIdentity } from '../identity/DeviceIdentity';
+
+/**
+ * The part of an expo-sensors sensor that sampling needs
+ */
+export interface ListenerSensor<T> {
+  setUpdateInterval(intervalMs: number): void;
+  addListener(listener: (data: T) => void): { remove: () => void };
+}
+
+export interface SamplingOptions {
+  duration?: number; // milliseconds to sample
+  samples?: number;  // number of samples to collect
+}
+
+export abstract class SensorProofSource<TSample = any, TOptions = any> {
+  abstract readonly sensorType: SensorTypeId;
+
+  protected signer: Signer;
+  protected proofGen: ProofGenerator;
+  private identity: DeviceIdentity;
+
+  constructor(signer: Signer, options?: ProofGeneratorOptions) {
+    this.signer = signer;
+    this.proofGen = new ProofGenerator(signer, { deviceIdentity, ...options });
+    this.identity = options?.deviceIdentity ?? deviceIdentity;
+  }
+
+  abstract isAvailable(): Promise<boolean>;
+
+  /**
+   * Ask for whatever access the sensor needs. Most sensors need none, so
+   * this is the availability check unless a source overrides it.
+   */
+  async requestPermissions(): Promise<boolean> {
+    return this.isAvailable();
+  }
+
+  abstract capture(options?: TOptions): Promise<TSample[]>;
+
+  abstract summarize(samples: TSample[], options?: TOptions): Record<string, any>;
+
+  /**
+   * Capture and summarize one reading without signing it
+   */
+  async read(options?: TOptions): Promise<SensorData> {
+    const samples = await this.capture(options);
+    return await this.toSensorData(this.summarize(samples, options));
+  }
+
+  /**
+   * Capture, summarize and sign one reading
+   */
+  async generateProof(options?: TOptions): Promise<SensorProof> {
+    return await this.proofGen.generateProof(await this.read(options));
+  }
+
+  protected async toSensorData(data: Record<string, any>, timestamp: number = Date.now()): Promise<SensorData> {
+    return {
+      type: this.sensorType,
+      timestamp,
+      data,
+      deviceId: await this.getDeviceId(),
+    };
+  }
+
+  /**
+   * The install ID (see DeviceIdentity.ts) — the same ID the generator signs
+   * into the proof, so unsigned readings and proofs name the device alike
+   */
+  protected getDeviceId(): Promise<string> {
+    return this.identity.getInstallId();
+  }
+
+  /**
+   * Collect `samples` events from a listener-based sensor.
+   * Resolves early once enough samples arrive; otherwise a hard timeout
+   * (timeoutMs) resolves with what was collected, so a slow or silent sensor
+   * never leaves the promise hanging. Rejects if nothing arrived at all.
+   */
+  protected sampleListener<T>(
+    sensor: ListenerSensor<T>,
+    options: {
+      samples: number;
+      intervalMs: number;
+      timeoutMs: number;
+      noDataMessage: string;
+    }
+  ): Promise<T[]> {
+    const { samples, intervalMs, timeoutMs, noDataMessage } = options;
+
+    return new Promise((resolve, reject) => {
+      const readings: T[] = [];
+      let finished = false;
+
+      sensor.setUpdateInterval(intervalMs);
+
+      const finish = () => {
+        finished = true;
+        clearTimeout(hardTimeout);
+        subscription.remove();
+        if (readings.length === 0) {
+          reject(new Error(noDataMessage));
+        } else {
+          resolve(readings);
+        }
+      };
+
+      const hardTimeout = setTimeout(() => {
+        if (!finished) finish();
+      }, timeoutMs);
+
+      const subscription = sensor.addListener((data) => {
+        if (finished) return;
+        readings.push(data);
+        if (readings.length >= samples) finish();
+      });
+    });
+  }
+}
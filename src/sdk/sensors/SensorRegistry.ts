@@ -0,0 +1,188 @@
+/**
+ * SensorRegistry - Every sensor the SDK can prove, built-in or custom
+ *
+ * Hooks and useDePIN look sensors up here instead of switching over
+ * SensorType, so an app adds a sensor by registering it:
+ *
+ *   sensorRegistry.register({
+ *     type: 'noise_level',
+ *     label: 'Noise Level',
+ *     schema: [['decibels', 'f64'], ['sampleCount', 'u32']],
+ *     isAvailable: async () => true,
+ *     capture: async () => sampleMicrophone(),
+ *     summarize: (samples) => ({ decibels: average(samples), sampleCount: samples.length }),
+ *   });
+ *
+ *   useSensorProof('noise_level').generateProof();
+ *
+ * Sensors that need more than capture/summarize can subclass
+ * SensorProofSource and use registerSource() instead.
+ */
+
+import { SensorType, SensorTypeId } from '@/src/types';
+import { Signer } from '../crypto/Signer';
+import { ProofGeneratorOptions } from '../crypto/ProofGenerator';
+import { BorshField } from '../encoding/Borsh';
+import { registerPayloadSchema } from '../encoding/SensorSchemas';
+import { SensorProofSource } from './SensorProofSource';
+import { GPSProofGenerator } from './GPSProof';
+import { AccelerometerProofGenerator } from './AccelerometerProof';
+import { GyroscopeProofGenerator } from './GyroscopeProof';
+import { MagnetometerProofGenerator } from './MagnetometerProof';
+import { BarometerProofGenerator } from './BarometerProof';
+import { NetworkSpeedProofGenerator } from './NetworkSpeedProof';
+import { LightProofGenerator } from './LightProof';
+import { PedometerProofGenerator } from './PedometerProof';
+
+/**
+ * A custom sensor described by functions
+ */
+export interface SensorDefinition<TSample = any, TOptions = any> {
+  type: string;
+  label: string;
+  schema?: BorshField[];   // Borsh payload layout; needed only for BORSH-encoded proofs
+  isAvailable(): Promise<boolean>;
+  requestPermissions?(): Promise<boolean>;
+  capture(options?: TOptions): Promise<TSample[]>;
+  summarize(samples: TSample[], options?: TOptions): Record<string, any>;
+}
+
+/**
+ * A sensor backed by its own SensorProofSource subclass
+ */
+export interface SensorSourceRegistration {
+  type: SensorTypeId;
+  label: string;
+  schema?: BorshField[];
+  create(signer: Signer, options?: ProofGeneratorOptions): SensorProofSource;
+}
+
+export interface RegisteredSensor {
+  type: SensorTypeId;
+  label: string;
+  builtIn: boolean;
+}
+
+/**
+ * Source for a SensorDefinition
+ */
+class DefinedSensorSource<TSample, TOptions> extends SensorProofSource<TSample, TOptions> {
+  readonly sensorType: SensorTypeId;
+  private definition: SensorDefinition<TSample, TOptions>;
+
+  constructor(
+    definition: SensorDefinition<TSample, TOptions>,
+    signer: Signer,
+    options?: ProofGeneratorOptions
+  ) {
+    super(signer, options);
+    this.sensorType = definition.type;
+    this.definition = definition;
+  }
+
+  isAvailable(): Promise<boolean> {
+    return this.definition.isAvailable();
+  }
+
+  requestPermissions(): Promise<boolean> {
+    return this.definition.requestPermissions?.() ?? this.isAvailable();
+  }
+
+  capture(options?: TOptions): Promise<TSample[]> {
+    return this.definition.capture(options);
+  }
+
+  summarize(samples: TSample[], options?: TOptions): Record<string, any> {
+    return this.definition.summarize(samples, options);
+  }
+}
+
+const BUILT_IN_SENSORS: SensorSourceRegistration[] = [
+  { type: SensorType.GPS, label: 'GPS Location', create: (s, o) => new GPSProofGenerator(s, o) },
+  { type: SensorType.ACCELEROMETER, label: 'Accelerometer', create: (s, o) => new AccelerometerProofGenerator(s, o) },
+  { type: SensorType.GYROSCOPE, label: 'Gyroscope', create: (s, o) => new GyroscopeProofGenerator(s, o) },
+  { type: SensorType.MAGNETOMETER, label: 'Magnetometer', create: (s, o) => new MagnetometerProofGenerator(s, o) },
+  { type: SensorType.BAROMETER, label: 'Barometer', create: (s, o) => new BarometerProofGenerator(s, o) },
+  { type: SensorType.NETWORK_SPEED, label: 'Network Speed', create: (s, o) => new NetworkSpeedProofGenerator(s, o) },
+  { type: SensorType.LIGHT, label: 'Ambient Light', create: (s, o) => new LightProofGenerator(s, o) },
+  { type: SensorType.PEDOMETER, label: 'Pedometer', create: (s, o) => new PedometerProofGenerator(s, o) },
+];
+
+export class SensorRegistry {
+  private sensors = new Map<string, SensorSourceRegistration & { builtIn: boolean }>();
+
+  constructor() {
+    for (const registration of BUILT_IN_SENSORS) {
+      this.sensors.set(registration.type, { ...registration, builtIn: true });
+    }
+  }
+
+  /**
+   * Register a custom sensor from capture/summarize functions
+   */
+  register<TSample, TOptions>(definition: SensorDefinition<TSample, TOptions>): void {
+    this.registerSource({
+      type: definition.type,
+      label: definition.label,
+      schema: definition.schema,
+      create: (signer, options) => new DefinedSensorSource(definition, signer, options),
+    });
+  }
+
+  /**
+   * Register a custom sensor with its own SensorProofSource subclass
+   */
+  registerSource(registration: SensorSourceRegistration): void {
+    const existing = this.sensors.get(registration.type);
+    if (existing) {
+      throw new Error(`Sensor type ${registration.type} is already registered`);
+    }
+    if (registration.schema) {
+      registerPayloadSchema(registration.type, registration.schema);
+    }
+    this.sensors.set(registration.type, { ...registration, builtIn: false });
+  }
+
+  /**
+   * Remove a custom sensor. Its payload schema stays registered, so proofs
+   * already made with it can still be decoded.
+   */
+  unregister(type: SensorTypeId): boolean {
+    if (this.sensors.get(type)?.builtIn) {
+      throw new Error(`Cannot unregister built-in sensor type ${type}`);
+    }
+    return this.sensors.delete(type);
+  }
+
+  has(type: SensorTypeId): boolean {
+    return this.sensors.has(type);
+  }
+
+  list(): RegisteredSensor[] {
+    return [...this.sensors.values()].map(({ type, label, builtIn }) => ({ type, label, builtIn }));
+  }
+
+  getLabel(type: SensorTypeId): string {
+    return this.sensors.get(type)?.label ?? type;
+  }
+
+  /**
+   * New source for a sensor type, signing with the given signer
+   */
+  createSource(
+    type: SensorTypeId,
+    signer: Signer,
+    options?: ProofGeneratorOptions
+  ): SensorProofSource {
+    const registration = this.sensors.get(type);
+    if (!registration) {
+      throw new Error(`No sensor registered for type ${type}`);
+    }
+    return registration.create(signer, options);
+  }
+}
+
+/**
+ * Singleton instance for app-wide use
+ */
+export const sensorRegistry = new SensorRegistry();
@@ -0,0 +1,158 @@
+/**
+ * SnapshotProof - One proof over several sensors captured together
+ * Separate proofs are taken at different times, so nothing ties a pressure
+ * reading to the GPS fix it was supposedly taken at. A snapshot captures
+ * every requested sensor concurrently, requires all of them to finish within
+ * a time window, and signs them as one proof. Each reading keeps its own
+ * timestamp, and the spread between them (the capture skew) is signed too.
+ * This is the primitive weather and coverage networks need.
+ *
+ * Unless turned off, the cross-sensor consistency checks (see
+ * ConsistencyEngine.ts) run on the readings and their report is signed in
+ * context.consistency.
+ */
+
+import {
+  SensorData,
+  SensorProof,
+  SensorType,
+  SensorTypeId,
+  SnapshotData,
+  ProofContext,
+} from '@/src/types';
+import { Signer } from '../crypto/Signer';
+import { ProofGeneratorOptions } from '../crypto/ProofGenerator';
+import { SensorProofSource } from './SensorProofSource';
+import { sensorRegistry } from './SensorRegistry';
+import { checkConsistency, ConsistencyOptions } from '../consistency/ConsistencyEngine';
+
+export interface SnapshotOptions {
+  sensorTypes: SensorTypeId[];
+  windowMs?: number;                              // every sensor must finish within this
+  sensorOptions?: Partial<Record<string, any>>;   // per-sensor capture options, by type
+  consistency?: ConsistencyOptions | false;       // false = don't embed a consistency report
+}
+
+const DEFAULT_WINDOW_MS = 10000;
+
+export class SnapshotProofGenerator extends SensorProofSource<SensorData, SnapshotOptions> {
+  readonly sensorType = SensorType.SNAPSHOT;
+  private options?: ProofGeneratorOptions;
+
+  constructor(signer: Signer, options?: ProofGeneratorOptions) {
+    super(signer, options);
+    this.options = options;
+  }
+
+  /**
+   * A snapshot is available whenever its sensors are; see capture()
+   */
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Capture the given sensors together and sign them as one proof
+   */
+  async generateSnapshotProof(
+    sensorTypes: SensorTypeId[],
+    options?: Omit<SnapshotOptions, 'sensorTypes'>
+  ): Promise<SensorProof> {
+    return await this.generateProof({ ...options, sensorTypes });
+  }
+
+  /**
+   * Read the sensors, carrying their signed context (e.g. GPS location
+   * privacy) over to the snapshot and adding the consistency report
+   */
+  async read(options?: SnapshotOptions): Promise<SensorData> {
+    const { consistency = {} } = options || {};
+    const readings = await this.capture(options);
+    const sensorData = await this.toSensorData(this.summarize(readings, options));
+
+    const context: ProofContext = Object.assign({}, ...readings.map((r) => r.context));
+    if (consistency) {
+      const report = checkConsistency(readings, consistency);
+      if (report.verdicts.length > 0) context.consistency = report;
+    }
+    if (Object.keys(context).length > 0) sensorData.context = context;
+    return sensorData;
+  }
+
+  /**
+   * Read every sensor concurrently. Fails as a whole if any sensor errors
+   * or misses the window — a snapshot with a reading missing would no
+   * longer prove the readings belong together.
+   */
+  async capture(options?: SnapshotOptions): Promise<SensorData[]> {
+    const { sensorTypes = [], windowMs = DEFAULT_WINDOW_MS, sensorOptions = {} } = options || {};
+    const types = [...new Set(sensorTypes)];
+
+    if (types.length === 0) {
+      throw new Error('A snapshot needs at least one sensor type');
+    }
+    if (types.includes(SensorType.SNAPSHOT)) {
+      throw new Error('Snapshots cannot contain snapshots');
+    }
+
+    // Create every source up front so an unknown type fails before any capture starts
+    const sources = types.map((type) => sensorRegistry.createSource(type, this.signer, this.options));
+
+    return await Promise.all(
+      sources.map((source) => this.readWithin(source, sensorOptions[source.sensorType], windowMs))
+    );
+  }
+
+  summarize(readings: SensorData[], options?: SnapshotOptions): Record<string, any> {
+    const { windowMs = DEFAULT_WINDOW_MS } = options || {};
+    const timestamps = readings.map((r) => r.timestamp);
+
+    const data: SnapshotData = {
+      readings: readings.map(({ type, timestamp, data }) => ({ type, timestamp, data })),
+      windowMs,
+      skewMs: Math.max(...timestamps) - Math.min(...timestamps),
+    };
+    return data;
+  }
+
+  private readWithin(
+    source: SensorProofSource,
+    options: any,
+    windowMs: number
+  ): Promise<SensorData> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error(`${source.sensorType} did not finish within the ${windowMs}ms snapshot window`));
+      }, windowMs);
+
+      source.read(options).then(
+        (sensorData) => {
+          clearTimeout(timeout);
+          resolve(sensorData);
+        },
+        (error) => {
+          clearTimeout(timeout);
+          reject(new Error(`${source.sensorType} capture failed: ${error?.message ?? error}`));
+        }
+      );
+    });
+  }
+}
+
+/**
+ * One reading of a snapshot as standalone SensorData, e.g. to run the
+ * GPS geofence checks on a snapshot's location
+ */
+export function getSnapshotReading(
+  snapshot: SensorData,
+  type: SensorTypeId
+): SensorData | null {
+  if (snapshot.type !== SensorType.SNAPSHOT) return null;
+
+  const reading = (snapshot.data as SnapshotData).readings.find((r) => r.type === type);
+  if (!reading) return null;
+
+  const sensorData: SensorData = { ...reading, deviceId: snapshot.deviceId };
+  if (snapshot.context) sensorData.context = snapshot.context;
+  return sensorData;
+}
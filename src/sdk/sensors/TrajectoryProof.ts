@@ -0,0 +1,187 @@
+/**
+ * TrajectoryProof - Record a GPS track and sign it as one proof
+ * watchLocationWithProofs() signs every fix, so a commute costs hundreds of
+ * wallet signatures. The recorder buffers fixes instead and signs a single
+ * trajectory proof over their Merkle root, distance, duration and bounding
+ * box when recording stops (see location/Trajectory.ts). Keep the returned
+ * points: they are what GPX/GeoJSON exports and point inclusion proofs are
+ * built from, and the signed proof alone cannot restore them.
+ *
+ * With a location privacy level set, the bounding box is widened to that
+ * level's cells and the level is signed in context.locationPrivacy, as for
+ * GPS proofs. The points themselves stay exact: they are only revealed when
+ * the holder chooses to export or prove them.
+ */
+
+import * as Location from 'expo-location';
+import { SensorData, SensorProof, SensorType, TrajectoryPoint } from '@/src/types';
+import { SensorProofSource } from './SensorProofSource';
+import { summarizeTrajectory } from '../location/Trajectory';
+import { applyBoundsPrivacy, LocationPrivacySetting } from '../location/LocationPrivacy';
+
+export interface TrajectoryOptions {
+  duration?: number;          // capture() only: milliseconds to record
+  distanceInterval?: number;  // meters between fixes, default 10
+  timeInterval?: number;      // milliseconds between fixes, default 5000
+  accuracy?: Location.Accuracy;
+  maxAccuracy?: number;       // meters — worse fixes are left out of the track, default 50
+  privacy?: LocationPrivacySetting;
+  onPoint?: (point: TrajectoryPoint, pointCount: number) => void;
+}
+
+export interface RecordedTrajectory {
+  proof: SensorProof;
+  points: TrajectoryPoint[];
+}
+
+export class TrajectoryRecorder extends SensorProofSource<TrajectoryPoint, TrajectoryOptions> {
+  readonly sensorType = SensorType.TRAJECTORY;
+  private points: TrajectoryPoint[] = [];
+  private subscription: { remove: () => void } | null = null;
+  private privacy?: LocationPrivacySetting;
+  private trackPrivacy?: LocationPrivacySetting;
+
+  async isAvailable(): Promise<boolean> {
+    return await Location.hasServicesEnabledAsync();
+  }
+
+  async requestPermissions(): Promise<boolean> {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    return status === 'granted';
+  }
+
+  /**
+   * Default privacy level for tracks that don't pass their own
+   * Unset means exact bounds with no level recorded.
+   */
+  setLocationPrivacy(setting: LocationPrivacySetting | undefined): void {
+    this.privacy = setting;
+  }
+
+  isRecording(): boolean {
+    return this.subscription !== null;
+  }
+
+  /**
+   * Points buffered so far
+   */
+  getPoints(): TrajectoryPoint[] {
+    return [...this.points];
+  }
+
+  /**
+   * Start buffering fixes into a new track
+   */
+  async start(options?: TrajectoryOptions): Promise<void> {
+    const {
+      distanceInterval = 10,
+      timeInterval = 5000,
+      accuracy = Location.Accuracy.High,
+      maxAccuracy = 50,
+      privacy = this.privacy,
+      onPoint,
+    } = options || {};
+
+    if (this.subscription) {
+      throw new Error('A trajectory is already being recorded');
+    }
+
+    this.points = [];
+    this.trackPrivacy = privacy;
+    this.subscription = await Location.watchPositionAsync(
+      { accuracy, distanceInterval, timeInterval },
+      (location) => {
+        if (location.coords.accuracy !== null && location.coords.accuracy > maxAccuracy) return;
+
+        const last = this.points[this.points.length - 1];
+        if (last && location.timestamp <= last.timestamp) return;
+
+        const point: TrajectoryPoint = {
+          timestamp: location.timestamp,
+          latitude: location.coords.latitude,
+          longitude: location.coords.longitude,
+          altitude: location.coords.altitude,
+          accuracy: location.coords.accuracy,
+          speed: location.coords.speed,
+          ...(location.mocked !== undefined && { mocked: location.mocked }),
+        };
+        this.points.push(point);
+        onPoint?.(point, this.points.length);
+      }
+    );
+  }
+
+  /**
+   * Stop recording and sign the track with one signature
+   * Fails if fewer than two points were recorded; they are discarded either way.
+   */
+  async stop(): Promise<RecordedTrajectory> {
+    const privacy = this.trackPrivacy;
+    const points = this.finish();
+
+    try {
+      const sensorData = await this.toTrajectoryData(points, privacy);
+      const proof = await this.proofGen.generateProof(sensorData);
+      return { proof, points };
+    } catch (error) {
+      console.error('[TrajectoryProof] Failed to sign trajectory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop recording without signing
+   */
+  discard(): void {
+    this.finish();
+  }
+
+  /**
+   * Record for a fixed duration — what generateProof() and read() use
+   */
+  async capture(options?: TrajectoryOptions): Promise<TrajectoryPoint[]> {
+    const { duration = 60000 } = options || {};
+
+    await this.start(options);
+    await new Promise((resolve) => setTimeout(resolve, duration));
+    return this.finish();
+  }
+
+  /**
+   * Stamped with the last point's time, with the bounds coarsened to the
+   * privacy level before anything signs them
+   */
+  async read(options?: TrajectoryOptions): Promise<SensorData> {
+    const points = await this.capture(options);
+    return await this.toTrajectoryData(points, options?.privacy ?? this.privacy);
+  }
+
+  summarize(points: TrajectoryPoint[]): Record<string, any> {
+    return summarizeTrajectory(points);
+  }
+
+  private async toTrajectoryData(
+    points: TrajectoryPoint[],
+    setting: LocationPrivacySetting | undefined
+  ): Promise<SensorData> {
+    const sensorData = await this.toSensorData(this.summarize(points), points[points.length - 1]?.timestamp);
+    if (!setting) return sensorData;
+
+    const coarse = applyBoundsPrivacy(sensorData.data.bounds, setting);
+    return {
+      ...sensorData,
+      data: { ...sensorData.data, bounds: coarse.bounds },
+      context: { ...sensorData.context, locationPrivacy: coarse.privacy },
+    };
+  }
+
+  private finish(): TrajectoryPoint[] {
+    this.subscription?.remove();
+    this.subscription = null;
+    this.trackPrivacy = undefined;
+
+    const points = this.points;
+    this.points = [];
+    return points;
+  }
+}
@@ -1,17 +1,28 @@
 /**
  * ProofStorage - Local storage for sensor proofs
  * Handles caching, offline support, and proof history
+ * Every read-modify-write runs under one lock: the app, geofence events and
+ * background tasks write to the same keys.
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { SensorProof } from '@/src/types';
+import { SensorData, SensorProof } from '@/src/types';
+import { deriveLegacyProofId, deriveProofId } from '../crypto/ProofId';
+import { auditProofChains, ChainAuditReport, proofChain } from '../crypto/ProofChain';
+import { reviveProof } from '@/src/utils/proof-helpers';
+import { canonicalize } from '../encoding/CanonicalJson';
 
 const STORAGE_KEYS = {
   PROOFS: '@depin-go:proofs',
   PENDING_SUBMISSIONS: '@depin-go:pending',
+  UNSIGNED_READINGS: '@depin-go:unsigned-readings',
   SETTINGS: '@depin-go:settings',
+  PROOF_ID_SCHEME: '@depin-go:proof-id-scheme',
 };
 
+// Bump when the proof ID derivation changes so migrateProofIds() runs again
+const PROOF_ID_SCHEME = 'keccak256-v1';
+
 export interface StoredProof {
   proof: SensorProof;
   submitted: boolean;
@@ -21,6 +32,8 @@ export interface StoredProof {
 }
 
 export class ProofStorage {
+  private lock: Promise<unknown> = Promise.resolve();
+
   /**
    * Save a proof to local storage
    */
@@ -31,9 +44,11 @@ export class ProofStorage {
         submitted: false,
       };
 
-      const proofs = await this.getAllProofs();
-      proofs.push(storedProof);
-      await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(proofs));
+      await this.exclusive(async () => {
+        const proofs = await this.getAllProofs();
+        proofs.push(storedProof);
+        await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(proofs));
+      });
     } catch (error) {
       console.error('Failed to save proof:', error);
       throw error;
@@ -50,9 +65,11 @@ export class ProofStorage {
         submitted: false,
       }));
 
-      const existingProofs = await this.getAllProofs();
-      const allProofs = [...existingProofs, ...storedProofs];
-      await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(allProofs));
+      await this.exclusive(async () => {
+        const existingProofs = await this.getAllProofs();
+        const allProofs = [...existingProofs, ...storedProofs];
+        await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(allProofs));
+      });
     } catch (error) {
       console.error('Failed to save batch proofs:', error);
       throw error;
@@ -78,9 +95,11 @@ export class ProofStorage {
    */
   async deleteProof(proofHash: string): Promise<void> {
     try {
-      const proofs = await this.getAllProofs();
-      const filtered = proofs.filter((sp) => sp.proof.proofHash !== proofHash);
-      await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(filtered));
+      await this.exclusive(async () => {
+        const proofs = await this.getAllProofs();
+        const filtered = proofs.filter((sp) => !matchesProofHash(sp, proofHash));
+        await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(filtered));
+      });
     } catch (error) {
       console.error('Failed to delete proof:', error);
       throw error;
@@ -111,15 +130,17 @@ export class ProofStorage {
     transactionSignature: string
   ): Promise<void> {
     try {
-      const proofs = await this.getAllProofs();
-      const index = proofs.findIndex((sp) => sp.proof.proofHash === proofHash);
-
-      if (index !== -1) {
-        proofs[index].submitted = true;
-        proofs[index].submittedAt = Date.now();
-        proofs[index].transactionSignature = transactionSignature;
-        await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(proofs));
-      }
+      await this.exclusive(async () => {
+        const proofs = await this.getAllProofs();
+        const index = proofs.findIndex((sp) => matchesProofHash(sp, proofHash));
+
+        if (index !== -1) {
+          proofs[index].submitted = true;
+          proofs[index].submittedAt = Date.now();
+          proofs[index].transactionSignature = transactionSignature;
+          await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(proofs));
+        }
+      });
     } catch (error) {
       console.error('Failed to mark proof as submitted:', error);
       throw error;
@@ -131,13 +152,15 @@ export class ProofStorage {
    */
   async markAsFailed(proofHash: string, error: string): Promise<void> {
     try {
-      const proofs = await this.getAllProofs();
-      const index = proofs.findIndex((sp) => sp.proof.proofHash === proofHash);
+      await this.exclusive(async () => {
+        const proofs = await this.getAllProofs();
+        const index = proofs.findIndex((sp) => matchesProofHash(sp, proofHash));
 
-      if (index !== -1) {
-        proofs[index].error = error;
-        await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(proofs));
-      }
+        if (index !== -1) {
+          proofs[index].error = error;
+          await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(proofs));
+        }
+      });
     } catch (error) {
       console.error('Failed to mark proof as failed:', error);
       throw error;
@@ -149,7 +172,44 @@ export class ProofStorage {
    */
   async getProofByHash(proofHash: string): Promise<StoredProof | null> {
     const proofs = await this.getAllProofs();
-    return proofs.find((sp) => sp.proof.proofHash === proofHash) || null;
+    return proofs.find((sp) => matchesProofHash(sp, proofHash)) || null;
+  }
+
+  /**
+   * Rewrite proofs stored under an older hash scheme to the current proof ID
+   * The previous value is kept as legacyProofHash, so lookups by either still
+   * work. Runs once per scheme; returns the number of proofs rewritten.
+   */
+  async migrateProofIds(): Promise<number> {
+    try {
+      return await this.exclusive(async () => {
+        const scheme = await AsyncStorage.getItem(STORAGE_KEYS.PROOF_ID_SCHEME);
+        if (scheme === PROOF_ID_SCHEME) return 0;
+
+        const proofs = await this.getAllProofs();
+        const migrated = proofs.filter(normalizeProofId).length;
+
+        if (migrated > 0) {
+          await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(proofs));
+        }
+        await AsyncStorage.setItem(STORAGE_KEYS.PROOF_ID_SCHEME, PROOF_ID_SCHEME);
+        return migrated;
+      });
+    } catch (error) {
+      console.error('Failed to migrate proof IDs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Check the stored archive for gaps, forks and edited entries
+   * Compared against this device's chain heads, so a cut-off tail is caught
+   * too. Pass an imported archive's proofs to audit those instead.
+   */
+  async auditChain(proofs?: StoredProof[]): Promise<ChainAuditReport> {
+    const archive = proofs ?? (await this.getAllProofs());
+    const heads = await proofChain.getHeads();
+    return auditProofChains(archive.map((sp) => reviveProof(sp.proof)), heads);
   }
 
   /**
@@ -195,13 +255,15 @@ export class ProofStorage {
   async clearOldProofs(daysOld: number = 30): Promise<number> {
     try {
       const cutoffDate = Date.now() - daysOld * 24 * 60 * 60 * 1000;
-      const proofs = await this.getAllProofs();
-      const recentProofs = proofs.filter(
-        (sp) => sp.proof.sensorData.timestamp > cutoffDate
-      );
+      return await this.exclusive(async () => {
+        const proofs = await this.getAllProofs();
+        const recentProofs = proofs.filter(
+          (sp) => sp.proof.sensorData.timestamp > cutoffDate
+        );
 
-      await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(recentProofs));
-      return proofs.length - recentProofs.length;
+        await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(recentProofs));
+        return proofs.length - recentProofs.length;
+      });
     } catch (error) {
       console.error('Failed to clear old proofs:', error);
       return 0;
@@ -213,7 +275,7 @@ export class ProofStorage {
    */
   async clearAllProofs(): Promise<void> {
     try {
-      await AsyncStorage.removeItem(STORAGE_KEYS.PROOFS);
+      await this.exclusive(() => AsyncStorage.removeItem(STORAGE_KEYS.PROOFS));
     } catch (error) {
       console.error('Failed to clear all proofs:', error);
       throw error;
@@ -234,22 +296,26 @@ export class ProofStorage {
   async importProofs(jsonData: string): Promise<number> {
     try {
       const importedProofs: StoredProof[] = JSON.parse(jsonData);
-      const existingProofs = await this.getAllProofs();
-      const allProofs = [...existingProofs];
-      let importCount = 0;
-
-      for (const proof of importedProofs) {
-        const exists = allProofs.some(
-          (p) => p.proof.proofHash === proof.proof.proofHash
-        );
-        if (!exists) {
-          allProofs.push(proof);
-          importCount++;
+      return await this.exclusive(async () => {
+        const existingProofs = await this.getAllProofs();
+        const allProofs = [...existingProofs];
+        let importCount = 0;
+
+        for (const proof of importedProofs) {
+          // Exports from older app versions still carry the old hash
+          normalizeProofId(proof);
+          const exists = allProofs.some(
+            (p) => p.proof.proofHash === proof.proof.proofHash
+          );
+          if (!exists) {
+            allProofs.push(proof);
+            importCount++;
+          }
         }
-      }
 
-      await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(allProofs));
-      return importCount;
+        await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(allProofs));
+        return importCount;
+      });
     } catch (error) {
       console.error('Failed to import proofs:', error);
       throw error;
@@ -267,18 +333,85 @@ export class ProofStorage {
     return limit ? sorted.slice(0, limit) : sorted;
   }
 
+  /**
+   * Keep readings that couldn't be signed when they were taken (e.g. in
+   * the background without a session key) until a signer is available
+   */
+  async queueUnsignedReadings(readings: SensorData[]): Promise<void> {
+    try {
+      await this.exclusive(async () => {
+        const queued = await this.getUnsignedReadings();
+        await AsyncStorage.setItem(STORAGE_KEYS.UNSIGNED_READINGS, JSON.stringify([...queued, ...readings]));
+      });
+    } catch (error) {
+      console.error('Failed to queue unsigned readings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Readings waiting to be signed, oldest first
+   */
+  async getUnsignedReadings(): Promise<SensorData[]> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.UNSIGNED_READINGS);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Failed to get unsigned readings:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Drop queued readings once they are signed
+   * Matched by content, one queued copy per reading, so readings queued
+   * while these were being signed stay in the queue.
+   */
+  async removeUnsignedReadings(readings: SensorData[]): Promise<void> {
+    try {
+      await this.exclusive(async () => {
+        const signed = readings.map((reading) => canonicalize(reading));
+        const remaining = (await this.getUnsignedReadings()).filter((reading) => {
+          const index = signed.indexOf(canonicalize(reading));
+          if (index === -1) return true;
+          signed.splice(index, 1);
+          return false;
+        });
+        await AsyncStorage.setItem(STORAGE_KEYS.UNSIGNED_READINGS, JSON.stringify(remaining));
+      });
+    } catch (error) {
+      console.error('Failed to remove unsigned readings:', error);
+      throw error;
+    }
+  }
+
   /**
    * Save settings
    */
   async saveSettings(settings: Record<string, any>): Promise<void> {
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+      await this.exclusive(() => AsyncStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings)));
     } catch (error) {
       console.error('Failed to save settings:', error);
       throw error;
     }
   }
 
+  /**
+   * Read, change and save settings without losing a concurrent update
+   */
+  async updateSettings(update: (settings: Record<string, any>) => Record<string, any>): Promise<void> {
+    try {
+      await this.exclusive(async () => {
+        const settings = update(await this.getSettings());
+        await AsyncStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
+      });
+    } catch (error) {
+      console.error('Failed to update settings:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get settings
    */
@@ -297,26 +430,71 @@ export class ProofStorage {
    */
   async compactStorage(): Promise<number> {
     try {
-      const proofs = await this.getAllProofs();
-      const uniqueProofs = new Map<string, StoredProof>();
-
-      for (const proof of proofs) {
-        if (!uniqueProofs.has(proof.proof.proofHash)) {
-          uniqueProofs.set(proof.proof.proofHash, proof);
+      return await this.exclusive(async () => {
+        const proofs = await this.getAllProofs();
+        const uniqueProofs = new Map<string, StoredProof>();
+
+        for (const proof of proofs) {
+          if (!uniqueProofs.has(proof.proof.proofHash)) {
+            uniqueProofs.set(proof.proof.proofHash, proof);
+          }
         }
-      }
 
-      const compactedProofs = Array.from(uniqueProofs.values());
-      await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(compactedProofs));
-      return proofs.length - compactedProofs.length;
+        const compactedProofs = Array.from(uniqueProofs.values());
+        await AsyncStorage.setItem(STORAGE_KEYS.PROOFS, JSON.stringify(compactedProofs));
+        return proofs.length - compactedProofs.length;
+      });
     } catch (error) {
       console.error('Failed to compact storage:', error);
       return 0;
     }
   }
+
+  /**
+   * Run one read-modify-write at a time
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn, fn);
+    this.lock = run.catch(() => undefined);
+    return run;
+  }
 }
 
 /**
  * Singleton instance for app-wide use
  */
-export const proofStorage = new ProofStorage();
\ No newline at end of file
+export const proofStorage = new ProofStorage();
+
+/**
+ * Match a stored proof by its current ID or its pre-migration hash
+ */
+function matchesProofHash(stored: StoredProof, proofHash: string): boolean {
+  return stored.proof.proofHash === proofHash || stored.proof.legacyProofHash === proofHash;
+}
+
+/**
+ * Bring a stored proof's ID up to date in place; returns true if it changed.
+ * Only a genuine legacy hash is rewritten: any other mismatch is left as is,
+ * so verification still reports the proof ID as not matching its content.
+ */
+function normalizeProofId(stored: StoredProof): boolean {
+  let proofId: string;
+  let legacyProofId: string;
+  try {
+    proofId = deriveProofId(stored.proof);
+    legacyProofId = deriveLegacyProofId(stored.proof);
+  } catch (error) {
+    console.warn('Skipping proof ID migration for unreadable proof:', error);
+    return false;
+  }
+
+  if (stored.proof.proofHash === proofId) return false;
+  if (stored.proof.proofHash !== legacyProofId) {
+    console.warn('Not migrating proof whose hash matches neither ID scheme:', stored.proof.proofHash);
+    return false;
+  }
+
+  stored.proof.legacyProofHash = stored.proof.legacyProofHash ?? stored.proof.proofHash;
+  stored.proof.proofHash = proofId;
+  return true;
+}
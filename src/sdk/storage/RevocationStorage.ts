@@ -0,0 +1,71 @@
+/**
+ * RevocationStorage - Local list of revoked delegation certificates
+ * Only wallet-signed revocations are accepted, so the list can be shared
+ * with (or imported from) verifiers without trusting whoever sent it. A
+ * revocation only takes effect for a certificate of the wallet that signed
+ * it. Everything loaded or added is registered with registerRevocation(),
+ * so default verification applies it.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DelegationCertificate, DelegationRevocation } from '@/src/types';
+import { isCertificateRevoked, registerRevocation, verifyRevocation } from '../crypto/Delegation';
+
+const STORAGE_KEYS = {
+  REVOCATIONS: '@depin-go:delegation-revocations',
+};
+
+export class RevocationStorage {
+  private revocations: DelegationRevocation[] | null = null;
+
+  /**
+   * Record a revocation after checking the wallet's signature
+   */
+  async addRevocation(revocation: DelegationRevocation): Promise<void> {
+    if (!verifyRevocation(revocation)) {
+      throw new Error('Revocation signature is invalid');
+    }
+
+    try {
+      const stored = await this.loadRevocations();
+      if (!stored.some((r) => r.signature === revocation.signature)) {
+        const revocations = [...stored, revocation];
+        await AsyncStorage.setItem(STORAGE_KEYS.REVOCATIONS, JSON.stringify(revocations));
+        this.revocations = revocations;
+      }
+      registerRevocation(revocation);
+    } catch (error) {
+      console.error('Failed to save revocation:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every stored revocation — pass as `revocations` when verifying
+   */
+  async getRevocations(): Promise<DelegationRevocation[]> {
+    return [...(await this.loadRevocations())];
+  }
+
+  async isRevoked(certificate: DelegationCertificate): Promise<boolean> {
+    return isCertificateRevoked(certificate, await this.loadRevocations());
+  }
+
+  private async loadRevocations(): Promise<DelegationRevocation[]> {
+    if (this.revocations) return this.revocations;
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.REVOCATIONS);
+      const revocations: DelegationRevocation[] = data ? JSON.parse(data) : [];
+      this.revocations = revocations.filter(registerRevocation);
+    } catch (error) {
+      console.error('Failed to load revocations:', error);
+      throw error;
+    }
+    return this.revocations;
+  }
+}
+
+/**
+ * Singleton instance for app-wide use
+ */
+export const revocationStorage = new RevocationStorage();
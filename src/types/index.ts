@@ -7,20 +7,295 @@ export enum SensorType {
   MAGNETOMETER = 'magnetometer',
   NETWORK_SPEED = 'network_speed',
   BAROMETER     = 'barometer',
+  LIGHT         = 'light',
+  PEDOMETER     = 'pedometer',
+  SNAPSHOT      = 'snapshot',
+  TRAJECTORY    = 'trajectory',
+}
+
+/**
+ * A built-in SensorType or a custom type added through the SensorRegistry
+ */
+export type SensorTypeId = SensorType | (string & {});
+
+export enum SignerKind {
+  SEED_VAULT = 'seed_vault',
+  KEYPAIR    = 'keypair',
+  DELEGATED  = 'delegated',   // session key authorized by a wallet-signed certificate
+}
+
+/**
+ * How message bytes are framed before signing (see sdk/encoding/OffchainMessage)
+ */
+export enum SignatureEnvelope {
+  RAW         = 'raw',           // the message bytes themselves
+  OFFCHAIN_V0 = 'offchain-v0',   // Solana off-chain message envelope, version 0
+}
+
+export enum SensorMessageVersion {
+  LEGACY         = 0,
+  CANONICAL_JSON = 1,
+  BORSH          = 2,
 }
 
 export interface SensorData {
-  type: SensorType;
+  type: SensorTypeId;
   timestamp: number;
   data: any;
   deviceId: string;
+  context?: ProofContext;    // signed metadata about the proof itself, not the reading
+}
+
+/**
+ * Position of a proof in its signer+device hash chain
+ */
+export interface ChainLink {
+  sequence: number;              // 0 for the first proof of a chain
+  prevProofHash: string | null;  // proof ID of sequence - 1, null at sequence 0
+}
+
+/**
+ * Verifier-issued nonce, signed into the proof to show it was made on request
+ */
+export interface ProofChallenge {
+  nonce: string;
+  verifier: string;    // which verifier issued it — proofs can't be replayed to another
+  issuedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Recent chain state fetched right before signing — the proof can't predate it
+ */
+export interface TimeWitness {
+  slot: number;
+  blockhash: string;
+}
+
+/**
+ * What the app knows about the device a proof was made on
+ * Self-reported by the OS — useful for triage, not proof against a rooted phone
+ */
+export interface DeviceAttestation {
+  installId: string;               // random per install, also used as SensorData.deviceId
+  model: string | null;
+  modelId: string | null;
+  osName: string | null;
+  osVersion: string | null;
+  isDevice: boolean;               // false on emulators and simulators
+  appVersion: string | null;
+  registeredAt?: number;           // present once the install is bound to the signing wallet
+  registrationSignature?: string;  // bs58 wallet signature over the registration message
+}
+
+/**
+ * One-time wallet signature binding an install ID to a wallet
+ */
+export interface DeviceRegistration {
+  installId: string;
+  wallet: string;
+  registeredAt: number;
+  signature: string;               // bs58
+}
+
+/**
+ * What a wallet allows a delegated session key to sign
+ */
+export interface DelegationScope {
+  sensorTypes: SensorTypeId[];
+  expiresAt: number;
+  maxProofs: number;
+}
+
+/**
+ * Wallet-signed authorization of an ephemeral session key
+ */
+export interface DelegationCertificate {
+  wallet: string;        // base58 wallet public key (the authority)
+  sessionKey: string;    // base58 session public key that signs proofs
+  scope: DelegationScope;
+  issuedAt: number;
+  signature: string;     // bs58 wallet signature over the certificate message
+}
+
+/**
+ * A delegated proof's certificate and its position within the session quota
+ */
+export interface DelegationClaim {
+  certificate: DelegationCertificate;
+  index: number;         // 0-based, must stay below scope.maxProofs
+}
+
+/**
+ * Wallet-signed withdrawal of a delegation certificate
+ */
+export interface DelegationRevocation {
+  certificateId: string;
+  wallet: string;
+  revokedAt: number;
+  signature: string;     // bs58
+}
+
+/**
+ * Salted hash commitments that stand in for SensorData.data in a
+ * selective-disclosure proof (see sdk/crypto/SelectiveDisclosure)
+ */
+export interface FieldCommitments {
+  scheme: 'salted-keccak256-v1';
+  digests: Record<string, string>;   // field path → bs58 keccak256(canonical [salt, path, value])
+}
+
+/**
+ * What opens one commitment: known only to the holder until disclosed
+ */
+export interface FieldOpening {
+  salt: string;                      // bs58, 16 random bytes
+  value: unknown;
+}
+
+/**
+ * A committed proof plus the openings of the fields its holder chose to reveal
+ */
+export interface SelectiveDisclosure {
+  proof: SensorProof;
+  disclosed: Record<string, FieldOpening>;
+}
+
+export enum LocationPrivacyLevel {
+  EXACT   = 'exact',     // full-precision coordinates
+  GRID    = 'grid',      // snapped to the centre of a lat/lng grid cell
+  GEOHASH = 'geohash',   // centre of a geohash cell
+  REGION  = 'region',    // region and country only, on a 1° grid
+}
+
+/**
+ * How precise a GPS proof's coordinates are — signed with the proof
+ */
+export interface LocationPrivacy {
+  level: LocationPrivacyLevel;
+  gridDegrees?: number;     // GRID and REGION: cell size
+  geohash?: string;         // GEOHASH: the cell (precision = length)
+  geohashPrecision?: number; // GEOHASH bounds (trajectories): precision of the corner cells
+  precisionMeters: number;  // max distance from the reported point to the true position
+}
+
+/**
+ * Outcome of one cross-sensor consistency check (see ConsistencyEngine)
+ */
+export type ConsistencyCheckId = 'altitude' | 'motion' | 'heading' | 'network';
+
+export type ConsistencyStatus = 'consistent' | 'inconsistent' | 'inconclusive';
+
+export interface ConsistencyVerdict {
+  check: ConsistencyCheckId;
+  status: ConsistencyStatus;
+  score: number;        // 1 = fully consistent, 0 = contradictory; 1 when inconclusive
+  explanation: string;
+}
+
+export interface ConsistencyReport {
+  score: number;        // lowest conclusive score — one contradiction is enough
+  isConsistent: boolean;
+  verdicts: ConsistencyVerdict[];
+}
+
+/**
+ * Area a geofence covers: a circle, or a polygon of three or more vertices
+ */
+export type GeofenceShape =
+  | { kind: 'circle'; center: { latitude: number; longitude: number }; radiusMeters: number }
+  | { kind: 'polygon'; vertices: { latitude: number; longitude: number }[] };
+
+export type GeofenceEventType = 'enter' | 'exit' | 'dwell';
+
+/**
+ * A named region that triggers proofs (see sdk/location/Geofence)
+ */
+export interface GeofenceRegion {
+  id: string;
+  name: string;
+  shape: GeofenceShape;
+  dwellMs?: number;                 // fire a dwell event after this long inside
+  triggers?: GeofenceEventType[];   // absent = every event
+}
+
+/**
+ * The geofence event a proof was generated for — signed with the proof
+ */
+export interface GeofenceTrigger {
+  regionId: string;
+  name: string;
+  event: GeofenceEventType;
+  shape: GeofenceShape;
+}
+
+export interface ProofContext {
+  signerKind?: SignerKind;   // signed copy of SensorProof.signerKind
+  chain?: ChainLink;
+  challenge?: ProofChallenge;
+  timeWitness?: TimeWitness;
+  device?: DeviceAttestation;
+  delegation?: DelegationClaim;
+  commitments?: FieldCommitments;
+  locationPrivacy?: LocationPrivacy;
+  consistency?: ConsistencyReport;
+  geofence?: GeofenceTrigger;
 }
 
 export interface SensorProof {
   sensorData: SensorData;
   signature: Uint8Array;
   publicKey: PublicKey;
-  proofHash: string;
+  proofHash: string;         // proof ID: bs58(keccak256(signed message)), see sdk/crypto/ProofId
+  legacyProofHash?: string;  // pre-migration bs58(SHA-512) hash, kept so old references still resolve
+  signerKind?: SignerKind;   // absent on proofs created before signer kinds existed
+  messageVersion?: SensorMessageVersion; // absent = LEGACY encoding
+  envelope?: SignatureEnvelope;          // absent = RAW (proofs signed before envelopes)
+  openings?: Record<string, FieldOpening>; // holder-only salts for committed fields — never signed or shared
+}
+
+/**
+ * What the wallet signs for a root-signed bundle: the Merkle root over the
+ * readings' proof IDs plus metadata describing the batch
+ */
+export interface BundleManifest {
+  root: string;                          // hex keccak Merkle root, see sdk/crypto/Merkle
+  count: number;
+  sensorTypes: SensorTypeId[];
+  startTime: number;                     // earliest reading timestamp
+  endTime: number;                       // latest reading timestamp
+  createdAt: number;
+  messageVersion: SensorMessageVersion;  // encoding of every reading's leaf message
+}
+
+/**
+ * An unsigned reading inside a root-signed bundle, with its inclusion path
+ */
+export interface BundledReading {
+  sensorData: SensorData;
+  proofId: string;       // computeProofId(encodeSensorMessage(sensorData, manifest.messageVersion))
+  merklePath: string[];  // hex siblings from leaf to root
+}
+
+export interface RootSignedBundle {
+  manifest: BundleManifest;
+  signature: Uint8Array; // over the bundle message, once for the whole batch
+  publicKey: PublicKey;
+  signerKind?: SignerKind;
+  envelope?: SignatureEnvelope;  // absent = RAW
+  readings: BundledReading[];    // in leaf order
+}
+
+/**
+ * One reading cut out of a bundle, verifiable without the other readings
+ */
+export interface BundledReadingProof extends BundledReading {
+  leafIndex: number;
+  manifest: BundleManifest;
+  signature: Uint8Array;
+  publicKey: PublicKey;
+  signerKind?: SignerKind;
+  envelope?: SignatureEnvelope;
 }
 
 export interface GPSData {
@@ -30,6 +305,7 @@ export interface GPSData {
   accuracy: number | null;
   heading: number | null;
   speed: number | null;
+  mocked?: boolean;    // Android: fix came from a mock location provider; absent on iOS
 }
 
 export interface AccelerometerData {
@@ -64,6 +340,79 @@ export interface BarometerData {
 }
 
 
+export type LightCondition = 'dark' | 'indoor' | 'overcast' | 'daylight';
+
+export interface LightData {
+  illuminance: number;        // lux, averaged over the window
+  minIlluminance?: number;
+  maxIlluminance?: number;
+  lightCondition?: LightCondition;
+  sampleCount?: number;
+  duration?: number;          // milliseconds
+}
+
+
+export interface PedometerData {
+  steps: number;               // hardware step counter
+  accelerometerSteps: number;  // threshold crossings over the same window
+  disagreement: number;        // |steps - accelerometerSteps| / max of the two, 0–1
+  duration: number;            // milliseconds
+}
+
+
+/**
+ * One sensor's reading inside a snapshot proof
+ */
+export interface SnapshotReading {
+  type: SensorTypeId;
+  timestamp: number;           // when this sensor's capture finished
+  data: Record<string, any>;
+}
+
+export interface SnapshotData {
+  readings: SnapshotReading[];
+  windowMs: number;            // every capture had to finish within this
+  skewMs: number;              // latest minus earliest reading timestamp
+}
+
+
+/**
+ * One fix of a recorded track — a Merkle leaf of its trajectory proof
+ */
+export interface TrajectoryPoint {
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  accuracy: number | null;
+  speed: number | null;
+  mocked?: boolean;
+}
+
+/**
+ * What a trajectory proof signs in place of the points themselves
+ */
+export interface TrajectoryData {
+  merkleRoot: string;          // hex keccak root over the points, see sdk/location/Trajectory
+  pointCount: number;
+  distanceMeters: number;      // summed between consecutive points
+  durationMs: number;          // last minus first point timestamp
+  startTime: number;
+  endTime: number;
+  bounds: { south: number; west: number; north: number; east: number };
+  mockedPointCount?: number;   // points flagged by a mock location provider
+}
+
+/**
+ * One point cut out of a track, provable against the signed root
+ */
+export interface TrajectoryPointProof {
+  point: TrajectoryPoint;
+  leafIndex: number;
+  merklePath: string[];        // hex siblings from leaf to root
+}
+
+
 export interface NetworkSpeedData {
   downloadMbps: number;
   latencyMs: number;
@@ -4,51 +4,393 @@
  */
 
 import { PublicKey } from '@solana/web3.js';
-import { SensorData, SensorProof } from '@/src/types';
+import {
+  RootSignedBundle,
+  SensorData,
+  SensorMessageVersion,
+  SensorProof,
+  SignatureEnvelope,
+  SignerKind,
+} from '@/src/types';
+import {
+  CURRENT_SENSOR_MESSAGE_VERSION,
+  encodeSensorMessage,
+} from '@/src/sdk/encoding/SensorMessage';
 import bs58 from 'bs58';
 import nacl from 'tweetnacl';
-import * as Crypto from 'expo-crypto';
+import { computeProofId, deriveLegacyProofId, deriveProofId } from '@/src/sdk/crypto/ProofId';
+import { encodeSensorPayload, hasPayloadSchema } from '@/src/sdk/encoding/SensorSchemas';
+import { encodeSigningPayload } from '@/src/sdk/encoding/OffchainMessage';
+import { getSignedSignerKind, isHardwareSignerKind } from '@/src/sdk/crypto/Signer';
+import { verifyDeviceRegistration } from '@/src/sdk/identity/DeviceRegistration';
+import { checkConsistency } from '@/src/sdk/consistency/ConsistencyEngine';
+import { getDistanceToRegion } from '@/src/sdk/location/Geofence';
+import {
+  DelegationVerifyOptions,
+  getProofAuthority,
+  isDelegatedProof,
+  verifyDelegation,
+} from '@/src/sdk/crypto/Delegation';
+import { DEPIN_CONFIG } from './constants';
 
 /**
  * Create a deterministic message from sensor data
- * Format: type|timestamp|data_json|device_id
- * 
- * This must match the format in SeedVaultSigner and ProofGenerator
+ * Delegates to the canonical encoder in sdk/encoding/SensorMessage —
+ * defaults to the current version, pass a proof's messageVersion to rebuild it
  */
-export function createSensorMessage(sensorData: SensorData): string {
-  // Sort data keys for deterministic JSON
-  const dataJson = JSON.stringify(
-    sensorData.data,
-    Object.keys(sensorData.data).sort()
-  );
-
-  return `${sensorData.type}|${sensorData.timestamp}|${dataJson}|${sensorData.deviceId}`;
+export function createSensorMessage(
+  sensorData: SensorData,
+  version: SensorMessageVersion = CURRENT_SENSOR_MESSAGE_VERSION
+): string {
+  return new TextDecoder().decode(encodeSensorMessage(sensorData, version));
 }
 
 /**
  * Verify a sensor proof's signature
- * Returns true if signature is valid
+ * Delegated proofs must also carry a valid, unrevoked certificate chain back
+ * to the wallet. Returns true if both hold; use verifyProofDetailed() for the reason
  */
-export function verifySensorProof(proof: SensorProof): boolean {
+export function verifySensorProof(
+  proof: SensorProof,
+  options: DelegationVerifyOptions = {}
+): boolean {
   try {
-    // Recreate the message
-    const message = createSensorMessage(proof.sensorData);
-    const messageBytes = new TextEncoder().encode(message);
-
-    // Verify signature using ed25519
-    const isValid = nacl.sign.detached.verify(
-      messageBytes,
-      proof.signature,
-      proof.publicKey.toBytes()
-    );
-
-    return isValid;
+    const revived = reviveProof(proof);
+    return checkSignature(revived).status === 'pass'
+      && checkDelegation(revived, options).status !== 'fail';
   } catch (error) {
     console.error('Proof verification failed:', error);
     return false;
   }
 }
 
+export type ProofCheckId =
+  | 'signature'
+  | 'proofHash'
+  | 'schema'
+  | 'expiry'
+  | 'signerKind'
+  | 'delegation'
+  | 'challenge'
+  | 'timeWitness'
+  | 'device'
+  | 'antiSpoofing';
+
+// skip = the proof doesn't carry what the check looks at
+export type ProofCheckStatus = 'pass' | 'warn' | 'fail' | 'skip';
+
+export interface ProofCheck {
+  id: ProofCheckId;
+  status: ProofCheckStatus;
+  message: string;
+}
+
+export interface ProofVerificationReport {
+  isValid: boolean;      // no check failed (warnings allowed)
+  checks: ProofCheck[];
+  errors: string[];      // messages of failed checks
+  warnings: string[];    // messages of warned checks
+}
+
+/**
+ * Verify a proof and explain the outcome
+ * Every check always runs, so the report shows all problems at once rather
+ * than the first one. Accepts proofs straight from storage (see reviveProof).
+ */
+export function verifyProofDetailed(
+  proof: SensorProof,
+  options: DelegationVerifyOptions & {
+    now?: number;
+    expiryMs?: number;
+    /** Result of verifyTimeWitness() — the on-chain lookup is async, so it is done by the caller */
+    timeWitness?: { isValid: boolean; errors: string[] };
+  } = {}
+): ProofVerificationReport {
+  const { now = Date.now(), expiryMs = DEPIN_CONFIG.PROOF_EXPIRY } = options;
+  const revived = reviveProof(proof);
+
+  const checks: ProofCheck[] = [
+    checkSignature(revived),
+    checkProofHash(revived),
+    checkSchema(revived),
+    checkExpiry(revived.sensorData, now, expiryMs),
+    checkSignerKind(revived),
+    checkDelegation(revived, options),
+    checkChallenge(revived.sensorData),
+    checkTimeWitness(revived.sensorData, options.timeWitness),
+    checkDevice(revived),
+    checkAntiSpoofing(revived.sensorData),
+  ];
+
+  const errors = checks.filter((c) => c.status === 'fail').map((c) => c.message);
+  const warnings = checks.filter((c) => c.status === 'warn').map((c) => c.message);
+
+  return {
+    isValid: errors.length === 0,
+    checks,
+    errors,
+    warnings,
+  };
+}
+
+function checkSignature(proof: SensorProof): ProofCheck {
+  if (!proof.signature || proof.signature.length !== 64) {
+    return { id: 'signature', status: 'fail', message: 'Signature is missing or not 64 bytes' };
+  }
+
+  let messageBytes: Uint8Array;
+  try {
+    messageBytes = encodeSensorMessage(proof.sensorData, proof.messageVersion ?? SensorMessageVersion.LEGACY);
+  } catch (error) {
+    return { id: 'signature', status: 'fail', message: `Cannot rebuild signed message: ${errorMessage(error)}` };
+  }
+
+  try {
+    const signedBytes = encodeSigningPayload(messageBytes, proof.envelope ?? SignatureEnvelope.RAW);
+    return nacl.sign.detached.verify(signedBytes, proof.signature, proof.publicKey.toBytes())
+      ? { id: 'signature', status: 'pass', message: 'Signature matches the sensor data and public key' }
+      : { id: 'signature', status: 'fail', message: 'Signature does not match the sensor data and public key' };
+  } catch (error) {
+    return { id: 'signature', status: 'fail', message: `Signature could not be checked: ${errorMessage(error)}` };
+  }
+}
+
+function checkProofHash(proof: SensorProof): ProofCheck {
+  if (!proof.proofHash) {
+    return { id: 'proofHash', status: 'fail', message: 'Missing proof hash' };
+  }
+
+  let expected: string;
+  try {
+    expected = deriveProofId(proof);
+  } catch (error) {
+    return { id: 'proofHash', status: 'fail', message: `Cannot recompute proof ID: ${errorMessage(error)}` };
+  }
+
+  if (proof.proofHash === expected) {
+    return { id: 'proofHash', status: 'pass', message: 'Proof ID matches its content' };
+  }
+
+  if (proof.proofHash === deriveLegacyProofId(proof)) {
+    return { id: 'proofHash', status: 'warn', message: 'Proof uses the legacy hash scheme — run migrateProofIds()' };
+  }
+
+  return { id: 'proofHash', status: 'fail', message: 'Proof ID does not match its content' };
+}
+
+function checkSchema(proof: SensorProof): ProofCheck {
+  const { sensorData } = proof;
+  const { isValid, errors } = validateSensorFields(sensorData);
+  if (!isValid) {
+    return { id: 'schema', status: 'fail', message: errors.join('; ') };
+  }
+
+  // Committed proofs sign an empty data object; fields are checked as disclosed
+  const commitments = sensorData.context?.commitments;
+  if (commitments) {
+    return Object.keys(sensorData.data).length === 0
+      ? { id: 'schema', status: 'pass', message: `${Object.keys(commitments.digests).length} fields committed` }
+      : { id: 'schema', status: 'fail', message: 'Committed proof also carries plain data fields' };
+  }
+
+  // Only BORSH messages are laid out by a schema; the other encodings sign any JSON data
+  if (proof.messageVersion !== SensorMessageVersion.BORSH) {
+    return { id: 'schema', status: 'pass', message: 'Required fields present (JSON-encoded, no Borsh layout)' };
+  }
+  if (!hasPayloadSchema(sensorData.type)) {
+    return {
+      id: 'schema',
+      status: 'fail',
+      message: `No Borsh schema registered for ${sensorData.type} — see registerPayloadSchema()`,
+    };
+  }
+
+  try {
+    encodeSensorPayload(sensorData.type, sensorData.data);
+    return { id: 'schema', status: 'pass', message: `Data matches the ${sensorData.type} Borsh schema` };
+  } catch (error) {
+    return { id: 'schema', status: 'fail', message: errorMessage(error) };
+  }
+}
+
+function checkExpiry(sensorData: SensorData, now: number, expiryMs: number): ProofCheck {
+  const age = now - sensorData.timestamp;
+  if (age < 0) {
+    return { id: 'expiry', status: 'fail', message: 'Timestamp is in the future' };
+  }
+  if (age > expiryMs) {
+    return {
+      id: 'expiry',
+      status: 'fail',
+      message: `Expired ${formatDuration(age - expiryMs)} ago (valid for ${formatDuration(expiryMs)})`,
+    };
+  }
+  return { id: 'expiry', status: 'pass', message: `Expires in ${formatDuration(expiryMs - age)}` };
+}
+
+function checkSignerKind(proof: SensorProof): ProofCheck {
+  const kind = getSignedSignerKind(proof);
+  if (kind === undefined) {
+    return {
+      id: 'signerKind',
+      status: 'warn',
+      message: 'Signer kind unknown — not signed into the proof',
+    };
+  }
+  if (proof.signerKind !== undefined && proof.signerKind !== kind) {
+    return {
+      id: 'signerKind',
+      status: 'fail',
+      message: `Claims a ${proof.signerKind} signer but was signed as ${kind}`,
+    };
+  }
+
+  const certificate = proof.sensorData.context?.delegation?.certificate;
+  if (kind === SignerKind.DELEGATED && certificate) {
+    return {
+      id: 'signerKind',
+      status: 'warn',
+      message: `Signed by a session key delegated by ${certificate.wallet.slice(0, 8)}... — not hardware-backed`,
+    };
+  }
+  return isHardwareSignerKind(kind)
+    ? { id: 'signerKind', status: 'pass', message: 'Signed by a hardware-backed Seed Vault key' }
+    : { id: 'signerKind', status: 'warn', message: `Signed by a software key (${kind}) — not hardware-backed` };
+}
+
+function checkDelegation(proof: SensorProof, options: DelegationVerifyOptions): ProofCheck {
+  if (!isDelegatedProof(proof)) {
+    return { id: 'delegation', status: 'pass', message: 'Signed directly by the wallet key' };
+  }
+
+  const { isValid, errors } = verifyDelegation(proof, options);
+  if (!isValid) {
+    return { id: 'delegation', status: 'fail', message: errors.join('; ') };
+  }
+
+  const { certificate, index } = proof.sensorData.context!.delegation!;
+  return {
+    id: 'delegation',
+    status: 'pass',
+    message: `Certificate from ${certificate.wallet.slice(0, 8)}... covers this proof (${index + 1} of ${certificate.scope.maxProofs})`,
+  };
+}
+
+/**
+ * Only the verifier that issued the nonce can redeem it (verifyProofChallenge),
+ * so this checks what the proof itself shows
+ */
+function checkChallenge(sensorData: SensorData): ProofCheck {
+  const challenge = sensorData.context?.challenge;
+  if (!challenge) {
+    return { id: 'challenge', status: 'skip', message: 'No verifier challenge' };
+  }
+  if (challenge.expiresAt <= challenge.issuedAt) {
+    return { id: 'challenge', status: 'fail', message: 'Challenge expires before it was issued' };
+  }
+  if (sensorData.timestamp > challenge.expiresAt) {
+    return {
+      id: 'challenge',
+      status: 'warn',
+      message: `Reading was taken ${formatDuration(sensorData.timestamp - challenge.expiresAt)} after the challenge expired`,
+    };
+  }
+  return {
+    id: 'challenge',
+    status: 'pass',
+    message: `Signs a nonce from ${challenge.verifier} — only that verifier can redeem it`,
+  };
+}
+
+function checkTimeWitness(
+  sensorData: SensorData,
+  result: { isValid: boolean; errors: string[] } | undefined
+): ProofCheck {
+  const witness = sensorData.context?.timeWitness;
+  if (!witness) {
+    return { id: 'timeWitness', status: 'skip', message: 'No time witness' };
+  }
+  if (!result) {
+    return {
+      id: 'timeWitness',
+      status: 'warn',
+      message: `Witnesses slot ${witness.slot} — not checked against the chain`,
+    };
+  }
+  return result.isValid
+    ? { id: 'timeWitness', status: 'pass', message: `Blockhash and timestamp match slot ${witness.slot}` }
+    : { id: 'timeWitness', status: 'fail', message: result.errors.join('; ') };
+}
+
+function checkDevice(proof: SensorProof): ProofCheck {
+  const device = proof.sensorData.context?.device;
+  if (!device) {
+    return { id: 'device', status: 'warn', message: 'No device attestation' };
+  }
+  if (device.installId !== proof.sensorData.deviceId) {
+    return { id: 'device', status: 'fail', message: 'Attested install ID does not match the device ID' };
+  }
+  if (!device.registrationSignature) {
+    return { id: 'device', status: 'warn', message: 'Install is not registered to this wallet' };
+  }
+  return verifyDeviceRegistration(device, getProofAuthority(proof))
+    ? { id: 'device', status: 'pass', message: `Registered install on ${device.model ?? 'unknown model'}` }
+    : { id: 'device', status: 'fail', message: 'Device registration signature is invalid' };
+}
+
+function checkAntiSpoofing(sensorData: SensorData): ProofCheck {
+  const flags: string[] = [];
+  const data = sensorData.data ?? {};
+
+  if (sensorData.context?.device?.isDevice === false) {
+    flags.push('Generated on an emulator or simulator');
+  }
+
+  if (sensorData.type === 'gps') {
+    if (data.mocked === true) flags.push('Reported by a mock location provider');
+    if (data.accuracyWarning) flags.push(data.accuracyWarning);
+    if (typeof data.altitude === 'number' && (data.altitude > 9000 || data.altitude < -500)) {
+      flags.push(`Unrealistic altitude: ${data.altitude}m`);
+    }
+
+    // Enter and dwell fixes must lie in the region, within their accuracy
+    const geofence = sensorData.context?.geofence;
+    if (geofence && typeof data.latitude === 'number' && typeof data.longitude === 'number') {
+      const distance = getDistanceToRegion(data as { latitude: number; longitude: number }, geofence.shape);
+      const margin = (data.accuracy ?? 0) + (sensorData.context?.locationPrivacy?.precisionMeters ?? 0);
+      if (geofence.event !== 'exit' && distance > margin) {
+        flags.push(`Claims ${geofence.event} of ${geofence.name} but the fix is ${distance.toFixed(0)}m outside it`);
+      }
+    }
+  }
+
+  if (sensorData.type === 'trajectory' && data.mockedPointCount > 0) {
+    flags.push(`${data.mockedPointCount} of ${data.pointCount} points reported by a mock location provider`);
+  }
+
+  // Snapshots are re-checked rather than trusting the embedded report
+  if (sensorData.type === 'snapshot') {
+    for (const verdict of checkConsistency([sensorData]).verdicts) {
+      if (verdict.status === 'inconsistent') flags.push(verdict.explanation);
+    }
+  }
+
+  return flags.length > 0
+    ? { id: 'antiSpoofing', status: 'warn', message: flags.join('; ') }
+    : { id: 'antiSpoofing', status: 'pass', message: 'No anti-spoofing flags raised' };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+}
+
 /**
  * Serialize a proof to JSON string for storage/transmission
  */
@@ -58,6 +400,10 @@ export function serializeProof(proof: SensorProof): string {
     signature: bs58.encode(proof.signature),
     publicKey: proof.publicKey.toBase58(),
     proofHash: proof.proofHash,
+    legacyProofHash: proof.legacyProofHash,
+    signerKind: proof.signerKind,
+    messageVersion: proof.messageVersion,
+    envelope: proof.envelope,
   });
 }
 
@@ -72,19 +418,87 @@ export function deserializeProof(serialized: string): SensorProof {
     signature: bs58.decode(parsed.signature),
     publicKey: new PublicKey(parsed.publicKey),
     proofHash: parsed.proofHash,
+    legacyProofHash: parsed.legacyProofHash,
+    signerKind: parsed.signerKind,
+    messageVersion: parsed.messageVersion,
+    envelope: parsed.envelope,
+  };
+}
+
+/**
+ * Restore a proof that went through JSON.stringify (e.g. from AsyncStorage)
+ * The signature comes back as an index-keyed object and the public key as a
+ * base58 string; both are turned back into their real types.
+ */
+export function reviveProof(raw: any): SensorProof {
+  return {
+    ...raw,
+    signature: reviveBytes(raw.signature),
+    publicKey: revivePublicKey(raw.publicKey),
   };
 }
 
+/**
+ * reviveProof() for root-signed bundles
+ */
+export function reviveRootSignedBundle(raw: any): RootSignedBundle {
+  return {
+    ...raw,
+    signature: reviveBytes(raw.signature),
+    publicKey: revivePublicKey(raw.publicKey),
+  };
+}
+
+function reviveBytes(value: any): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  if (typeof value === 'string') return bs58.decode(value);
+  if (Array.isArray(value)) return Uint8Array.from(value);
+  if (value && Array.isArray(value.data)) return Uint8Array.from(value.data);
+  if (value && typeof value === 'object') {
+    return Uint8Array.from(
+      Object.keys(value)
+        .sort((a, b) => Number(a) - Number(b))
+        .map((key) => value[key])
+    );
+  }
+  throw new Error('Cannot revive signature bytes');
+}
+
+function revivePublicKey(value: any): PublicKey {
+  if (value instanceof PublicKey) return value;
+  if (value && value._bn) return new PublicKey(value._bn);
+  return new PublicKey(value);
+}
+
 /**
  * Hash sensor data to create a proof hash
+ * Returns the proof ID (see sdk/crypto/ProofId) for the given message version
  */
-export async function hashSensorData(sensorData: SensorData): Promise<string> {
-  const message = createSensorMessage(sensorData);
-  const hash = await Crypto.digestStringAsync(
-    Crypto.CryptoDigestAlgorithm.SHA256,
-    message
-  );
-  return hash;
+export function hashSensorData(
+  sensorData: SensorData,
+  version: SensorMessageVersion = CURRENT_SENSOR_MESSAGE_VERSION
+): string {
+  return computeProofId(encodeSensorMessage(sensorData, version));
+}
+
+/**
+ * Required fields only — no judgement on the timestamp's age
+ */
+function validateSensorFields(sensorData: SensorData): {
+  isValid: boolean;
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!sensorData.type) errors.push('Missing sensor type');
+  if (!sensorData.timestamp) errors.push('Missing timestamp');
+  if (!sensorData.data) errors.push('Missing sensor data');
+  if (!sensorData.deviceId) errors.push('Missing device ID');
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
 }
 
 /**
@@ -168,9 +582,10 @@ export function validateProof(proof: SensorProof): {
 
 /**
  * Compare two proofs for equality
+ * IDs are recomputed from content, so a migrated and an unmigrated copy still match
  */
 export function proofsEqual(proof1: SensorProof, proof2: SensorProof): boolean {
-  return proof1.proofHash === proof2.proofHash;
+  return deriveProofId(proof1) === deriveProofId(proof2);
 }
 
 /**